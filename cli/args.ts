@@ -0,0 +1,110 @@
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import type { Locale } from '../src/domain/i18n'
+import { isLocale } from '../src/domain/i18n'
+import type { HostLayoutId } from '../src/domain/layout'
+import type { Mode } from '../src/domain/modes'
+import { MODES } from '../src/domain/modes'
+import { clampInt } from '../src/domain/random'
+import type { SessionConfig, SessionKind } from '../src/domain/session'
+import { DEFAULT_SESSION_CONFIG, SESSION_KINDS, SPRINT_DURATIONS } from '../src/domain/session'
+import type { ValidationError } from '../src/domain/validation'
+
+export type CliOptions = {
+  mode: Mode
+  sessionConfig: SessionConfig
+  // Terminals do not report physical keys; they are looked up on this layout for the keystroke log.
+  layoutId: HostLayoutId
+  // A JSON backup, the same file the web app exports and imports.
+  dataPath: string
+  // null: from the environment (`LANG`).
+  locale: Locale | null
+  help: boolean
+}
+
+export const DEFAULT_DATA_PATH = join(homedir(), '.symbol-typing-trainer.json')
+
+const OPTIONS = {
+  mode: { type: 'string' },
+  session: { type: 'string' },
+  seconds: { type: 'string' },
+  targets: { type: 'string' },
+  layout: { type: 'string' },
+  data: { type: 'string' },
+  lang: { type: 'string' },
+  help: { type: 'boolean' },
+} as const
+
+const CLI_LAYOUTS: readonly HostLayoutId[] = ['us', 'jis']
+
+function oneOf<T extends string>(list: readonly T[], v: string): v is T {
+  return (list as readonly string[]).includes(v)
+}
+
+// Unknown options and bad values are all reported, rather than stopping at the first one.
+export function parseCliArgs(argv: string[]): { options: CliOptions | null, errors: ValidationError[] } {
+  const { values } = parseArgs({ args: argv, options: OPTIONS, strict: false, allowPositionals: true })
+  const errors: ValidationError[] = []
+  const str = (name: keyof typeof OPTIONS): string | null => {
+    const v = values[name]
+    if (v === undefined) return null
+    if (typeof v === 'string') return v
+    errors.push({ code: 'invalidOption', option: name, value: '' })
+    return null
+  }
+
+  for (const name of Object.keys(values)) {
+    if (!(name in OPTIONS)) errors.push({ code: 'unknownOption', option: name })
+  }
+
+  const options: CliOptions = {
+    // The first mode offered, as in the web app.
+    mode: MODES[0],
+    sessionConfig: { ...DEFAULT_SESSION_CONFIG },
+    layoutId: 'us',
+    dataPath: str('data') ?? DEFAULT_DATA_PATH,
+    locale: null,
+    help: values.help === true,
+  }
+
+  const mode = str('mode')
+  if (mode != null) {
+    if (oneOf(MODES, mode)) options.mode = mode
+    else errors.push({ code: 'invalidMode', value: mode })
+  }
+
+  const kind = str('session')
+  if (kind != null) {
+    if (oneOf<SessionKind>(SESSION_KINDS, kind)) options.sessionConfig.kind = kind
+    else errors.push({ code: 'invalidOption', option: 'session', value: kind })
+  }
+
+  const seconds = str('seconds')
+  if (seconds != null) {
+    const sec = Number(seconds)
+    if ((SPRINT_DURATIONS as readonly number[]).includes(sec)) options.sessionConfig.durationSec = sec
+    else errors.push({ code: 'invalidOption', option: 'seconds', value: seconds })
+  }
+
+  const targets = str('targets')
+  if (targets != null) {
+    const count = Number(targets)
+    if (Number.isInteger(count) && count === clampInt(count, 1, 500)) options.sessionConfig.targetCount = count
+    else errors.push({ code: 'invalidOption', option: 'targets', value: targets })
+  }
+
+  const layout = str('layout')
+  if (layout != null) {
+    if (oneOf(CLI_LAYOUTS, layout)) options.layoutId = layout
+    else errors.push({ code: 'invalidOption', option: 'layout', value: layout })
+  }
+
+  const lang = str('lang')
+  if (lang != null) {
+    if (isLocale(lang)) options.locale = lang
+    else errors.push({ code: 'invalidOption', option: 'lang', value: lang })
+  }
+
+  return { options: errors.length === 0 ? options : null, errors }
+}
@@ -0,0 +1,74 @@
+import type { KeyPress } from '../src/domain/keyboard'
+import type { HostLayout } from '../src/domain/layout'
+import { physicalKeyOf } from '../src/domain/layout'
+
+// Trainer controls; in the web app they are hotkeys (see `DEFAULT_HOTKEYS`).
+export type CliCommand = 'quit' | 'togglePause' | 'resetSession' | 'finishSession'
+
+// What one read from a raw-mode stdin stands for, in order (pasted text gives several keys).
+export type CliInput =
+  | { type: 'key', key: string }
+  | { type: 'command', command: CliCommand }
+
+const CONTROL_COMMANDS: Record<string, CliCommand> = {
+  '\u0003': 'quit', // Ctrl+C
+  '\u0004': 'quit', // Ctrl+D
+  '\u0012': 'resetSession', // Ctrl+R
+  '\u0006': 'finishSession', // Ctrl+F
+}
+
+const CONTROL_KEYS: Record<string, string> = {
+  '\r': 'Enter',
+  '\n': 'Enter',
+  '\t': 'Tab',
+  '\u007f': 'Backspace',
+  '\b': 'Backspace',
+}
+
+// Escape sequences we use; the rest (other arrows, function keys) are dropped.
+const ESCAPE_KEYS: Record<string, string> = {
+  '\u001b[C': 'ArrowRight',
+  '\u001bOC': 'ArrowRight',
+}
+
+// Length of the CSI (`ESC [ params final`) or SS3 (`ESC O final`) sequence at the start, or 0.
+function escapeSequenceLength(s: string): number {
+  if (s[0] !== '\u001b') return 0
+  if (s[1] === 'O') return s.length >= 3 ? 3 : 0
+  if (s[1] !== '[') return 0
+  for (let i = 2; i < s.length; i++) {
+    const c = s.charCodeAt(i)
+    if (c >= 0x40 && c <= 0x7e) return i + 1
+  }
+  return 0
+}
+
+export function decodeInput(chunk: string): CliInput[] {
+  // A lone Escape arrives on its own; inside a longer chunk it starts a sequence.
+  if (chunk === '\u001b') return [{ type: 'command', command: 'togglePause' }]
+  const inputs: CliInput[] = []
+  let rest = chunk
+  while (rest.length > 0) {
+    const length = escapeSequenceLength(rest)
+    if (length > 0) {
+      const key = ESCAPE_KEYS[rest.slice(0, length)]
+      if (key) inputs.push({ type: 'key', key })
+      rest = rest.slice(length)
+      continue
+    }
+    const ch = String.fromCodePoint(rest.codePointAt(0) ?? 0)
+    rest = rest.slice(ch.length)
+    if (CONTROL_COMMANDS[ch]) inputs.push({ type: 'command', command: CONTROL_COMMANDS[ch] })
+    else if (CONTROL_KEYS[ch]) inputs.push({ type: 'key', key: CONTROL_KEYS[ch] })
+    // Other control characters (and a stray Escape) are not typing.
+    else if (ch >= ' ') inputs.push({ type: 'key', key: ch })
+  }
+  return inputs
+}
+
+// Named keys keep their name as the code; characters are looked up on the OS layout.
+export function keyPressOf(layout: HostLayout, key: string): KeyPress {
+  if (key.length !== 1) return { key, code: key, shift: false, location: 0 }
+  const physical = physicalKeyOf(layout, key)
+  return { key, code: physical?.code ?? '', shift: physical?.shift ?? false, location: 0 }
+}
@@ -0,0 +1,135 @@
+import '../src/modes'
+import { existsSync } from 'node:fs'
+import { readFile, writeFile } from 'node:fs/promises'
+import type { BackupData } from '../src/domain/backup'
+import { exportBackupJson, parseBackupJson } from '../src/domain/backup'
+import type { EngineConfig, EngineEvent, TrainerEngine } from '../src/domain/engine'
+import { createTrainerEngine, emptyLifetimeStats } from '../src/domain/engine'
+import type { Messages } from '../src/domain/i18n'
+import { detectLocale, formatError, MESSAGES } from '../src/domain/i18n'
+import type { Keymap } from '../src/domain/keymap'
+import { buildCharIndex, DEFAULT_KEYMAP_JSON, parseKeymapJson } from '../src/domain/keymap'
+import type { HostLayout } from '../src/domain/layout'
+import { resolveHostLayout } from '../src/domain/layout'
+import { buildPool } from '../src/domain/modes'
+import { defaultProfileSettings } from '../src/domain/profiles'
+import type { CliOptions } from './args'
+import { DEFAULT_DATA_PATH, parseCliArgs } from './args'
+import type { CliCommand } from './input'
+import { decodeInput, keyPressOf } from './input'
+import { renderScreen, renderSessionsTable } from './render'
+
+// The trainer in a terminal: the engine behind `useTrainer`, driven by a raw-mode stdin.
+
+const TICK_MS = 100
+
+const COMMAND_EVENTS: Record<Exclude<CliCommand, 'quit'>, EngineEvent> = {
+  togglePause: { type: 'togglePause' },
+  resetSession: { type: 'reset' },
+  finishSession: { type: 'finish' },
+}
+
+// What a new profile starts with in the web app (built-in lists, default keymap and policies).
+function engineConfigOf(options: CliOptions): EngineConfig {
+  const settings = defaultProfileSettings()
+  const keymap = parseKeymapJson(DEFAULT_KEYMAP_JSON).keymap as Keymap
+  return {
+    mode: options.mode,
+    pool: buildPool(options.mode, settings.generatorSettings[options.mode], { customSets: [], sources: settings.enabledSources }),
+    generatorSettings: settings.generatorSettings,
+    schedulerSettings: settings.schedulerSettings,
+    sessionConfig: options.sessionConfig,
+    errorPolicy: settings.errorPolicies[options.mode],
+    streamSettings: settings.streamSettings,
+    charIndex: buildCharIndex(keymap),
+    seed: null,
+  }
+}
+
+// A missing file is a fresh start; a file we cannot fully read is left alone.
+async function readBackup(m: Messages, path: string): Promise<BackupData | null> {
+  if (!existsSync(path)) return { stats: emptyLifetimeStats(), sessions: [], events: [] }
+  const { data, errors } = parseBackupJson(await readFile(path, 'utf8'))
+  if (data && errors.length === 0) return data
+  console.error(m.cli.readFailed(path))
+  for (const error of errors) console.error(`  ${formatError(m, error)}`)
+  return null
+}
+
+// Resolves when the user quits. The terminal leaves raw mode however the process ends (an
+// error thrown by a key handler included), not only on quit.
+function play(engine: TrainerEngine, m: Messages, layout: HostLayout): Promise<void> {
+  const { stdin, stdout } = process
+  const restoreTerminal = () => {
+    if (stdin.isRaw) stdin.setRawMode(false)
+  }
+  return new Promise(resolve => {
+    const draw = () => {
+      stdout.write(renderScreen(m, engine.getState()))
+    }
+    const unsubscribe = engine.subscribe(draw)
+    const timer = setInterval(() => engine.dispatch({ type: 'tick' }), TICK_MS)
+
+    const onData = (chunk: string) => {
+      for (const input of decodeInput(chunk)) {
+        if (input.type === 'key') {
+          engine.dispatch({ type: 'keydown', ...keyPressOf(layout, input.key) })
+        } else if (input.command !== 'quit') {
+          engine.dispatch(COMMAND_EVENTS[input.command])
+        } else {
+          clearInterval(timer)
+          unsubscribe()
+          stdin.off('data', onData)
+          process.off('exit', restoreTerminal)
+          restoreTerminal()
+          stdin.pause()
+          stdout.write('\n')
+          resolve()
+          return
+        }
+      }
+    }
+
+    process.on('exit', restoreTerminal)
+    stdin.setRawMode(true)
+    stdin.setEncoding('utf8')
+    stdin.on('data', onData)
+    stdin.resume()
+    draw()
+  })
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { options, errors } = parseCliArgs(argv)
+  const m = MESSAGES[options?.locale ?? detectLocale([process.env.LC_ALL, process.env.LANG].filter(v => v != null))]
+  if (!options) {
+    for (const error of errors) console.error(formatError(m, error))
+    console.error(m.cli.usage(DEFAULT_DATA_PATH))
+    return 2
+  }
+  if (options.help) {
+    console.log(m.cli.usage(DEFAULT_DATA_PATH))
+    return 0
+  }
+  if (!process.stdin.isTTY) {
+    console.error(m.cli.notTty)
+    return 1
+  }
+
+  const stored = await readBackup(m, options.dataPath)
+  if (!stored) return 1
+  const engine = createTrainerEngine(engineConfigOf(options))
+  engine.dispatch({ type: 'load', ...stored, bestRuns: {} })
+
+  await play(engine, m, resolveHostLayout({ id: options.layoutId, customSource: null }))
+
+  // Records the session in progress, as leaving the web app does.
+  const { stats, sessions, events } = engine.dispatch({ type: 'reset' })
+  await writeFile(options.dataPath, exportBackupJson({ stats, sessions, events }))
+  const storedIds = new Set(stored.sessions.map(s => s.id))
+  console.log(renderSessionsTable(m, sessions.filter(s => !storedIds.has(s.id))))
+  console.log(m.cli.saved(options.dataPath))
+  return 0
+}
+
+process.exitCode = await main(process.argv.slice(2))
@@ -0,0 +1,135 @@
+import type { EngineState } from '../src/domain/engine'
+import type { SessionRecord } from '../src/domain/history'
+import type { Messages } from '../src/domain/i18n'
+import type { Mode } from '../src/domain/modes'
+import { GENERATORS } from '../src/domain/modes'
+import type { SessionSummary } from '../src/domain/session'
+import type { Stat } from '../src/domain/stats'
+import { mergeStatRecords, toRankedStats } from '../src/domain/stats'
+import { formatClock, formatMs } from '../src/domain/time'
+
+const CLEAR = '\u001b[2J\u001b[H'
+const RESET = '\u001b[0m'
+const GREEN = '\u001b[32m'
+const RED = '\u001b[31m'
+const DIM = '\u001b[2m'
+// How `STREAM_SEPARATOR` is shown.
+const SEPARATOR_MARK = '␣'
+
+function formatDelta(current: number, previous: number): string {
+  const delta = current - previous
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}`
+}
+
+// Elapsed time for endless/fixed sessions, remaining time for sprints (as in the web app).
+function formatSessionClock(m: Messages, state: EngineState): string {
+  const { sessionConfig } = state.config
+  if (sessionConfig.kind === 'sprint') return m.app.remaining(formatClock(sessionConfig.durationSec * 1000 - state.activeMs))
+  if (sessionConfig.kind === 'fixed') return `${state.session.correct} / ${sessionConfig.targetCount} / ${formatClock(state.activeMs)}`
+  return formatClock(state.activeMs)
+}
+
+// The solved part in green; with a pending mistake, the next character in red.
+function formatTarget(state: EngineState): string {
+  const { target, progress, pendingErrors } = state
+  if (!target) return '—'
+  const next = target.slice(progress.length, progress.length + 1)
+  const rest = target.slice(progress.length + 1)
+  return `${GREEN}${progress}${RESET}${pendingErrors === '' ? next : `${RED}${next}${RESET}`}${rest}`
+}
+
+// Stream mode: the separator still to type before the target, then the queue dimmed behind it
+// (as in the web app, separators read as ␣).
+function formatStream(state: EngineState): string {
+  const separator = state.config.streamSettings.spaces ? SEPARATOR_MARK : ''
+  const queued = state.queue.map(item => `${separator}${item}`).join('')
+  return `${state.separatorPending ? SEPARATOR_MARK : ''}${formatTarget(state)}${DIM}${queued}${RESET}`
+}
+
+function formatSummary(m: Messages, summary: SessionSummary): string[] {
+  const { session, previousBest } = summary
+  return [
+    m.summary.title(session.configKey),
+    [
+      `${m.summary.time} ${formatClock(session.activeMs)}`,
+      `${m.summary.targetsPerMin} ${summary.targetsPerMin.toFixed(1)}`,
+      `${m.summary.keysPerMin} ${summary.keysPerMin.toFixed(1)}`,
+      `${m.summary.accuracy} ${session.accuracy.toFixed(1)}%`,
+      `${m.summary.completed} ${session.correct}`,
+      `${m.summary.backspace} ${session.backspace}`,
+    ].join('  '),
+    `${m.summary.best} ${previousBest == null
+      ? m.summary.noBest
+      : m.summary.previousBest(
+        previousBest.targetsPerMin.toFixed(1),
+        formatDelta(summary.targetsPerMin, previousBest.targetsPerMin),
+        previousBest.keysPerMin.toFixed(1),
+        formatDelta(summary.keysPerMin, previousBest.keysPerMin),
+      )}`,
+  ]
+}
+
+// The whole screen, redrawn on every change.
+export function renderScreen(m: Messages, state: EngineState): string {
+  const { config, phase } = state
+  const targetLine = phase === 'countdown'
+    ? String(Math.ceil(state.countdownMs / 1000))
+    : phase === 'idle' || phase === 'finished' ? m.app.pressEnter
+    : config.streamSettings.enabled && state.target !== '' ? formatStream(state)
+    : formatTarget(state)
+  const lines = [
+    `${m.app.title}  ${DIM}${m.app.footer(config.pool.length, config.mode, config.sessionConfig.kind, m.phases[phase])}${RESET}`,
+    `${m.app.session} ${formatSessionClock(m, state)}`,
+    '',
+    `  ${targetLine}`,
+    '',
+    `${m.app.typed} ${state.typed}`,
+    `${m.app.last} ${formatMs(state.session.lastTimeMs ?? 0)}`,
+    ...(state.finishedSummary ? ['', ...formatSummary(m, state.finishedSummary)] : []),
+    '',
+    `${DIM}${m.cli.controls}${RESET}`,
+  ]
+  return CLEAR + lines.join('\n')
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)))
+  const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()
+  return [format(header), ...rows.map(format)].join('\n')
+}
+
+// Printed on exit: the sessions of this run and their items, slowest first.
+export function renderSessionsTable(m: Messages, sessions: readonly SessionRecord[]): string {
+  if (sessions.length === 0) return m.cli.noSessions
+  const sessionRows = sessions.map(s => [
+    s.configKey,
+    formatClock(s.activeMs),
+    String(s.correct),
+    String(s.attempts),
+    `${s.accuracy.toFixed(1)}%`,
+    String(s.backspace),
+  ])
+  // Stats keys belong to their mode, so they are added up per mode and read as the web app shows them.
+  const itemsByMode = sessions.reduce<Partial<Record<Mode, Record<string, Stat>>>>(
+    (acc, s) => ({ ...acc, [s.mode]: mergeStatRecords(acc[s.mode] ?? {}, s.itemDeltas) }),
+    {},
+  )
+  const itemRows = Object.entries(itemsByMode)
+    .flatMap(([mode, items]) => {
+      const { statLabel } = GENERATORS[mode as Mode].view
+      return toRankedStats(items ?? {}).map(r => ({ ...r, label: statLabel ? statLabel(m, r.item) : r.item }))
+    })
+    .sort((a, b) => (b.avg ?? -1) - (a.avg ?? -1))
+    .map(r => [r.label, String(r.attempts), `${r.acc.toFixed(1)}%`, r.avg == null ? '—' : formatMs(r.avg)])
+  return [
+    m.cli.played(sessions.length),
+    formatTable(
+      [m.stats.mode, m.summary.time, m.summary.completed, m.stats.attempts, m.stats.accuracy, m.stats.backspace],
+      sessionRows,
+    ),
+    '',
+    itemRows.length === 0
+      ? m.noData
+      : formatTable([m.columns.item, m.columns.attempts, m.columns.acc, m.columns.avg], itemRows),
+  ].join('\n')
+}
@@ -1,118 +1,479 @@
 import './App.css'
+import { useState } from 'react'
 import { useTrainer } from './hooks/useTrainer'
-import { DigitsSettingsForm } from './components/DigitsSettingsForm'
+import { useHotkeys } from './hooks/useHotkeys'
+import { MessagesContext } from './hooks/useMessages'
 import { SymbolsPicker } from './components/SymbolsPicker'
+import { SchedulerSettingsForm } from './components/SchedulerSettingsForm'
+import { CustomSetsEditor } from './components/CustomSetsEditor'
+import { KeymapPanel } from './components/KeymapPanel'
+import { LayoutPanel } from './components/LayoutPanel'
+import type { KeyBinding } from './domain/keymap'
+import { describeBinding } from './domain/keymap'
+import type { HostLayout, PhysicalKey } from './domain/layout'
+import { formatPhysicalKey } from './domain/layout'
 import { StatsPanel } from './components/StatsPanel'
-import { formatMs } from './domain/time'
+import { SessionConfigForm } from './components/SessionConfigForm'
+import { StreamSettingsForm } from './components/StreamSettingsForm'
+import { SessionSummaryPanel } from './components/SessionSummaryPanel'
+import { DrillPanel } from './components/DrillPanel'
+import { CurriculumPanel } from './components/CurriculumPanel'
+import { ProfileSwitcher } from './components/ProfileSwitcher'
+import { DataTransferPanel } from './components/DataTransferPanel'
+import { ErrorPolicyForm } from './components/ErrorPolicyForm'
+import { HotkeysPanel } from './components/HotkeysPanel'
+import { CommandPalette } from './components/CommandPalette'
+import type { CommandId, PaletteCommand } from './domain/commands'
+import type { Locale, Messages } from './domain/i18n'
+import { LOCALE_LABELS, LOCALES } from './domain/i18n'
+import { GENERATORS, generatorOf, MODES } from './domain/modes'
+import { SPRINT_DURATIONS } from './domain/session'
+import { formatClock, formatMs } from './domain/time'
 
+// One hint per distinct character, in the order they appear: the board key, then the key on the OS layout.
+function formatKeyHints(
+  m: Messages,
+  chars: string,
+  hints: (KeyBinding | null)[],
+  layout: HostLayout,
+  layoutHints: (PhysicalKey | null)[],
+): string {
+  const seen = new Set<string>()
+  const parts: string[] = []
+  Array.from(chars).forEach((ch, i) => {
+    if (seen.has(ch)) return
+    seen.add(ch)
+    const hint = hints[i]
+    const physical = layoutHints[i]
+    const os = physical ? m.app.osKey(layout.name, formatPhysicalKey(layout, physical)) : ''
+    parts.push(`${ch} → ${hint ? describeBinding(hint) : '?'}${os}`)
+  })
+  return parts.join(m.app.hintSeparator)
+}
 
 export default function App() {
   const { state, actions } = useTrainer()
   const {
     mode,
-    isRunning,
-    enabledSingle,
-    enabledCombo,
+    profiles,
+    activeProfileId,
+    locale,
+    messages: m,
+    drill,
+    drillCode,
+    hotkeys,
+    curricula,
+    activeCurriculum,
+    curriculumProgress,
+    sessionConfig,
+    phase,
+    countdownMs,
+    activeMs,
+    finishedSummary,
+    ghost,
+    ghostDelta,
+    customSets,
+    poolSources,
     basePool,
     pool,
-    digitsSettings,
+    generatorSettings,
+    schedulerSettings,
     target,
+    errorPolicy,
     typed,
+    progress,
+    pendingErrors,
+    autoInserted,
+    streamSettings,
+    queue,
+    separatorPending,
     totalAttempts,
     totalCorrect,
     totalMiss,
     totalBackspace,
     lastTimeMs,
+    lastSplits,
     accuracy,
-    ranked,
+    modeStats,
+    keymap,
+    isDefaultKeymap,
+    keyHints,
+    layoutSettings,
+    hostLayout,
+    layoutHints,
+    missBreakdown,
+    layerStats,
+    transitionStats,
+    firstKeyStats,
+    bigramStats,
+    lifetimeStats,
+    events,
+    sessions,
   } = state
 
-  const enabledMap = mode === 'single' ? enabledSingle : enabledCombo
+  // Modes with item switches get the item picker, custom sets and per-item palette commands.
+  const itemPicker = generatorOf(mode).items
+  const enabledMap = itemPicker ? itemPicker.enabled(generatorSettings[mode]) : {}
+  const [isPaletteOpen, setPaletteOpen] = useState(false)
+
+  const commandHandlers: Record<CommandId, () => void> = {
+    openPalette: () => setPaletteOpen(true),
+    togglePause: actions.togglePause,
+    resetSession: actions.resetSession,
+    finishSession: actions.completeSession,
+    nextMode: () => actions.setModeAndReset(MODES[(MODES.indexOf(mode) + 1) % MODES.length]),
+    startSprint: () => actions.startSessionWith({ ...sessionConfig, kind: 'sprint' }),
+  }
+  // The palette handles its own keys while it is open.
+  useHotkeys(hotkeys, commandHandlers, !isPaletteOpen)
+
+  const canToggleItems = itemPicker != null && drill == null && activeCurriculum == null
+  // A member lookup, so the lint rule sees components defined at module level.
+  const { SettingsForm, Target, longTargets } = GENERATORS[mode].view
+  const paletteCommands: PaletteCommand[] = [
+    ...(['togglePause', 'resetSession', 'finishSession', 'nextMode'] as const).map(id => ({
+      id,
+      label: m.commands[id],
+      detail: hotkeys[id] ?? undefined,
+      run: commandHandlers[id],
+    })),
+    ...MODES.map(id => ({
+      id: `mode:${id}`,
+      label: m.palette.mode(generatorOf(id).label(m)),
+      detail: id === mode ? m.palette.selected : undefined,
+      run: () => actions.setModeAndReset(id),
+    })),
+    ...SPRINT_DURATIONS.map(sec => ({
+      id: `sprint:${sec}`,
+      label: m.palette.sprint(sec),
+      detail: sec === sessionConfig.durationSec ? hotkeys.startSprint ?? undefined : undefined,
+      run: () => actions.startSessionWith({ ...sessionConfig, kind: 'sprint', durationSec: sec }),
+    })),
+    {
+      id: 'fixed',
+      label: m.palette.fixed(sessionConfig.targetCount),
+      run: () => actions.startSessionWith({ ...sessionConfig, kind: 'fixed' }),
+    },
+    {
+      id: 'endless',
+      label: m.palette.endless,
+      run: () => actions.setSessionConfig({ ...sessionConfig, kind: 'endless' }),
+    },
+    {
+      id: 'stream',
+      label: streamSettings.enabled ? m.palette.streamOff : m.palette.streamOn,
+      run: () => actions.setStreamSettings({ ...streamSettings, enabled: !streamSettings.enabled }),
+    },
+    ...(canToggleItems ? [
+      { id: 'items:all', label: m.palette.allItemsOn, run: actions.enableAllInCurrentMode },
+      { id: 'items:none', label: m.palette.allItemsOff, run: actions.disableAllInCurrentMode },
+      ...basePool.map(item => ({
+        id: `item:${item}`,
+        label: m.palette.toggleItem(item, enabledMap[item] === false),
+        detail: enabledMap[item] === false ? 'OFF' : 'ON',
+        run: () => actions.setEnabledForItemInCurrentMode(item, enabledMap[item] === false),
+      })),
+    ] : []),
+  ]
+
+  // Elapsed time for endless/fixed sessions, remaining time for sprints.
+  const formatSessionClock = () => {
+    if (sessionConfig.kind === 'sprint') return m.app.remaining(formatClock(sessionConfig.durationSec * 1000 - activeMs))
+    if (sessionConfig.kind === 'fixed') return `${totalCorrect} / ${sessionConfig.targetCount} / ${formatClock(activeMs)}`
+    return formatClock(activeMs)
+  }
+
+  // Live standing against the ghost while running, its record otherwise.
+  const formatGhost = () => {
+    if (!ghost) return m.app.ghostNone
+    if (!ghostDelta) return m.app.ghostBest(ghost.correct, formatClock(ghost.activeMs))
+    const parts = [m.app.ghostTargets(ghostDelta.targets)]
+    if (ghostDelta.ms === 0) parts.push(m.app.ghostEven)
+    else if (ghostDelta.ms != null) {
+      const time = formatMs(Math.abs(ghostDelta.ms))
+      parts.push(ghostDelta.ms > 0 ? m.app.ghostAhead(time) : m.app.ghostBehind(time))
+    }
+    return parts.join(m.app.hintSeparator)
+  }
 
   return (
-    <div className="app">
-      <header className="header">
-        <h1>Symbol Typing Trainer</h1>
-        <div className="controls">
-          <label className="control">
-            Mode
-            <select
-              value={mode}
-              onChange={(e) => {
-                actions.setModeAndReset(e.target.value as typeof mode)
+    <MessagesContext value={m}>
+      <div className="app">
+        <header className="header">
+          <h1>{m.app.title}</h1>
+          <div className="controls">
+            <label className="control">
+              {m.app.language}
+              <select
+                value={locale}
+                aria-label="locale"
+                onChange={(e) => {
+                  actions.setLocale(e.target.value as Locale)
+                }}
+              >
+                {LOCALES.map(id => <option key={id} value={id}>{LOCALE_LABELS[id]}</option>)}
+              </select>
+            </label>
+
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onSwitch={actions.switchProfile}
+              onCreate={actions.createProfile}
+              onRename={actions.renameProfile}
+              onDelete={actions.deleteProfile}
+            />
+
+            <label className="control">
+              {m.app.mode}
+              <select
+                value={mode}
+                onChange={(e) => {
+                  actions.setModeAndReset(e.target.value as typeof mode)
+                }}
+              >
+                {MODES.map(id => <option key={id} value={id}>{generatorOf(id).label(m)}</option>)}
+              </select>
+            </label>
+
+            <button
+              type="button"
+              className="btn"
+              disabled={phase === 'countdown'}
+              onClick={actions.togglePause}
+            >
+              {phase === 'running' ? m.app.pause : phase === 'paused' ? m.app.resume : m.app.start}
+            </button>
+
+            <button
+              type="button"
+              className="btn"
+              disabled={phase !== 'running' && phase !== 'paused'}
+              onClick={actions.completeSession}
+            >
+              {m.app.finish}
+            </button>
+
+            <button type="button" className="btn" onClick={actions.resetSession}>
+              {m.app.resetSession}
+            </button>
+
+            <button
+              type="button"
+              className="btn"
+              onClick={() => {
+                if (window.confirm(m.app.wipeConfirm)) actions.wipeAllHistory()
               }}
             >
-              <option value="single">1文字</option>
-              <option value="combo">2〜3文字</option>
-              <option value="digits">数字</option>
-            </select>
-          </label>
-
-          <button
-            type="button"
-            className="btn"
-            onClick={actions.toggleRunning}
-          >
-            {isRunning ? 'Pause' : 'Resume'}
-          </button>
-
-          <button type="button" className="btn" onClick={actions.resetAll}>
-            Reset
-          </button>
-        </div>
-      </header>
-
-      <main className="main">
-        <section className="trainer" aria-label="trainer">
-          <div className="target" aria-label="target">{mode === 'digits' ? (target || '—') : (pool.length === 0 ? '—' : target)}</div>
-          <div className="hint" aria-label="status">
-            <span className="label">Typed:</span>
-            <span className="typed">{typed || ''}</span>
-          </div>
-          <div className="hint">
-            <span className="label">Last:</span>
-            <span>{lastTimeMs == null ? '' : formatMs(lastTimeMs)}</span>
+              {m.app.wipeHistory}
+            </button>
           </div>
-          <p className="help">
-            画面をクリックする必要はありません（キー入力は全体で拾います）。
-            {mode === 'digits'
-              ? 'ミスしても進捗は戻りません（Backspaceで修正できます）。'
-              : 'ミスすると入力バッファがリセットされます。'}
-          </p>
-
-          {mode === 'digits' ? (
-            <DigitsSettingsForm
-              digitsSettings={digitsSettings}
-              onChange={actions.setDigitsSettingsAndReset}
+        </header>
+
+        <main className="main">
+          <section className="trainer" aria-label="trainer">
+            {finishedSummary ? (
+              <SessionSummaryPanel
+                summary={finishedSummary}
+                onRestart={actions.startSession}
+                onDismiss={actions.dismissSummary}
+              />
+            ) : null}
+            <div className="hint" aria-label="session-clock">
+              <span className="label">{m.app.session}</span>
+              <span className="mono">{formatSessionClock()}</span>
+            </div>
+            {sessionConfig.ghost && sessionConfig.kind !== 'endless' ? (
+              <div className="hint" aria-label="ghost">
+                <span className="label">{m.app.ghost}</span>
+                <span className="mono">{formatGhost()}</span>
+              </div>
+            ) : null}
+            {phase === 'countdown' ? (
+              <div className="target" aria-label="countdown">{Math.ceil(countdownMs / 1000)}</div>
+            ) : phase === 'idle' || phase === 'finished' ? (
+              <div className="target idle" aria-label="target">{m.app.pressEnter}</div>
+            ) : streamSettings.enabled && target !== '' ? (
+              <div className={longTargets ? 'target stream snippet mono' : 'target stream mono'} aria-label="target">
+                {separatorPending ? <span className="separator">␣</span> : null}
+                <span className="done">{progress}</span>
+                <span className="pending">{pendingErrors}</span>
+                {target.slice(progress.length)}
+                {queue.map((item, i) => (
+                  <span key={i} className="queued">
+                    {streamSettings.spaces ? <span className="separator">␣</span> : null}
+                    {item}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <Target target={target} progress={progress} pendingErrors={pendingErrors} />
+            )}
+            <div className="hint" aria-label="status">
+              <span className="label">{m.app.typed}</span>
+              <span className="typed">{typed || ''}</span>
+              {autoInserted === '' ? null : <span className="autoClosed mono">{autoInserted}</span>}
+            </div>
+            {pendingErrors === '' ? null : (
+              <div className="hint" aria-label="pending-errors">
+                <span className="label">{m.app.fix}</span>
+                <span className="pending mono">{pendingErrors}</span>
+                <span className="label">{m.app.fixHint}</span>
+              </div>
+            )}
+            {target === '' ? null : (
+              <div className="hint" aria-label="key-hint">
+                <span className="label">{m.app.key}</span>
+                <span className="mono">
+                  {longTargets
+                    ? formatKeyHints(
+                      m,
+                      target[progress.length] ?? '',
+                      keyHints.slice(progress.length),
+                      hostLayout,
+                      layoutHints.slice(progress.length),
+                    )
+                    : formatKeyHints(m, target, keyHints, hostLayout, layoutHints)}
+                </span>
+              </div>
+            )}
+            <div className="hint">
+              <span className="label">{m.app.last}</span>
+              <span>{lastTimeMs == null ? '' : formatMs(lastTimeMs)}</span>
+              {lastSplits.length < 2 ? null : (
+                <span className="label">
+                  {m.app.splits(formatMs(lastSplits[0]), lastSplits.slice(1).map(ms => formatMs(ms)).join(' / '))}
+                </span>
+              )}
+            </div>
+            <p className="help">
+              {m.app.help}
+              {m.errorPolicies[errorPolicy].description}
+            </p>
+
+            <SessionConfigForm
+              sessionConfig={sessionConfig}
+              onChange={actions.setSessionConfig}
+            />
+
+            <StreamSettingsForm
+              streamSettings={streamSettings}
+              onChange={actions.setStreamSettings}
             />
-          ) : (
-            <SymbolsPicker
-              modeLabel={mode}
-              basePool={basePool}
-              pool={pool}
-              enabledMap={enabledMap}
-              onEnableAll={actions.enableAllInCurrentMode}
-              onDisableAll={actions.disableAllInCurrentMode}
-              onToggleItem={(item, enabled) => actions.setEnabledForItemInCurrentMode(item, enabled)}
+
+            <ErrorPolicyForm
+              errorPolicy={errorPolicy}
+              onChange={actions.setErrorPolicy}
+            />
+
+            <DrillPanel
+              drill={drill}
+              drillCode={drillCode}
+              onCreate={actions.createDrill}
+              onApply={actions.applyDrillCode}
+              onExit={actions.exitDrill}
+            />
+
+            <CurriculumPanel
+              curricula={curricula}
+              activeCurriculum={activeCurriculum}
+              progress={curriculumProgress}
+              onStart={actions.startCurriculum}
+              onStop={actions.stopCurriculum}
+              onImport={actions.importCurriculaJson}
+              onDelete={actions.deleteCurriculum}
             />
-          )}
-        </section>
-
-        <StatsPanel
-          totalAttempts={totalAttempts}
-          totalCorrect={totalCorrect}
-          totalMiss={totalMiss}
-          totalBackspace={totalBackspace}
-          accuracy={accuracy}
-          ranked={ranked}
-        />
-      </main>
-
-      <footer className="footer">
-        <div className="meta">
-          Pool size: {pool.length} / Mode: {mode} / {isRunning ? 'Running' : 'Paused'}
-        </div>
-      </footer>
-    </div>
+
+            {drill != null || activeCurriculum != null || !SettingsForm ? null : (
+              <SettingsForm
+                settings={generatorSettings[mode]}
+                onChange={next => actions.setGeneratorSettings(mode, next)}
+              />
+            )}
+
+            {!canToggleItems ? null : (
+              <>
+                <SchedulerSettingsForm
+                  schedulerSettings={schedulerSettings}
+                  onChange={actions.setSchedulerSettings}
+                />
+                <SymbolsPicker
+                  modeLabel={mode}
+                  sources={poolSources}
+                  basePool={basePool}
+                  pool={pool}
+                  enabledMap={enabledMap}
+                  onEnableAll={actions.enableAllInCurrentMode}
+                  onDisableAll={actions.disableAllInCurrentMode}
+                  onToggleItem={(item, enabled) => actions.setEnabledForItemInCurrentMode(item, enabled)}
+                  onToggleSource={actions.setEnabledForSource}
+                />
+                <CustomSetsEditor
+                  kind={itemPicker.kind}
+                  customSets={customSets}
+                  onAdd={actions.addCustomSet}
+                  onUpdate={actions.updateCustomSet}
+                  onDelete={actions.deleteCustomSet}
+                  onImport={actions.importCustomSetsJson}
+                />
+              </>
+            )}
+
+            <KeymapPanel
+              keymap={keymap}
+              isDefaultKeymap={isDefaultKeymap}
+              onImport={actions.importKeymapJson}
+              onReset={actions.resetKeymap}
+            />
+
+            <HotkeysPanel
+              hotkeys={hotkeys}
+              onChange={actions.setHotkey}
+              onReset={actions.resetHotkeys}
+            />
+
+            <LayoutPanel
+              layoutSettings={layoutSettings}
+              hostLayout={hostLayout}
+              onSelect={actions.setLayoutId}
+              onImport={actions.importCustomLayoutJson}
+            />
+
+            <DataTransferPanel
+              data={{ stats: lifetimeStats, sessions, events }}
+              onImport={actions.importBackup}
+            />
+          </section>
+
+          <StatsPanel
+            totalAttempts={totalAttempts}
+            totalCorrect={totalCorrect}
+            totalMiss={totalMiss}
+            totalBackspace={totalBackspace}
+            accuracy={accuracy}
+            mode={mode}
+            modeStats={modeStats}
+            layerStats={layerStats}
+            transitionStats={transitionStats}
+            firstKeyStats={firstKeyStats}
+            bigramStats={bigramStats}
+            events={events}
+            missBreakdown={missBreakdown}
+            layoutName={hostLayout.name}
+            sessions={sessions}
+          />
+        </main>
+
+        {isPaletteOpen ? (
+          <CommandPalette commands={paletteCommands} onClose={() => setPaletteOpen(false)} />
+        ) : null}
+
+        <footer className="footer">
+          <div className="meta">
+            {m.app.footer(pool.length, mode, sessionConfig.kind, m.phases[phase])}
+          </div>
+        </footer>
+      </div>
+    </MessagesContext>
   )
 }
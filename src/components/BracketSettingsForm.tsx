@@ -0,0 +1,88 @@
+import type { BracketSettings } from '../domain/brackets'
+import { BRACKET_LIMITS, BRACKET_PAIRS } from '../domain/brackets'
+import { clampInt } from '../domain/random'
+import { useMessages } from '../hooks/useMessages'
+import type { SettingsFormProps } from '../domain/targetGenerator'
+
+export function BracketSettingsForm(props: SettingsFormProps<BracketSettings>) {
+  const { settings: bracketSettings, onChange } = props
+  const m = useMessages()
+
+  return (
+    <div className="picker" aria-label="bracket-settings">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.brackets.title}</div>
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="bracket-types">
+        {BRACKET_PAIRS.map(pair => (
+          <label key={pair.id} className="checkItem">
+            <input
+              type="checkbox"
+              checked={bracketSettings.types[pair.id]}
+              onChange={(e) => {
+                const next = { ...bracketSettings, types: { ...bracketSettings.types, [pair.id]: e.target.checked } }
+                onChange(next)
+              }}
+            />
+            <span className="mono">{pair.open}{pair.close}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="bracket-options">
+        <label className="checkItem">
+          <span>{m.brackets.minPairs}</span>
+          <input
+            type="number"
+            min={BRACKET_LIMITS.minPairs}
+            max={BRACKET_LIMITS.maxPairs}
+            value={bracketSettings.minPairs}
+            onChange={(e) => {
+              const v = clampInt(Number(e.target.value), BRACKET_LIMITS.minPairs, BRACKET_LIMITS.maxPairs)
+              onChange({ ...bracketSettings, minPairs: Math.min(v, bracketSettings.maxPairs) })
+            }}
+          />
+        </label>
+        <label className="checkItem">
+          <span>{m.brackets.maxPairs}</span>
+          <input
+            type="number"
+            min={BRACKET_LIMITS.minPairs}
+            max={BRACKET_LIMITS.maxPairs}
+            value={bracketSettings.maxPairs}
+            onChange={(e) => {
+              const v = clampInt(Number(e.target.value), BRACKET_LIMITS.minPairs, BRACKET_LIMITS.maxPairs)
+              onChange({ ...bracketSettings, maxPairs: Math.max(v, bracketSettings.minPairs) })
+            }}
+          />
+        </label>
+        <label className="checkItem">
+          <span>{m.brackets.maxDepth}</span>
+          <input
+            type="number"
+            min={BRACKET_LIMITS.minDepth}
+            max={BRACKET_LIMITS.maxDepth}
+            value={bracketSettings.maxDepth}
+            onChange={(e) => {
+              const v = clampInt(Number(e.target.value), BRACKET_LIMITS.minDepth, BRACKET_LIMITS.maxDepth)
+              onChange({ ...bracketSettings, maxDepth: v })
+            }}
+          />
+        </label>
+
+        <label className="checkItem">
+          <input
+            type="checkbox"
+            checked={bracketSettings.autoClose}
+            onChange={(e) => {
+              const next = { ...bracketSettings, autoClose: e.target.checked }
+              onChange(next)
+            }}
+          />
+          <span>{m.brackets.autoClose}</span>
+        </label>
+      </div>
+    </div>
+  )
+}
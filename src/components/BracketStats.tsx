@@ -0,0 +1,44 @@
+import { BRACKET_PAIRS, bracketSideKey } from '../domain/brackets'
+import type { Stat } from '../domain/stats'
+import { toRankedStats } from '../domain/stats'
+import { formatMs } from '../domain/time'
+import { useMessages } from '../hooks/useMessages'
+
+// Brackets mode: both sides of each pair on one row.
+export function BracketStats(props: { stats: Record<string, Stat> }) {
+  const m = useMessages()
+  const sides = new Map(toRankedStats(props.stats).map(r => [r.item, r]))
+  if (sides.size === 0) return null
+  return (
+    <>
+      <h3 className="subhead">{m.stats.brackets}</h3>
+      <table className="table">
+        <thead>
+          <tr>
+            <th>{m.stats.pair}</th>
+            <th>{m.stats.openAcc}</th>
+            <th>{m.stats.openAvg}</th>
+            <th>{m.stats.closeAcc}</th>
+            <th>{m.stats.closeAvg}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {BRACKET_PAIRS.map(pair => {
+            const open = sides.get(bracketSideKey(pair.open) ?? '')
+            const close = sides.get(bracketSideKey(pair.close) ?? '')
+            if (!open && !close) return null
+            return (
+              <tr key={pair.id}>
+                <td className="mono">{pair.open}{pair.close}</td>
+                <td>{open ? `${open.acc.toFixed(1)}%` : '—'}</td>
+                <td>{open?.avg == null ? '—' : formatMs(open.avg)}</td>
+                <td>{close ? `${close.acc.toFixed(1)}%` : '—'}</td>
+                <td>{close?.avg == null ? '—' : formatMs(close.avg)}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </>
+  )
+}
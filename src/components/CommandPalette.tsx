@@ -0,0 +1,73 @@
+import { useState } from 'react'
+import type { PaletteCommand } from '../domain/commands'
+import { filterCommands } from '../domain/commands'
+import { useMessages } from '../hooks/useMessages'
+
+export function CommandPalette(props: {
+  commands: PaletteCommand[]
+  onClose: () => void
+}) {
+  const { commands, onClose } = props
+  const m = useMessages()
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState(0)
+
+  const matches = filterCommands(commands, query)
+  const current = Math.min(selected, matches.length - 1)
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return
+    onClose()
+    command.run()
+  }
+
+  return (
+    <div className="paletteBackdrop" onClick={onClose}>
+      <div className="palette" role="dialog" aria-label="command-palette" onClick={(e) => e.stopPropagation()}>
+        <input
+          type="text"
+          autoFocus
+          value={query}
+          placeholder={m.palette.placeholder}
+          aria-label="command-query"
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setSelected(0)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              e.preventDefault()
+              onClose()
+            } else if (e.key === 'ArrowDown') {
+              e.preventDefault()
+              setSelected(Math.min(current + 1, matches.length - 1))
+            } else if (e.key === 'ArrowUp') {
+              e.preventDefault()
+              setSelected(Math.max(current - 1, 0))
+            } else if (e.key === 'Enter') {
+              e.preventDefault()
+              run(matches[current])
+            }
+          }}
+        />
+        {matches.length === 0 ? (
+          <div className="empty">{m.palette.empty}</div>
+        ) : (
+          <ul className="paletteList">
+            {matches.map((command, i) => (
+              <li
+                key={command.id}
+                className={i === current ? 'paletteItem selected' : 'paletteItem'}
+                onMouseEnter={() => setSelected(i)}
+                onClick={() => run(command)}
+              >
+                <span>{command.label}</span>
+                {command.detail ? <span className="label">{command.detail}</span> : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
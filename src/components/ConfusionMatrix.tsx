@@ -0,0 +1,91 @@
+import { useMemo, useState } from 'react'
+import type { KeystrokeEvent } from '../domain/events'
+import { buildConfusion } from '../domain/events'
+import type { Mode } from '../domain/modes'
+import { generatorOf, MODES } from '../domain/modes'
+import { useMessages } from '../hooks/useMessages'
+
+const MATRIX_SIZE = 8
+
+function uniqueInOrder(values: string[]): string[] {
+  return [...new Set(values)]
+}
+
+export function ConfusionMatrix(props: {
+  events: KeystrokeEvent[]
+}) {
+  const { events } = props
+  const m = useMessages()
+  const [modeFilter, setModeFilter] = useState<Mode | 'all'>('all')
+
+  const confusion = useMemo(() => {
+    const filtered = modeFilter === 'all' ? events : events.filter(e => e.mode === modeFilter)
+    return buildConfusion(filtered)
+  }, [events, modeFilter])
+
+  // The most confused characters on each axis.
+  const rows = uniqueInOrder(confusion.map(c => c.expected)).slice(0, MATRIX_SIZE)
+  const cols = uniqueInOrder(confusion.map(c => c.actual)).slice(0, MATRIX_SIZE)
+  const countOf = (expected: string, actual: string) => (
+    confusion.find(c => c.expected === expected && c.actual === actual)?.count ?? 0
+  )
+  const max = confusion[0]?.count ?? 0
+
+  return (
+    <>
+      <div className="subheadRow">
+        <h3 className="subhead">{m.confusion.title}</h3>
+        <select
+          value={modeFilter}
+          onChange={(e) => setModeFilter(e.target.value as Mode | 'all')}
+          aria-label="confusion-mode"
+        >
+          <option value="all">{m.allModes}</option>
+          {MODES.map(mode => <option key={mode} value={mode}>{generatorOf(mode).label(m)}</option>)}
+        </select>
+      </div>
+
+      {confusion.length === 0 ? (
+        <div className="empty">{m.noMisses}</div>
+      ) : (
+        <>
+          <ul className="confusionList">
+            {confusion.slice(0, 5).map(c => (
+              <li key={`${c.expected}\u0000${c.actual}`}>
+                <span className="mono">{c.expected}</span> → <span className="mono">{c.actual}</span>
+                {' '}{m.confusion.times(c.count)}
+              </li>
+            ))}
+          </ul>
+
+          <table className="table confusion">
+            <thead>
+              <tr>
+                <th>{m.confusion.corner}</th>
+                {cols.map(col => <th key={col} className="mono">{col}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row}>
+                  <th className="mono">{row}</th>
+                  {cols.map(col => {
+                    const count = countOf(row, col)
+                    return (
+                      <td
+                        key={col}
+                        style={count === 0 ? undefined : { background: `rgba(255, 99, 71, ${0.15 + 0.6 * (count / max)})` }}
+                      >
+                        {count === 0 ? '' : count}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </>
+  )
+}
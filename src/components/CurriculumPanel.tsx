@@ -0,0 +1,167 @@
+import { useState } from 'react'
+import type { Curriculum, CurriculumProgress, CurriculumStage } from '../domain/curriculum'
+import { BUILTIN_CURRICULUM, exportCurricula } from '../domain/curriculum'
+import type { Messages } from '../domain/i18n'
+import { formatError } from '../domain/i18n'
+import { generatorOf } from '../domain/modes'
+import { formatMs } from '../domain/time'
+import type { ValidationError } from '../domain/validation'
+import { useMessages } from '../hooks/useMessages'
+import { downloadText } from './download'
+
+// The built-in curriculum is shown in the current language; custom ones keep the names they were written with.
+function curriculumName(m: Messages, curriculum: Curriculum): string {
+  return curriculum.id === BUILTIN_CURRICULUM.id ? m.curriculum.builtinName : curriculum.name
+}
+
+function stageName(m: Messages, curriculum: Curriculum, index: number): string {
+  return (curriculum.id === BUILTIN_CURRICULUM.id ? m.curriculum.builtinStages[index] : null) ?? curriculum.stages[index].name
+}
+
+function stageItemLabel(m: Messages, stage: CurriculumStage, item: string): string {
+  const itemLabel = generatorOf(stage.mode).lesson?.itemLabel
+  return itemLabel ? itemLabel(m, item) : item
+}
+
+export function CurriculumPanel(props: {
+  curricula: Curriculum[]
+  activeCurriculum: Curriculum | null
+  progress: CurriculumProgress | null
+  onStart: (id: string) => void
+  onStop: () => void
+  onImport: (json: string) => ValidationError[]
+  onDelete: (id: string) => void
+}) {
+  const { curricula, activeCurriculum, progress, onStart, onStop, onImport, onDelete } = props
+  const m = useMessages()
+  const [selectedId, setSelectedId] = useState(BUILTIN_CURRICULUM.id)
+  const [errors, setErrors] = useState<ValidationError[]>([])
+
+  const selected = curricula.find(c => c.id === selectedId) ?? BUILTIN_CURRICULUM
+  const shown = activeCurriculum ?? selected
+  const customCurricula = curricula.filter(c => c.id !== BUILTIN_CURRICULUM.id)
+
+  const importFile = async (file: File) => {
+    const text = await file.text()
+    setErrors(onImport(text))
+  }
+
+  return (
+    <div className="picker" aria-label="curriculum">
+      <div className="pickerHeader">
+        <div className="pickerTitle">
+          {activeCurriculum == null
+            ? m.curriculum.title
+            : progress?.completed
+              ? m.curriculum.completed(curriculumName(m, activeCurriculum))
+              : m.curriculum.active(curriculumName(m, activeCurriculum), (progress?.currentIndex ?? 0) + 1)}
+        </div>
+        <div className="pickerButtons">
+          {activeCurriculum == null ? (
+            <>
+              <select
+                value={selected.id}
+                aria-label="curriculum-select"
+                onChange={(e) => {
+                  setSelectedId(e.target.value)
+                }}
+              >
+                {curricula.map(c => (
+                  <option key={c.id} value={c.id}>{curriculumName(m, c)}</option>
+                ))}
+              </select>
+              <button type="button" className="btn" onClick={() => onStart(selected.id)}>
+                {m.curriculum.start}
+              </button>
+              {selected.id === BUILTIN_CURRICULUM.id ? null : (
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={() => {
+                    if (window.confirm(m.curriculum.deleteConfirm(selected.name))) onDelete(selected.id)
+                  }}
+                >
+                  {m.curriculum.delete}
+                </button>
+              )}
+            </>
+          ) : (
+            <button type="button" className="btn" onClick={onStop}>
+              {m.curriculum.stop}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <table className="table">
+        <thead>
+          <tr>
+            <th>{m.curriculum.stage}</th>
+            <th>{m.curriculum.items}</th>
+            <th>{m.columns.attempts}</th>
+            <th>{m.columns.acc}</th>
+            <th>{m.columns.avg}</th>
+            <th>{m.curriculum.status}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.stages.map((stage, i) => {
+            // Progress is only evaluated for the curriculum being followed.
+            const p = activeCurriculum == null ? null : progress?.stages[i]
+            const { mastery } = stage
+            const status = p == null
+              ? '—'
+              : p.mastered
+                ? m.curriculum.mastered
+                : i === progress?.currentIndex
+                  ? m.curriculum.practicing
+                  : m.curriculum.locked
+            return (
+              <tr key={i}>
+                <td>{stageName(m, shown, i)}</td>
+                <td className="mono">{stage.items.map(item => stageItemLabel(m, stage, item)).join(' ')}</td>
+                <td>{p == null ? '' : `${p.attempts} / `}{mastery.minAttempts}</td>
+                <td>{p == null ? '' : `${p.accuracy.toFixed(1)}% / `}{mastery.minAccuracy}%</td>
+                <td>{p == null ? '' : `${p.avgMs == null ? '—' : formatMs(p.avgMs)} / `}{formatMs(mastery.maxAvgMs)}</td>
+                <td>{status}</td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      <p className="help">
+        {m.curriculum.help}
+      </p>
+
+      <div className="pickerButtons">
+        <button
+          type="button"
+          className="btn"
+          onClick={() => downloadText('curricula.json', exportCurricula(customCurricula.length === 0 ? [BUILTIN_CURRICULUM] : customCurricula))}
+        >
+          {customCurricula.length === 0 ? m.curriculum.template : m.curriculum.exportJson}
+        </button>
+        <label className="btn">
+          {m.curriculum.importJson}
+          <input
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) void importFile(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+
+      {errors.length === 0 ? null : (
+        <ul className="errors">
+          {errors.map((error, i) => <li key={i}>{formatError(m, error)}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
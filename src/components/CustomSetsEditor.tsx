@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import type { CustomSet, CustomSetDraft, CustomSetKind } from '../domain/customSets'
+import { exportCustomSets, parseItems } from '../domain/customSets'
+import { formatError } from '../domain/i18n'
+import type { ValidationError } from '../domain/validation'
+import { useMessages } from '../hooks/useMessages'
+import { downloadText } from './download'
+
+export function CustomSetsEditor(props: {
+  kind: CustomSetKind
+  customSets: CustomSet[]
+  onAdd: (draft: CustomSetDraft) => ValidationError[]
+  onUpdate: (id: string, draft: CustomSetDraft) => ValidationError[]
+  onDelete: (id: string) => void
+  onImport: (json: string) => ValidationError[]
+}) {
+  const { kind, customSets, onAdd, onUpdate, onDelete, onImport } = props
+  const m = useMessages()
+
+  // `null`: not editing, `''`: creating a new set, otherwise the id of the set being edited.
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [itemsText, setItemsText] = useState('')
+  const [errors, setErrors] = useState<ValidationError[]>([])
+
+  const setsOfKind = customSets.filter(set => set.kind === kind)
+
+  const startEdit = (set: CustomSet | null) => {
+    setEditingId(set ? set.id : '')
+    setName(set ? set.name : '')
+    setItemsText(set ? set.items.join(' ') : '')
+    setErrors([])
+  }
+
+  const save = () => {
+    const draft: CustomSetDraft = { name, kind, items: parseItems(itemsText) }
+    const problems = editingId ? onUpdate(editingId, draft) : onAdd(draft)
+    setErrors(problems)
+    if (problems.length === 0) setEditingId(null)
+  }
+
+  const importFile = async (file: File) => {
+    setErrors(onImport(await file.text()))
+  }
+
+  return (
+    <div className="picker" aria-label="custom-sets">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.customSets.title(setsOfKind.length)}</div>
+        <div className="pickerButtons">
+          <button type="button" className="btn" onClick={() => startEdit(null)}>
+            {m.customSets.create}
+          </button>
+          <button
+            type="button"
+            className="btn"
+            disabled={customSets.length === 0}
+            onClick={() => downloadText('symbol-sets.json', exportCustomSets(customSets))}
+          >
+            {m.customSets.export}
+          </button>
+          <label className="btn">
+            {m.customSets.import}
+            <input
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) void importFile(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {setsOfKind.length === 0 ? null : (
+        <ul className="setList">
+          {setsOfKind.map(set => (
+            <li key={set.id} className="setRow">
+              <span>{set.name}</span>
+              <span className="mono setItems">{set.items.join(' ')}</span>
+              <button type="button" className="btn" onClick={() => startEdit(set)}>{m.customSets.edit}</button>
+              <button
+                type="button"
+                className="btn"
+                onClick={() => {
+                  if (window.confirm(m.customSets.deleteConfirm(set.name))) onDelete(set.id)
+                }}
+              >
+                {m.customSets.delete}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editingId == null ? null : (
+        <div className="setForm">
+          <label className="control">
+            {m.customSets.name}
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} />
+          </label>
+          <label className="control">
+            {m.customSets.items}
+            <textarea
+              className="mono"
+              rows={3}
+              value={itemsText}
+              onChange={(e) => setItemsText(e.target.value)}
+            />
+          </label>
+          <div className="pickerButtons">
+            <button type="button" className="btn" onClick={save}>{m.customSets.save}</button>
+            <button type="button" className="btn" onClick={() => setEditingId(null)}>{m.customSets.cancel}</button>
+          </div>
+        </div>
+      )}
+
+      {errors.length === 0 ? null : (
+        <ul className="errors">
+          {errors.map((error, i) => <li key={i}>{formatError(m, error)}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
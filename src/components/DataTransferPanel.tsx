@@ -0,0 +1,88 @@
+import { useState } from 'react'
+import type { BackupData, ImportStrategy } from '../domain/backup'
+import { eventsCsv, exportBackupJson, IMPORT_STRATEGIES, itemStatsCsv, sessionsCsv } from '../domain/backup'
+import { formatError } from '../domain/i18n'
+import type { ValidationError } from '../domain/validation'
+import { useMessages } from '../hooks/useMessages'
+import { downloadText } from './download'
+
+export function DataTransferPanel(props: {
+  data: BackupData
+  onImport: (json: string, strategy: ImportStrategy) => ValidationError[]
+}) {
+  const { data, onImport } = props
+  const m = useMessages()
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge')
+  const [errors, setErrors] = useState<ValidationError[]>([])
+  const [imported, setImported] = useState(false)
+
+  const importFile = async (file: File) => {
+    const text = await file.text()
+    if (strategy === 'replace' && !window.confirm(m.dataTransfer.replaceConfirm)) return
+    const problems = onImport(text, strategy)
+    setErrors(problems)
+    setImported(true)
+  }
+
+  const csv = 'text/csv'
+
+  return (
+    <div className="picker" aria-label="data-transfer">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.dataTransfer.title}</div>
+        <div className="pickerButtons">
+          <button type="button" className="btn" onClick={() => downloadText('item-stats.csv', itemStatsCsv(data.stats), csv)}>
+            {m.dataTransfer.itemsCsv}
+          </button>
+          <button type="button" className="btn" onClick={() => downloadText('sessions.csv', sessionsCsv(data.sessions), csv)}>
+            {m.dataTransfer.sessionsCsv}
+          </button>
+          <button type="button" className="btn" onClick={() => downloadText('keystrokes.csv', eventsCsv(data.events), csv)}>
+            {m.dataTransfer.keystrokesCsv}
+          </button>
+          <button type="button" className="btn" onClick={() => downloadText('typing-trainer-backup.json', exportBackupJson(data))}>
+            {m.dataTransfer.json}
+          </button>
+        </div>
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="import-options">
+        <label className="checkItem">
+          <span>{m.dataTransfer.import}</span>
+          <select
+            value={strategy}
+            onChange={(e) => {
+              setStrategy(e.target.value as ImportStrategy)
+            }}
+          >
+            {IMPORT_STRATEGIES.map(s => (
+              <option key={s} value={s}>{m.dataTransfer.strategies[s].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="btn">
+          {m.dataTransfer.choose}
+          <input
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) void importFile(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+      <p className="help">{m.dataTransfer.strategies[strategy].description}</p>
+
+      {!imported ? null : errors.length === 0 ? (
+        <p className="help">{m.dataTransfer.imported}</p>
+      ) : (
+        <ul className="errors">
+          {errors.map((error, i) => <li key={i}>{formatError(m, error)}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import type { DigitsFormat } from '../domain/digits'
+import { digitsStatGroup, digitsStatValue } from '../domain/digits'
+import type { Stat } from '../domain/stats'
+import { bySlowest, toRankedStats } from '../domain/stats'
+import { useMessages } from '../hooks/useMessages'
+import { KeyStatTable } from './KeyStatTable'
+
+// Digits mode: targets by number format.
+export function DigitsFormatStats(props: { stats: Record<string, Stat> }) {
+  const m = useMessages()
+  const rows = toRankedStats(props.stats)
+    .filter(r => digitsStatGroup(r.item) === 'format')
+    .sort(bySlowest)
+    .map(r => {
+      const format = digitsStatValue(r.item)
+      return { ...r, item: m.digitsFormats[format as DigitsFormat] ?? format }
+    })
+  if (rows.length === 0) return null
+  return (
+    <>
+      <h3 className="subhead">{m.stats.digitsFormats}</h3>
+      <KeyStatTable label={m.stats.format} rows={rows} />
+    </>
+  )
+}
@@ -1,21 +1,42 @@
-import type { DigitsSettings } from '../domain/digits'
+import type { DigitsFormatInfo, DigitsFormatRange, DigitsSettings } from '../domain/digits'
+import { DIGITS_FORMATS, enabledDigitsFormats } from '../domain/digits'
 import { clampInt } from '../domain/random'
+import { useMessages } from '../hooks/useMessages'
+import type { SettingsFormProps } from '../domain/targetGenerator'
 
-export function DigitsSettingsForm(props: {
-  digitsSettings: DigitsSettings
-  onChange: (next: DigitsSettings) => void
-}) {
-  const { digitsSettings, onChange } = props
+export function DigitsSettingsForm(props: SettingsFormProps<DigitsSettings>) {
+  const { settings: digitsSettings, onChange } = props
+  const m = useMessages()
+  // The last enabled format cannot be turned off (see `normalizeDigitsSettings`).
+  const lastFormat = enabledDigitsFormats(digitsSettings).length === 1
+
+  const setFormat = (format: DigitsFormatInfo, patch: Partial<DigitsFormatRange>) => {
+    const range = { ...digitsSettings.formats[format.id], ...patch }
+    onChange({ ...digitsSettings, formats: { ...digitsSettings.formats, [format.id]: range } })
+  }
 
   return (
     <div className="picker" aria-label="digits-settings">
       <div className="pickerHeader">
-        <div className="pickerTitle">出題設定（数字）</div>
+        <div className="pickerTitle">{m.digits.title}</div>
       </div>
 
       <div className="checkGrid" role="group" aria-label="digits-options">
         <label className="checkItem">
-          <span>整数 桁数(min)</span>
+          <input
+            type="checkbox"
+            checked={digitsSettings.enablePlain}
+            disabled={digitsSettings.enablePlain && lastFormat}
+            onChange={(e) => {
+              const next = { ...digitsSettings, enablePlain: e.target.checked }
+              onChange(next)
+            }}
+          />
+          <span>{m.digitsFormats.plain}</span>
+        </label>
+
+        <label className="checkItem">
+          <span>{m.digits.intMin}</span>
           <input
             type="number"
             min={1}
@@ -29,7 +50,7 @@ export function DigitsSettingsForm(props: {
           />
         </label>
         <label className="checkItem">
-          <span>整数 桁数(max)</span>
+          <span>{m.digits.intMax}</span>
           <input
             type="number"
             min={1}
@@ -52,7 +73,7 @@ export function DigitsSettingsForm(props: {
               onChange(next)
             }}
           />
-          <span className="mono">符号（+/-）</span>
+          <span className="mono">{m.digits.sign}</span>
         </label>
 
         <label className="checkItem">
@@ -64,11 +85,11 @@ export function DigitsSettingsForm(props: {
               onChange(next)
             }}
           />
-          <span className="mono">小数（.）</span>
+          <span className="mono">{m.digits.decimal}</span>
         </label>
 
         <label className="checkItem">
-          <span>小数 桁数(min)</span>
+          <span>{m.digits.fracMin}</span>
           <input
             type="number"
             min={1}
@@ -83,7 +104,7 @@ export function DigitsSettingsForm(props: {
           />
         </label>
         <label className="checkItem">
-          <span>小数 桁数(max)</span>
+          <span>{m.digits.fracMax}</span>
           <input
             type="number"
             min={1}
@@ -98,6 +119,53 @@ export function DigitsSettingsForm(props: {
           />
         </label>
       </div>
+
+      <div className="subhead">{m.digits.formats}</div>
+      <div className="checkGrid" role="group" aria-label="digits-formats">
+        {DIGITS_FORMATS.map(format => {
+          const range = digitsSettings.formats[format.id]
+          return (
+            <div key={format.id} className="checkItem">
+              <label className="checkItem">
+                <input
+                  type="checkbox"
+                  checked={range.enabled}
+                  disabled={range.enabled && lastFormat}
+                  onChange={(e) => setFormat(format, { enabled: e.target.checked })}
+                />
+                <span>{m.digitsFormats[format.id]}</span>
+                <span className="mono">{format.example}</span>
+              </label>
+              <label className="checkItem">
+                <span>{m.digitsFormatLengths[format.id]}</span>
+                <input
+                  type="number"
+                  min={format.minBound}
+                  max={format.maxBound}
+                  disabled={!range.enabled}
+                  value={range.minLength}
+                  onChange={(e) => {
+                    const v = clampInt(Number(e.target.value), format.minBound, format.maxBound)
+                    setFormat(format, { minLength: Math.min(v, range.maxLength) })
+                  }}
+                />
+                <span>〜</span>
+                <input
+                  type="number"
+                  min={format.minBound}
+                  max={format.maxBound}
+                  disabled={!range.enabled}
+                  value={range.maxLength}
+                  onChange={(e) => {
+                    const v = clampInt(Number(e.target.value), format.minBound, format.maxBound)
+                    setFormat(format, { maxLength: Math.max(v, range.minLength) })
+                  }}
+                />
+              </label>
+            </div>
+          )
+        })}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import type { DrillSpec } from '../domain/drill'
+import { drillUrl } from '../domain/drill'
+import { formatError } from '../domain/i18n'
+import { generatorOf, isGeneratedMode } from '../domain/modes'
+import type { ValidationError } from '../domain/validation'
+import { useMessages } from '../hooks/useMessages'
+
+export function DrillPanel(props: {
+  drill: DrillSpec | null
+  drillCode: string | null
+  onCreate: () => ValidationError[]
+  onApply: (code: string) => ValidationError[]
+  onExit: () => void
+}) {
+  const { drill, drillCode, onCreate, onApply, onExit } = props
+  const [code, setCode] = useState('')
+  const m = useMessages()
+  const [errors, setErrors] = useState<ValidationError[]>([])
+  const [copied, setCopied] = useState(false)
+
+  const copyUrl = async () => {
+    if (drillCode == null) return
+    await navigator.clipboard.writeText(drillUrl(drillCode, window.location))
+    setCopied(true)
+  }
+
+  return (
+    <div className="picker" aria-label="drill">
+      <div className="pickerHeader">
+        <div className="pickerTitle">
+          {drill == null
+            ? m.drill.title
+            : m.drill.running(
+              drill.mode,
+              isGeneratedMode(drill.mode) ? generatorOf(drill.mode).label(m) : m.drill.items(drill.items.length),
+              drill.seed,
+            )}
+        </div>
+        <div className="pickerButtons">
+          {drill == null ? (
+            <button
+              type="button"
+              className="btn"
+              onClick={() => {
+                setErrors(onCreate())
+                setCopied(false)
+              }}
+            >
+              {m.drill.create}
+            </button>
+          ) : (
+            <>
+              <button type="button" className="btn" onClick={() => void copyUrl()}>
+                {copied ? m.drill.copied : m.drill.copyUrl}
+              </button>
+              <button
+                type="button"
+                className="btn"
+                onClick={() => {
+                  setErrors([])
+                  onExit()
+                }}
+              >
+                {m.drill.exit}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {drillCode == null ? (
+        <form
+          className="setForm"
+          onSubmit={(e) => {
+            e.preventDefault()
+            const problems = onApply(code)
+            setErrors(problems)
+            if (problems.length === 0) {
+              setCode('')
+              setCopied(false)
+            }
+          }}
+        >
+          <input
+            type="text"
+            value={code}
+            placeholder={m.drill.placeholder}
+            aria-label="drill-code"
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <button type="submit" className="btn" disabled={code.trim() === ''}>{m.drill.start}</button>
+        </form>
+      ) : (
+        <div className="hint">
+          <span className="label">{m.drill.code}</span>
+          <span className="mono drillCode">{drillCode}</span>
+        </div>
+      )}
+
+      {errors.length === 0 ? null : (
+        <ul className="errors">
+          {errors.map((error, i) => <li key={i}>{formatError(m, error)}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import type { ErrorPolicy } from '../domain/errorPolicy'
+import { ERROR_POLICIES } from '../domain/errorPolicy'
+import { useMessages } from '../hooks/useMessages'
+
+export function ErrorPolicyForm(props: {
+  errorPolicy: ErrorPolicy
+  onChange: (next: ErrorPolicy) => void
+}) {
+  const { errorPolicy, onChange } = props
+  const m = useMessages()
+
+  return (
+    <div className="picker" aria-label="error-policy">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.errorPolicy.title}</div>
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="error-policy-options">
+        <label className="checkItem">
+          <span>{m.errorPolicy.policy}</span>
+          <select
+            value={errorPolicy}
+            onChange={(e) => {
+              onChange(e.target.value as ErrorPolicy)
+            }}
+          >
+            {ERROR_POLICIES.map(p => (
+              <option key={p} value={p}>{m.errorPolicies[p].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import type { CommandId, Hotkeys } from '../domain/commands'
+import { chordOf, COMMAND_IDS } from '../domain/commands'
+import { useMessages } from '../hooks/useMessages'
+
+export function HotkeysPanel(props: {
+  hotkeys: Hotkeys
+  onChange: (id: CommandId, chord: string | null) => void
+  onReset: () => void
+}) {
+  const { hotkeys, onChange, onReset } = props
+  const m = useMessages()
+
+  return (
+    <div className="picker" aria-label="hotkeys">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.hotkeys.title}</div>
+        <div className="pickerButtons">
+          <button type="button" className="btn" onClick={onReset}>
+            {m.hotkeys.reset}
+          </button>
+        </div>
+      </div>
+
+      <table className="table">
+        <tbody>
+          {COMMAND_IDS.map(id => (
+            <tr key={id}>
+              <td>{m.commands[id]}</td>
+              <td>
+                <input
+                  type="text"
+                  readOnly
+                  className="mono"
+                  value={hotkeys[id] ?? ''}
+                  placeholder={m.hotkeys.none}
+                  aria-label={`hotkey-${id}`}
+                  onKeyDown={(e) => {
+                    // Tab still moves the focus.
+                    if (e.key === 'Tab') return
+                    const chord = chordOf(e)
+                    if (chord == null) return
+                    e.preventDefault()
+                    onChange(id, chord)
+                  }}
+                />
+              </td>
+              <td>
+                <button type="button" className="btn" disabled={hotkeys[id] == null} onClick={() => onChange(id, null)}>
+                  {m.hotkeys.unbind}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="help">
+        {m.hotkeys.help}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react'
+import type { Mode } from '../domain/modes'
+import { GENERATORS, generatorOf, MODES } from '../domain/modes'
+import type { RankedStat, Stat } from '../domain/stats'
+import { toRankedStats } from '../domain/stats'
+import { formatMs } from '../domain/time'
+import { useMessages } from '../hooks/useMessages'
+
+type SortKey = 'item' | 'acc' | 'attempts' | 'avg'
+
+const SORT_KEYS: readonly SortKey[] = ['item', 'acc', 'attempts', 'avg']
+
+type Row = RankedStat & { label: string }
+
+function compareRows(a: Row, b: Row, key: SortKey): number {
+  if (key === 'item') return a.label.localeCompare(b.label)
+  if (key === 'avg') return (a.avg ?? Infinity) - (b.avg ?? Infinity)
+  return a[key] - b[key]
+}
+
+// Each mode's own stats, under the keys its generator scores (see `GeneratorView.statLabel`).
+export function ItemStatsTable(props: {
+  modeStats: Record<Mode, Record<string, Stat>>
+  // The mode shown until another one is picked.
+  mode: Mode
+}) {
+  const { modeStats, mode } = props
+  const m = useMessages()
+  const [picked, setPicked] = useState<Mode | null>(null)
+  const [query, setQuery] = useState('')
+  // Weakest first by default.
+  const [sort, setSort] = useState<{ key: SortKey, descending: boolean }>({ key: 'acc', descending: false })
+
+  const shown = picked ?? mode
+  const { statLabel, filterHint } = GENERATORS[shown].view
+
+  const rows = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    return toRankedStats(modeStats[shown] ?? {})
+      .map((r): Row => ({ ...r, label: statLabel ? statLabel(m, r.item) : r.item }))
+      .filter(r => words.every(w => r.label.toLowerCase().includes(w)))
+      // Ties go to the row with more attempts.
+      .sort((a, b) => (sort.descending ? -1 : 1) * compareRows(a, b, sort.key) || b.attempts - a.attempts)
+  }, [m, modeStats, query, shown, sort, statLabel])
+
+  const total = Object.keys(modeStats[shown] ?? {}).length
+
+  return (
+    <>
+      <div className="subheadRow">
+        <h3 className="subhead">{m.itemStats.title(rows.length, total)}</h3>
+        <select
+          value={shown}
+          onChange={(e) => setPicked(e.target.value as Mode)}
+          aria-label="item-stats-mode"
+        >
+          {MODES.map(id => <option key={id} value={id}>{generatorOf(id).label(m)}</option>)}
+        </select>
+      </div>
+
+      <input
+        type="text"
+        value={query}
+        placeholder={filterHint ? filterHint(m) : m.itemStats.filter}
+        aria-label="item-stats-filter"
+        onChange={(e) => setQuery(e.target.value)}
+      />
+
+      {rows.length === 0 ? (
+        <div className="empty">{total === 0 ? m.noData : m.itemStats.noMatch}</div>
+      ) : (
+        <div className="tableScroll">
+          <table className="table">
+            <thead>
+              <tr>
+                {SORT_KEYS.map(key => (
+                  <th key={key} aria-sort={sort.key === key ? (sort.descending ? 'descending' : 'ascending') : 'none'}>
+                    <button
+                      type="button"
+                      className="sortButton"
+                      onClick={() => setSort({ key, descending: sort.key === key ? !sort.descending : false })}
+                    >
+                      {m.columns[key]}
+                      {sort.key === key ? (sort.descending ? ' ▼' : ' ▲') : ''}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={r.item}>
+                  {/* Keys shown as they are (symbols, pairs) line up in monospace. */}
+                  <td className={r.label === r.item ? 'mono' : undefined}>{r.label}</td>
+                  <td>{r.acc.toFixed(1)}%</td>
+                  <td>{r.attempts}</td>
+                  <td>{r.avg == null ? '—' : formatMs(r.avg)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  )
+}
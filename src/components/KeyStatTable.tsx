@@ -0,0 +1,31 @@
+import type { RankedStat } from '../domain/stats'
+import { formatMs } from '../domain/time'
+import { useMessages } from '../hooks/useMessages'
+
+// Per-keystroke stats: accuracy, number of keys and average latency.
+export function KeyStatTable(props: { label: string, rows: RankedStat[], mono?: boolean }) {
+  const { label, rows, mono } = props
+  const m = useMessages()
+  return (
+    <table className="table">
+      <thead>
+        <tr>
+          <th>{label}</th>
+          <th>{m.columns.acc}</th>
+          <th>{m.columns.keys}</th>
+          <th>{m.columns.avg}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(r => (
+          <tr key={r.item}>
+            <td className={mono ? 'mono' : undefined}>{r.item}</td>
+            <td>{r.acc.toFixed(1)}%</td>
+            <td>{r.attempts}</td>
+            <td>{r.avg == null ? '—' : formatMs(r.avg)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import { formatError } from '../domain/i18n'
+import type { Keymap } from '../domain/keymap'
+import type { ValidationError } from '../domain/validation'
+import { useMessages } from '../hooks/useMessages'
+
+export function KeymapPanel(props: {
+  keymap: Keymap
+  isDefaultKeymap: boolean
+  onImport: (json: string) => ValidationError[]
+  onReset: () => void
+}) {
+  const { keymap, isDefaultKeymap, onImport, onReset } = props
+  const m = useMessages()
+  const [errors, setErrors] = useState<ValidationError[]>([])
+
+  const importFile = async (file: File) => {
+    setErrors(onImport(await file.text()))
+  }
+
+  return (
+    <div className="picker" aria-label="keymap">
+      <div className="pickerHeader">
+        <div className="pickerTitle">
+          {m.keymap.title(keymap.name, keymap.layers.map(layer => layer.name).join(' / '))}
+        </div>
+        <div className="pickerButtons">
+          <label className="btn">
+            {m.keymap.import}
+            <input
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) void importFile(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+          <button
+            type="button"
+            className="btn"
+            disabled={isDefaultKeymap}
+            onClick={() => {
+              setErrors([])
+              onReset()
+            }}
+          >
+            {m.keymap.reset}
+          </button>
+        </div>
+      </div>
+
+      {errors.length === 0 ? null : (
+        <ul className="errors">
+          {errors.map((error, i) => <li key={i}>{formatError(m, error)}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import { formatError } from '../domain/i18n'
+import type { HostLayout, HostLayoutId, LayoutSettings } from '../domain/layout'
+import { HOST_LAYOUT_IDS } from '../domain/layout'
+import type { ValidationError } from '../domain/validation'
+import { useMessages } from '../hooks/useMessages'
+
+// One cell per key: the unshifted character, then the shifted one when it differs.
+function keyCell(layout: HostLayout, code: string | null): string {
+  if (code == null) return ''
+  const [plain, shifted] = layout.keys[code] ?? [null, null]
+  if (plain == null) return shifted ?? ''
+  if (/^[a-z]$/.test(plain)) return plain.toUpperCase()
+  return shifted == null || shifted === plain ? plain : `${plain}${shifted}`
+}
+
+export function LayoutPanel(props: {
+  layoutSettings: LayoutSettings
+  hostLayout: HostLayout
+  onSelect: (id: HostLayoutId) => void
+  onImport: (json: string) => ValidationError[]
+}) {
+  const { layoutSettings, hostLayout, onSelect, onImport } = props
+  const m = useMessages()
+  const [errors, setErrors] = useState<ValidationError[]>([])
+
+  const importFile = async (file: File) => {
+    setErrors(onImport(await file.text()))
+  }
+
+  return (
+    <div className="picker" aria-label="host-layout">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.layout.title(hostLayout.name)}</div>
+        <div className="pickerButtons">
+          <select
+            value={layoutSettings.id}
+            aria-label="host-layout-select"
+            onChange={(e) => {
+              setErrors([])
+              onSelect(e.target.value as HostLayoutId)
+            }}
+          >
+            {HOST_LAYOUT_IDS.map(id => (
+              <option key={id} value={id} disabled={id === 'custom' && layoutSettings.customSource == null}>
+                {m.hostLayouts[id]}
+              </option>
+            ))}
+          </select>
+          <label className="btn">
+            {m.layout.importCustom}
+            <input
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) void importFile(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <table className="table layoutGrid">
+        <tbody>
+          {hostLayout.rows.map((row, i) => (
+            <tr key={i}>
+              {row.map((code, j) => <td key={j} className="mono" title={code ?? undefined}>{keyCell(hostLayout, code)}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="help">
+        {m.layout.help}
+        {' '}{m.layout.customHelp}
+        {' '}<span className="mono">{'{"base": "us", "keys": {"Digit8": ["8", "("]}}'}</span>
+      </p>
+
+      {errors.length === 0 ? null : (
+        <ul className="errors">
+          {errors.map((error, i) => <li key={i}>{formatError(m, error)}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
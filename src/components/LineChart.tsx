@@ -0,0 +1,77 @@
+import { useMessages } from '../hooks/useMessages'
+
+const WIDTH = 320
+const HEIGHT = 120
+const PAD_X = 36
+const PAD_Y = 12
+
+export type ChartPoint = {
+  label: string
+  // null leaves a gap in the line.
+  value: number | null
+}
+
+// A minimal SVG line chart: points are spread evenly, the y axis spans the data range.
+export function LineChart(props: {
+  title: string
+  points: ChartPoint[]
+  formatValue: (value: number) => string
+  // Fixed y range (e.g. 0–100 for percentages); defaults to the data range.
+  yMin?: number
+  yMax?: number
+}) {
+  const { title, points, formatValue } = props
+  const m = useMessages()
+  const values = points.map(p => p.value).filter((v): v is number => v != null)
+  if (values.length === 0) {
+    return (
+      <figure className="chart">
+        <figcaption className="chartTitle">{title}</figcaption>
+        <div className="empty">{m.noData}</div>
+      </figure>
+    )
+  }
+
+  const yMin = props.yMin ?? Math.min(...values)
+  const yMax = props.yMax ?? Math.max(...values)
+  const span = yMax - yMin || 1
+  const x = (i: number) => (points.length === 1 ? (PAD_X + WIDTH) / 2 : PAD_X + (i / (points.length - 1)) * (WIDTH - PAD_X))
+  const y = (v: number) => PAD_Y + (1 - (v - yMin) / span) * (HEIGHT - 2 * PAD_Y)
+
+  // Consecutive non-null points form one segment.
+  const segments: string[] = []
+  let current: string[] = []
+  points.forEach((p, i) => {
+    if (p.value == null) {
+      if (current.length > 0) segments.push(current.join(' '))
+      current = []
+      return
+    }
+    current.push(`${x(i).toFixed(1)},${y(p.value).toFixed(1)}`)
+  })
+  if (current.length > 0) segments.push(current.join(' '))
+
+  return (
+    <figure className="chart">
+      <figcaption className="chartTitle">{title}</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={title}>
+        <line className="chartAxis" x1={PAD_X} y1={PAD_Y} x2={PAD_X} y2={HEIGHT - PAD_Y} />
+        <line className="chartAxis" x1={PAD_X} y1={HEIGHT - PAD_Y} x2={WIDTH} y2={HEIGHT - PAD_Y} />
+        <text className="chartLabel" x={PAD_X - 4} y={PAD_Y + 4} textAnchor="end">{formatValue(yMax)}</text>
+        <text className="chartLabel" x={PAD_X - 4} y={HEIGHT - PAD_Y} textAnchor="end">{formatValue(yMin)}</text>
+        {segments.map((segment, i) => (
+          <polyline key={i} className="chartLine" points={segment} />
+        ))}
+        {points.map((p, i) => (p.value == null ? null : (
+          <circle key={i} className="chartDot" cx={x(i)} cy={y(p.value)} r={2.5}>
+            <title>{`${p.label}: ${formatValue(p.value)}`}</title>
+          </circle>
+        )))}
+      </svg>
+      <div className="chartRange">
+        <span>{points[0].label}</span>
+        <span>{points[points.length - 1].label}</span>
+      </div>
+    </figure>
+  )
+}
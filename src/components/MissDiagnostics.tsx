@@ -0,0 +1,46 @@
+import type { MissBreakdown } from '../domain/diagnostics'
+import { MISS_KINDS } from '../domain/diagnostics'
+import { useMessages } from '../hooks/useMessages'
+
+const ROWS = 8
+
+export function MissDiagnostics(props: {
+  missBreakdown: MissBreakdown
+  layoutName: string
+}) {
+  const { missBreakdown, layoutName } = props
+  const { total, counts, byExpected } = missBreakdown
+  const m = useMessages()
+
+  return (
+    <>
+      <h3 className="subhead">{m.miss.title(layoutName)}</h3>
+      {total === 0 ? (
+        <div className="empty">{m.noMisses}</div>
+      ) : (
+        <table className="table">
+          <thead>
+            <tr>
+              <th>{m.miss.expected}</th>
+              {MISS_KINDS.map(kind => <th key={kind}>{m.missKinds[kind]}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <th>{m.miss.total}</th>
+              {MISS_KINDS.map(kind => (
+                <td key={kind}>{m.miss.share(counts[kind], ((counts[kind] / total) * 100).toFixed(0))}</td>
+              ))}
+            </tr>
+            {byExpected.slice(0, ROWS).map(row => (
+              <tr key={row.expected}>
+                <th className="mono">{row.expected}</th>
+                {MISS_KINDS.map(kind => <td key={kind}>{row.counts[kind] === 0 ? '' : row.counts[kind]}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,77 @@
+import { formatError } from '../domain/i18n'
+import type { Profile } from '../domain/profiles'
+import type { ValidationError } from '../domain/validation'
+import { useMessages } from '../hooks/useMessages'
+
+export function ProfileSwitcher(props: {
+  profiles: Profile[]
+  activeProfileId: string
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => ValidationError[]
+  onRename: (id: string, name: string) => ValidationError[]
+  onDelete: (id: string) => ValidationError[]
+}) {
+  const { profiles, activeProfileId, onSwitch, onCreate, onRename, onDelete } = props
+  const m = useMessages()
+  const active = profiles.find(p => p.id === activeProfileId)
+
+  const reportErrors = (errors: ValidationError[]) => {
+    if (errors.length > 0) window.alert(errors.map(e => formatError(m, e)).join('\n'))
+  }
+
+  return (
+    <>
+      <label className="control">
+        {m.profile.label}
+        <select
+          value={activeProfileId}
+          onChange={(e) => {
+            onSwitch(e.target.value)
+          }}
+        >
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        type="button"
+        className="btn"
+        onClick={() => {
+          const name = window.prompt(m.profile.newName)
+          if (name != null) reportErrors(onCreate(name))
+        }}
+      >
+        {m.profile.add}
+      </button>
+
+      <button
+        type="button"
+        className="btn"
+        disabled={active == null}
+        onClick={() => {
+          if (active == null) return
+          const name = window.prompt(m.profile.name, active.name)
+          if (name != null) reportErrors(onRename(active.id, name))
+        }}
+      >
+        {m.profile.rename}
+      </button>
+
+      <button
+        type="button"
+        className="btn"
+        disabled={active == null || profiles.length < 2}
+        onClick={() => {
+          if (active == null) return
+          if (window.confirm(m.profile.deleteConfirm(active.name))) {
+            reportErrors(onDelete(active.id))
+          }
+        }}
+      >
+        {m.profile.delete}
+      </button>
+    </>
+  )
+}
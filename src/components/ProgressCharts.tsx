@@ -0,0 +1,97 @@
+import { useMemo, useState } from 'react'
+import type { SessionRecord } from '../domain/history'
+import type { Mode } from '../domain/modes'
+import { GENERATORS, generatorOf, MODES } from '../domain/modes'
+import type { ProgressGrouping } from '../domain/progress'
+import { buildProgress, daysAgo, progressItems } from '../domain/progress'
+import { formatMs } from '../domain/time'
+import { useMessages } from '../hooks/useMessages'
+import { LineChart } from './LineChart'
+
+// In days; null is all time.
+const PERIODS = [7, 14, 30, null] as const
+
+export function ProgressCharts(props: {
+  sessions: SessionRecord[]
+}) {
+  const { sessions } = props
+  const m = useMessages()
+  const [mode, setMode] = useState<Mode | 'all'>('all')
+  const [item, setItem] = useState<string | null>(null)
+  const [grouping, setGrouping] = useState<ProgressGrouping>('session')
+  const [periodDays, setPeriodDays] = useState<number | null>(14)
+  // Fixed when the period is picked, so the charts do not depend on the render time.
+  const [since, setSince] = useState<number | null>(() => daysAgo(14))
+
+  const items = useMemo(() => progressItems(sessions, mode), [mode, sessions])
+  // Keys of one mode read as that mode's stats table does; across modes they stay as they are.
+  const statLabel = mode === 'all' ? null : GENERATORS[mode].view.statLabel
+  const points = useMemo(() => buildProgress(sessions, {
+    mode,
+    item: item != null && items.includes(item) ? item : null,
+    grouping,
+    since,
+  }), [grouping, item, items, mode, sessions, since])
+
+  return (
+    <>
+      <div className="subheadRow">
+        <h3 className="subhead">{m.progress.title}</h3>
+        <div className="pickerButtons">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as Mode | 'all')}
+            aria-label="progress-mode"
+          >
+            <option value="all">{m.allModes}</option>
+            {MODES.map(mode => <option key={mode} value={mode}>{generatorOf(mode).label(m)}</option>)}
+          </select>
+          <select
+            value={item ?? ''}
+            onChange={(e) => setItem(e.target.value === '' ? null : e.target.value)}
+            aria-label="progress-item"
+          >
+            <option value="">{m.progress.allItems}</option>
+            {items.map(i => <option key={i} value={i}>{statLabel ? statLabel(m, i) : i}</option>)}
+          </select>
+          <select
+            value={grouping}
+            onChange={(e) => setGrouping(e.target.value as ProgressGrouping)}
+            aria-label="progress-grouping"
+          >
+            <option value="session">{m.progress.bySession}</option>
+            <option value="day">{m.progress.byDay}</option>
+          </select>
+          <select
+            value={periodDays ?? ''}
+            onChange={(e) => {
+              const days = e.target.value === '' ? null : Number(e.target.value)
+              setPeriodDays(days)
+              setSince(days == null ? null : daysAgo(days))
+            }}
+            aria-label="progress-period"
+          >
+            {PERIODS.map(days => (
+              <option key={days ?? 'all'} value={days ?? ''}>{days == null ? m.progress.allTime : m.progress.days(days)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="charts">
+        <LineChart
+          title={m.progress.accuracy}
+          points={points.map(p => ({ label: p.label, value: p.accuracy }))}
+          formatValue={v => `${v.toFixed(0)}%`}
+          yMin={0}
+          yMax={100}
+        />
+        <LineChart
+          title={m.progress.medianTime}
+          points={points.map(p => ({ label: p.label, value: p.medianMs }))}
+          formatValue={formatMs}
+        />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,50 @@
+import type { SchedulerSettings, SelectionStrategy } from '../domain/scheduler'
+import { SELECTION_STRATEGIES } from '../domain/scheduler'
+import { useMessages } from '../hooks/useMessages'
+
+export function SchedulerSettingsForm(props: {
+  schedulerSettings: SchedulerSettings
+  onChange: (next: SchedulerSettings) => void
+}) {
+  const { schedulerSettings, onChange } = props
+  const m = useMessages()
+
+  return (
+    <div className="picker" aria-label="scheduler-settings">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.scheduler.title}</div>
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="scheduler-options">
+        <label className="checkItem">
+          <span>{m.scheduler.strategy}</span>
+          <select
+            value={schedulerSettings.strategy}
+            onChange={(e) => {
+              onChange({ ...schedulerSettings, strategy: e.target.value as SelectionStrategy })
+            }}
+          >
+            {SELECTION_STRATEGIES.map(s => (
+              <option key={s} value={s}>{m.strategies[s]}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="checkItem">
+          <span>{m.scheduler.exploration(Math.round(schedulerSettings.exploration * 100))}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            disabled={schedulerSettings.strategy === 'uniform'}
+            value={Math.round(schedulerSettings.exploration * 100)}
+            onChange={(e) => {
+              onChange({ ...schedulerSettings, exploration: Number(e.target.value) / 100 })
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
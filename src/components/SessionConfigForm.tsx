@@ -0,0 +1,80 @@
+import type { SessionConfig, SessionKind } from '../domain/session'
+import { SESSION_KINDS, SPRINT_DURATIONS } from '../domain/session'
+import { clampInt } from '../domain/random'
+import { useMessages } from '../hooks/useMessages'
+
+export function SessionConfigForm(props: {
+  sessionConfig: SessionConfig
+  onChange: (next: SessionConfig) => void
+}) {
+  const { sessionConfig, onChange } = props
+  const m = useMessages()
+
+  return (
+    <div className="picker" aria-label="session-settings">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.sessionConfig.title}</div>
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="session-options">
+        <label className="checkItem">
+          <span>{m.sessionConfig.kind}</span>
+          <select
+            value={sessionConfig.kind}
+            onChange={(e) => {
+              onChange({ ...sessionConfig, kind: e.target.value as SessionKind })
+            }}
+          >
+            {SESSION_KINDS.map(kind => (
+              <option key={kind} value={kind}>{m.sessionKinds[kind]}</option>
+            ))}
+          </select>
+        </label>
+
+        {sessionConfig.kind === 'sprint' ? (
+          <label className="checkItem">
+            <span>{m.sessionConfig.duration}</span>
+            <select
+              value={sessionConfig.durationSec}
+              onChange={(e) => {
+                onChange({ ...sessionConfig, durationSec: Number(e.target.value) })
+              }}
+            >
+              {SPRINT_DURATIONS.map(sec => (
+                <option key={sec} value={sec}>{m.sessionConfig.seconds(sec)}</option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+
+        {sessionConfig.kind === 'fixed' ? (
+          <label className="checkItem">
+            <span>{m.sessionConfig.targetCount}</span>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={sessionConfig.targetCount}
+              onChange={(e) => {
+                onChange({ ...sessionConfig, targetCount: clampInt(Number(e.target.value), 1, 500) })
+              }}
+            />
+          </label>
+        ) : null}
+
+        {sessionConfig.kind !== 'endless' ? (
+          <label className="checkItem">
+            <input
+              type="checkbox"
+              checked={sessionConfig.ghost}
+              onChange={(e) => {
+                onChange({ ...sessionConfig, ghost: e.target.checked })
+              }}
+            />
+            <span>{m.sessionConfig.ghost}</span>
+          </label>
+        ) : null}
+      </div>
+    </div>
+  )
+}
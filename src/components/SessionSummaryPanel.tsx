@@ -0,0 +1,97 @@
+import { GENERATORS } from '../domain/modes'
+import type { SessionSummary } from '../domain/session'
+import { formatClock, formatMs } from '../domain/time'
+import { useMessages } from '../hooks/useMessages'
+
+function formatDelta(current: number, previous: number): string {
+  const delta = current - previous
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}`
+}
+
+export function SessionSummaryPanel(props: {
+  summary: SessionSummary
+  onRestart: () => void
+  onDismiss: () => void
+}) {
+  const { summary, onRestart, onDismiss } = props
+  const { session, previousBest } = summary
+  const m = useMessages()
+  const { statLabel } = GENERATORS[session.mode].view
+
+  return (
+    <div className="summary" aria-label="session-summary">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.summary.title(session.configKey)}</div>
+        <div className="pickerButtons">
+          <button type="button" className="btn" onClick={onRestart}>{m.summary.again}</button>
+          <button type="button" className="btn" onClick={onDismiss}>{m.summary.close}</button>
+        </div>
+      </div>
+
+      <div className="statGrid">
+        <div className="statCard">
+          <div className="statLabel">{m.summary.time}</div>
+          <div className="statValue">{formatClock(session.activeMs)}</div>
+        </div>
+        <div className="statCard">
+          <div className="statLabel">{m.summary.targetsPerMin}</div>
+          <div className="statValue">{summary.targetsPerMin.toFixed(1)}</div>
+        </div>
+        <div className="statCard">
+          <div className="statLabel">{m.summary.keysPerMin}</div>
+          <div className="statValue">{summary.keysPerMin.toFixed(1)}</div>
+        </div>
+        <div className="statCard">
+          <div className="statLabel">{m.summary.accuracy}</div>
+          <div className="statValue">{session.accuracy.toFixed(1)}%</div>
+        </div>
+        <div className="statCard">
+          <div className="statLabel">{m.summary.completed}</div>
+          <div className="statValue">{session.correct}</div>
+        </div>
+        <div className="statCard">
+          <div className="statLabel">{m.summary.backspace}</div>
+          <div className="statValue">{session.backspace}</div>
+        </div>
+      </div>
+
+      <div className="hint">
+        <span className="label">{m.summary.best}</span>
+        <span>
+          {previousBest == null
+            ? m.summary.noBest
+            : m.summary.previousBest(
+              previousBest.targetsPerMin.toFixed(1),
+              formatDelta(summary.targetsPerMin, previousBest.targetsPerMin),
+              previousBest.keysPerMin.toFixed(1),
+              formatDelta(summary.keysPerMin, previousBest.keysPerMin),
+            )}
+        </span>
+      </div>
+
+      {summary.slowest.length === 0 ? null : (
+        <>
+          <h3 className="subhead">{m.summary.slowest}</h3>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>{m.columns.item}</th>
+                <th>{m.columns.avg}</th>
+                <th>{m.columns.acc}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.slowest.map(r => (
+                <tr key={r.item}>
+                  {statLabel ? <td>{statLabel(m, r.item)}</td> : <td className="mono">{r.item}</td>}
+                  <td>{r.avg == null ? '-' : formatMs(r.avg)}</td>
+                  <td>{r.acc.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import type { CharClass } from '../domain/snippets'
+import { CHAR_CLASSES, snippetClassKey } from '../domain/snippets'
+import type { Stat } from '../domain/stats'
+import { toRankedStats } from '../domain/stats'
+import { useMessages } from '../hooks/useMessages'
+import { KeyStatTable } from './KeyStatTable'
+
+const CLASS_KEYS: ReadonlyMap<string, CharClass> = new Map(CHAR_CLASSES.map(c => [snippetClassKey(c), c]))
+
+// Snippet mode: every character class, in a fixed order.
+export function SnippetClassStats(props: { stats: Record<string, Stat> }) {
+  const m = useMessages()
+  const rows = toRankedStats(props.stats)
+    .flatMap(r => {
+      const charClass = CLASS_KEYS.get(r.item)
+      return charClass ? [{ ...r, charClass }] : []
+    })
+    .sort((a, b) => CHAR_CLASSES.indexOf(a.charClass) - CHAR_CLASSES.indexOf(b.charClass))
+    .map(r => ({ ...r, item: m.charClasses[r.charClass] }))
+  if (rows.length === 0) return null
+  return (
+    <>
+      <h3 className="subhead">{m.stats.snippetClasses}</h3>
+      <KeyStatTable label={m.stats.charClass} rows={rows} />
+    </>
+  )
+}
@@ -0,0 +1,35 @@
+import type { SnippetSettings } from '../domain/snippets'
+import { SNIPPET_LANGUAGE_LABELS, SNIPPET_LANGUAGES, SNIPPETS, snippetPool } from '../domain/snippets'
+import type { SettingsFormProps } from '../domain/targetGenerator'
+import { useMessages } from '../hooks/useMessages'
+
+export function SnippetLanguagesPicker(props: SettingsFormProps<SnippetSettings>) {
+  const { settings, onChange } = props
+  const m = useMessages()
+  const poolSize = snippetPool(settings.languages).length
+
+  return (
+    <div className="picker" aria-label="snippet-languages">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.snippetLanguages.title(poolSize)}</div>
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="languages">
+        {SNIPPET_LANGUAGES.map(lang => (
+          <label key={lang} className="checkItem">
+            <input
+              type="checkbox"
+              checked={settings.languages[lang] !== false}
+              onChange={(e) => onChange({ ...settings, languages: { ...settings.languages, [lang]: e.target.checked } })}
+            />
+            <span>{m.snippetLanguages.language(SNIPPET_LANGUAGE_LABELS[lang], SNIPPETS[lang].length)}</span>
+          </label>
+        ))}
+      </div>
+
+      {poolSize === 0 ? (
+        <div className="empty">{m.snippetLanguages.empty}</div>
+      ) : null}
+    </div>
+  )
+}
@@ -1,11 +1,17 @@
+import type { MissBreakdown } from '../domain/diagnostics'
+import type { KeystrokeEvent } from '../domain/events'
+import type { SessionRecord } from '../domain/history'
+import type { Mode } from '../domain/modes'
+import { GENERATORS, generatorOf, MODES } from '../domain/modes'
+import type { Stat } from '../domain/stats'
+import { bySlowest, toRankedStats } from '../domain/stats'
 import { formatMs } from '../domain/time'
-
-export type RankedStat = {
-  item: string
-  attempts: number
-  acc: number
-  avg: number | null
-}
+import { useMessages } from '../hooks/useMessages'
+import { ConfusionMatrix } from './ConfusionMatrix'
+import { ItemStatsTable } from './ItemStatsTable'
+import { KeyStatTable } from './KeyStatTable'
+import { MissDiagnostics } from './MissDiagnostics'
+import { ProgressCharts } from './ProgressCharts'
 
 export function StatsPanel(props: {
   totalAttempts: number
@@ -13,7 +19,16 @@ export function StatsPanel(props: {
   totalMiss: number
   totalBackspace: number
   accuracy: number
-  ranked: RankedStat[]
+  mode: Mode
+  modeStats: Record<Mode, Record<string, Stat>>
+  layerStats: Record<string, Stat>
+  transitionStats: Record<string, Stat>
+  firstKeyStats: Record<string, Stat>
+  bigramStats: Record<string, Stat>
+  events: KeystrokeEvent[]
+  missBreakdown: MissBreakdown
+  layoutName: string
+  sessions: SessionRecord[]
 }) {
   const {
     totalAttempts,
@@ -21,60 +36,117 @@ export function StatsPanel(props: {
     totalMiss,
     totalBackspace,
     accuracy,
-    ranked,
+    mode,
+    modeStats,
+    layerStats,
+    transitionStats,
+    firstKeyStats,
+    bigramStats,
+    events,
+    missBreakdown,
+    layoutName,
+    sessions,
   } = props
+  const m = useMessages()
+
+  const recentSessions = sessions.slice(-5).reverse()
+  const layerRows = toRankedStats(layerStats).sort(bySlowest)
+  const transitionRows = toRankedStats(transitionStats).sort(bySlowest).slice(0, 10)
+  const bigramRows = toRankedStats(bigramStats).sort(bySlowest).slice(0, 10)
+  const firstKeyTotals = Object.values(firstKeyStats).reduce(
+    (acc, s) => ({ correct: acc.correct + s.correct, totalMs: acc.totalMs + s.totalMs }),
+    { correct: 0, totalMs: 0 },
+  )
 
   return (
     <section className="stats" aria-label="stats">
-      <h2>Stats</h2>
+      <h2>{m.stats.title}</h2>
       <div className="statGrid">
         <div className="statCard">
-          <div className="statLabel">Attempts</div>
+          <div className="statLabel">{m.stats.attempts}</div>
           <div className="statValue">{totalAttempts}</div>
         </div>
         <div className="statCard">
-          <div className="statLabel">Correct</div>
+          <div className="statLabel">{m.stats.correct}</div>
           <div className="statValue">{totalCorrect}</div>
         </div>
         <div className="statCard">
-          <div className="statLabel">Miss</div>
+          <div className="statLabel">{m.stats.miss}</div>
           <div className="statValue">{totalMiss}</div>
         </div>
         <div className="statCard">
-          <div className="statLabel">Backspace</div>
+          <div className="statLabel">{m.stats.backspace}</div>
           <div className="statValue">{totalBackspace}</div>
         </div>
         <div className="statCard">
-          <div className="statLabel">Accuracy</div>
+          <div className="statLabel">{m.stats.accuracy}</div>
           <div className="statValue">{accuracy.toFixed(1)}%</div>
         </div>
       </div>
 
-      <h3 className="subhead">苦手トップ10（低正答率 → 高試行）</h3>
-      {ranked.length === 0 ? (
-        <div className="empty">まだデータがありません</div>
+      <ItemStatsTable modeStats={modeStats} mode={mode} />
+
+      {MODES.map(id => {
+        const Stats = GENERATORS[id].view.Stats
+        return Stats ? <Stats key={id} stats={modeStats[id] ?? {}} /> : null
+      })}
+
+      {layerRows.length === 0 ? null : (
+        <>
+          <h3 className="subhead">{m.stats.layers}</h3>
+          <KeyStatTable label={m.stats.layer} rows={layerRows} />
+        </>
+      )}
+
+      {transitionRows.length === 0 ? null : (
+        <>
+          <h3 className="subhead">{m.stats.transitions}</h3>
+          <KeyStatTable label={m.stats.transition} rows={transitionRows} />
+        </>
+      )}
+
+      {bigramRows.length === 0 ? null : (
+        <>
+          <h3 className="subhead">{m.stats.bigrams}</h3>
+          <div className="hint">
+            <span className="label">{m.stats.firstKey}</span>
+            <span>{firstKeyTotals.correct === 0 ? '—' : formatMs(firstKeyTotals.totalMs / firstKeyTotals.correct)}</span>
+          </div>
+          <KeyStatTable label={m.columns.keys} rows={bigramRows} mono />
+        </>
+      )}
+
+      <ConfusionMatrix events={events} />
+
+      <MissDiagnostics missBreakdown={missBreakdown} layoutName={layoutName} />
+
+      <h3 className="subhead">{m.stats.recentSessions(sessions.length)}</h3>
+      {recentSessions.length === 0 ? (
+        <div className="empty">{m.stats.noHistory}</div>
       ) : (
         <table className="table">
           <thead>
             <tr>
-              <th>Item</th>
-              <th>Acc</th>
-              <th>Attempts</th>
-              <th>Avg</th>
+              <th>{m.stats.date}</th>
+              <th>{m.stats.mode}</th>
+              <th>{m.columns.attempts}</th>
+              <th>{m.columns.acc}</th>
             </tr>
           </thead>
           <tbody>
-            {ranked.map(r => (
-              <tr key={r.item}>
-                <td className="mono">{r.item}</td>
-                <td>{r.acc.toFixed(1)}%</td>
-                <td>{r.attempts}</td>
-                <td>{r.avg == null ? '—' : formatMs(r.avg)}</td>
+            {recentSessions.map(s => (
+              <tr key={s.id}>
+                <td>{new Date(s.endedAt).toLocaleString()}</td>
+                <td>{generatorOf(s.mode).label(m)}</td>
+                <td>{s.attempts}</td>
+                <td>{s.accuracy.toFixed(1)}%</td>
               </tr>
             ))}
           </tbody>
         </table>
       )}
+
+      <ProgressCharts sessions={sessions} />
     </section>
   )
 }
@@ -0,0 +1,58 @@
+import type { StreamSettings } from '../domain/stream'
+import { STREAM_LIMITS } from '../domain/stream'
+import { clampInt } from '../domain/random'
+import { useMessages } from '../hooks/useMessages'
+
+export function StreamSettingsForm(props: {
+  streamSettings: StreamSettings
+  onChange: (next: StreamSettings) => void
+}) {
+  const { streamSettings, onChange } = props
+  const m = useMessages()
+
+  return (
+    <div className="picker" aria-label="stream-settings">
+      <div className="pickerHeader">
+        <div className="pickerTitle">{m.stream.title}</div>
+      </div>
+
+      <div className="checkGrid" role="group" aria-label="stream-options">
+        <label className="checkItem">
+          <input
+            type="checkbox"
+            checked={streamSettings.enabled}
+            onChange={(e) => {
+              onChange({ ...streamSettings, enabled: e.target.checked })
+            }}
+          />
+          <span>{m.stream.enabled}</span>
+        </label>
+        <label className="checkItem">
+          <span>{m.stream.lookAhead}</span>
+          <input
+            type="number"
+            min={STREAM_LIMITS.minLookAhead}
+            max={STREAM_LIMITS.maxLookAhead}
+            value={streamSettings.lookAhead}
+            disabled={!streamSettings.enabled}
+            onChange={(e) => {
+              const lookAhead = clampInt(Number(e.target.value), STREAM_LIMITS.minLookAhead, STREAM_LIMITS.maxLookAhead)
+              onChange({ ...streamSettings, lookAhead })
+            }}
+          />
+        </label>
+        <label className="checkItem">
+          <input
+            type="checkbox"
+            checked={streamSettings.spaces}
+            disabled={!streamSettings.enabled}
+            onChange={(e) => {
+              onChange({ ...streamSettings, spaces: e.target.checked })
+            }}
+          />
+          <span>{m.stream.spaces}</span>
+        </label>
+      </div>
+    </div>
+  )
+}
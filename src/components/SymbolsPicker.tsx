@@ -1,56 +1,80 @@
+import type { PoolSource } from '../domain/customSets'
+import { useMessages } from '../hooks/useMessages'
+
 export function SymbolsPicker(props: {
   modeLabel: string
+  sources: PoolSource[]
   basePool: string[]
   pool: string[]
   enabledMap: Record<string, boolean>
   onEnableAll: () => void
   onDisableAll: () => void
   onToggleItem: (item: string, enabled: boolean) => void
+  onToggleSource: (sourceId: string, enabled: boolean) => void
 }) {
   const {
     modeLabel,
+    sources,
     basePool,
     pool,
     enabledMap,
     onEnableAll,
     onDisableAll,
     onToggleItem,
+    onToggleSource,
   } = props
+  const m = useMessages()
 
   return (
     <div className="picker" aria-label="picker">
       <div className="pickerHeader">
         <div className="pickerTitle">
-          出題する記号（{pool.length} / {basePool.length}）
+          {m.symbols.title(pool.length, basePool.length)}
           {modeLabel ? ` / ${modeLabel}` : ''}
         </div>
         <div className="pickerButtons">
           <button type="button" className="btn" onClick={onEnableAll}>
-            全てON
+            {m.symbols.allOn}
           </button>
           <button type="button" className="btn" onClick={onDisableAll}>
-            全てOFF
+            {m.symbols.allOff}
           </button>
         </div>
       </div>
 
-      {basePool.length === 0 ? null : (
-        <div className="checkGrid" role="group" aria-label="symbols">
-          {basePool.map(item => (
-            <label key={item} className="checkItem">
+      {sources.map(source => (
+        <div key={source.id} className="pickerSource">
+          {sources.length > 1 ? (
+            <label className="checkItem sourceTitle">
               <input
                 type="checkbox"
-                checked={enabledMap[item] !== false}
-                onChange={(e) => onToggleItem(item, e.target.checked)}
+                checked={source.enabled}
+                onChange={(e) => onToggleSource(source.id, e.target.checked)}
               />
-              <span className="mono">{item}</span>
+              <span>{m.symbols.source(source.label ?? m.symbols.builtin, source.items.length)}</span>
             </label>
-          ))}
+          ) : null}
+
+          {source.items.length === 0 ? null : (
+            <div className="checkGrid" role="group" aria-label={`symbols-${source.id}`}>
+              {source.items.map(item => (
+                <label key={item} className="checkItem">
+                  <input
+                    type="checkbox"
+                    disabled={!source.enabled}
+                    checked={enabledMap[item] !== false}
+                    onChange={(e) => onToggleItem(item, e.target.checked)}
+                  />
+                  <span className="mono">{item}</span>
+                </label>
+              ))}
+            </div>
+          )}
         </div>
-      )}
+      ))}
 
       {pool.length === 0 ? (
-        <div className="empty">出題する記号がありません。チェックを入れてください。</div>
+        <div className="empty">{m.symbols.empty}</div>
       ) : null}
     </div>
   )
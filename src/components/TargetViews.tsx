@@ -0,0 +1,34 @@
+import type { TargetViewProps } from '../domain/targetGenerator'
+
+// How a mode shows its current target (see `GeneratorView.Target`). Targets are empty when
+// there is nothing to draw from.
+
+// Short targets, typed in one go.
+export function WholeTarget(props: TargetViewProps) {
+  return <div className="target" aria-label="target">{props.target || '—'}</div>
+}
+
+// The solved part, wrong keys still to delete and the rest, in that order.
+function Marked(props: TargetViewProps) {
+  const { target, progress, pendingErrors } = props
+  return (
+    <>
+      <span className="done">{progress}</span>
+      <span className="pending">{pendingErrors}</span>
+      {target.slice(progress.length)}
+    </>
+  )
+}
+
+export function MarkedTarget(props: TargetViewProps) {
+  return <div className="target mono" aria-label="target"><Marked {...props} /></div>
+}
+
+// Lines of code, which wrap.
+export function SnippetTarget(props: TargetViewProps) {
+  return (
+    <div className="target snippet mono" aria-label="target">
+      {props.target === '' ? '—' : <Marked {...props} />}
+    </div>
+  )
+}
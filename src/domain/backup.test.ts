@@ -0,0 +1,159 @@
+import '../modes'
+import { describe, expect, it } from 'vitest'
+import type { BackupData } from './backup'
+import { eventsCsv, exportBackupJson, itemStatsCsv, mergeBackup, parseBackupJson } from './backup'
+import { emptyLifetimeStats } from './engine'
+import type { KeystrokeEvent } from './events'
+import type { SessionRecord } from './history'
+import type { Stat } from './stats'
+
+function stat(attempts: number, correct: number = attempts): Stat {
+  return { attempts, correct, totalMs: correct * 100, lastSeenAt: 1, streak: 0 }
+}
+
+function session(id: string, patch: Partial<SessionRecord> = {}): SessionRecord {
+  return {
+    id,
+    startedAt: 1_000,
+    endedAt: 2_000,
+    mode: 'combo',
+    kind: 'endless',
+    configKey: 'combo/endless',
+    activeMs: 1_000,
+    keystrokes: 2,
+    attempts: 1,
+    correct: 1,
+    miss: 0,
+    backspace: 0,
+    accuracy: 100,
+    itemDeltas: { ab: stat(1) },
+    targetTimes: [{ item: 'ab', ms: 200, atMs: 200 }],
+    ...patch,
+  }
+}
+
+function event(t: number, patch: Partial<KeystrokeEvent> = {}): KeystrokeEvent {
+  return { t, expected: 'a', actual: 'a', key: 'a', code: 'KeyA', shift: false, location: 0, mode: 'combo', target: 'ab', correct: true, ...patch }
+}
+
+function backup(combo: Record<string, Stat>, sessions: SessionRecord[] = [], events: KeystrokeEvent[] = []): BackupData {
+  const stats = emptyLifetimeStats()
+  stats.modeStats.combo = combo
+  return { stats, sessions, events }
+}
+
+// A backup file of `version`, empty except for what `body` sets.
+function file(version: number, body: Record<string, unknown>): string {
+  return JSON.stringify({ format: 'symbol-typing-trainer-backup', version, stats: {}, sessions: [], events: [], ...body })
+}
+
+describe('CSV export', () => {
+  it('prefixes text that spreadsheets would evaluate as a formula', () => {
+    const csv = itemStatsCsv(backup({ '=>': stat(1), '+=': stat(1), '-': stat(1), '@': stat(1), 'ab': stat(1) }).stats)
+    const items = csv.trim().split('\r\n').slice(1).map(row => row.split(',')[0])
+    expect(items.sort()).toEqual(["'+=", "'-", "'=>", "'@", 'ab'])
+  })
+
+  it('quotes cells with commas, quotes and line breaks, and leaves numbers alone', () => {
+    const csv = eventsCsv([event(0, { target: 'a,"b"', key: '-' })])
+    expect(csv.split('\r\n')[1]).toBe(`1970-01-01T00:00:00.000Z,combo,"a,""b""",a,a,'-,KeyA,false,0,true`)
+  })
+})
+
+describe('parseBackupJson', () => {
+  it('reads back what was exported', () => {
+    const data = backup({ ab: stat(2, 1) }, [session('s1')], [event(5)])
+    expect(parseBackupJson(exportBackupJson(data))).toEqual({ data, errors: [] })
+  })
+
+  it('rejects files that are not a backup of a known version', () => {
+    expect(parseBackupJson('{').errors).toEqual([{ code: 'invalidJson' }])
+    expect(parseBackupJson('{"format":"other"}').errors).toEqual([{ code: 'notBackup' }])
+    expect(parseBackupJson(file(99, {})).errors).toEqual([{ code: 'unsupportedVersion', version: '99' }])
+    expect(parseBackupJson(file(3, { sessions: null })).data).toBeNull()
+  })
+
+  it('keeps the valid rows and reports the bad ones', () => {
+    const { data, errors } = parseBackupJson(file(3, {
+      stats: {
+        modeStats: {
+          combo: {
+            'ab': stat(2),
+            // More correct than attempted, negative, and too large to be finite (JSON has no Infinity).
+            'cd': { ...stat(1), correct: 2 },
+            'ef': { ...stat(1), totalMs: -5 },
+            'gh': { ...stat(1), lastSeenAt: 'INFINITY' },
+          },
+        },
+        layerStats: 'nope',
+      },
+      sessions: [session('s1'), { ...session('s2'), attempts: -1 }],
+      events: [event(1), { ...event(2), t: 'soon' }],
+    }).replace('"INFINITY"', '1e999'))
+    expect(data?.stats.modeStats.combo).toEqual({ ab: stat(2) })
+    expect(data?.sessions.map(s => s.id)).toEqual(['s1'])
+    expect(data?.events).toEqual([event(1)])
+    expect(errors).toEqual([
+      { code: 'invalidFormat', at: { path: 'stats.modeStats.combo', name: 'cd' } },
+      { code: 'invalidFormat', at: { path: 'stats.modeStats.combo', name: 'ef' } },
+      { code: 'invalidFormat', at: { path: 'stats.modeStats.combo', name: 'gh' } },
+      { code: 'invalidFormat', at: { path: 'stats.layerStats' } },
+      { code: 'invalidFormat', at: { path: 'sessions #2' } },
+      { code: 'invalidFormat', at: { path: 'events #2' } },
+    ])
+  })
+
+  it('reports only the first 20 bad rows', () => {
+    const { errors } = parseBackupJson(file(3, { events: Array.from({ length: 25 }, () => ({})) }))
+    expect(errors).toHaveLength(21)
+    expect(errors[20]).toEqual({ code: 'moreErrors', count: 5 })
+  })
+
+  it('moves version 1 stats into their modes and re-keys version 1 and 2 sessions', () => {
+    const old = session('s1', { mode: 'digits', itemDeltas: { 123: stat(1), 4567: stat(2) } })
+    const { data, errors } = parseBackupJson(file(1, {
+      stats: { comboStats: { ab: stat(1) }, digitsFormatStats: { hex: stat(3) }, snippetClassStats: { symbol: stat(4) } },
+      sessions: [old],
+    }))
+    expect(errors).toEqual([])
+    expect(data?.stats.modeStats.combo).toEqual({ ab: stat(1) })
+    expect(data?.stats.modeStats.digits).toEqual({ 'format:hex': stat(3) })
+    expect(data?.stats.modeStats.snippet).toEqual({ 'class:symbol': stat(4) })
+    expect(data?.sessions[0].itemDeltas).toMatchObject({
+      'length:1-3': { attempts: 1 },
+      'length:4-6': { attempts: 2 },
+      'format:plain': { attempts: 3 },
+    })
+    expect(parseBackupJson(file(2, { sessions: [old] })).data?.sessions).toEqual(data?.sessions)
+  })
+
+  it('splits the item stats of the oldest backups by mode', () => {
+    const { data } = parseBackupJson(file(3, { stats: { statsByItem: { 'a': stat(1), 'ab': stat(2), '42': stat(3) } } }))
+    expect(data?.stats.modeStats.single).toEqual({ a: stat(1) })
+    expect(data?.stats.modeStats.combo).toEqual({ ab: stat(2) })
+    expect(data?.stats.modeStats.digits).toEqual({ 'length:1-3': stat(3) })
+  })
+})
+
+describe('mergeBackup', () => {
+  const current = backup({ ab: stat(5), cd: stat(1) }, [session('s1', { endedAt: 3_000 })], [event(1), event(3)])
+  const imported = backup({ ab: stat(2), ef: stat(4) }, [session('s1', { endedAt: 3_000 }), session('s2')], [event(1), event(2)])
+
+  it('merge: adds up the stats of another profile or device', () => {
+    expect(mergeBackup(current, imported, 'merge').stats.modeStats.combo).toEqual({
+      ab: stat(7),
+      cd: stat(1),
+      ef: stat(4),
+    })
+  })
+
+  it('update: keeps the side with more attempts per item', () => {
+    expect(mergeBackup(current, imported, 'update').stats.modeStats.combo).toEqual({ ab: stat(5), cd: stat(1), ef: stat(4) })
+  })
+
+  it.each(['merge', 'update'] as const)('%s: skips sessions and keystrokes that are already there and keeps them in order', (strategy) => {
+    const merged = mergeBackup(current, imported, strategy)
+    expect(merged.sessions.map(s => s.id)).toEqual(['s2', 's1'])
+    expect(merged.events.map(e => e.t)).toEqual([1, 2, 3])
+  })
+})
@@ -0,0 +1,240 @@
+import type { LifetimeStats } from './engine'
+import { combineLifetimeStats, emptyLifetimeStats, SHARED_STAT_KEYS } from './engine'
+import type { KeystrokeEvent } from './events'
+import { MAX_EVENTS, sanitizeKeystrokeEvent } from './events'
+import type { SessionRecord } from './history'
+import { MAX_SESSIONS } from './history'
+import type { Mode } from './modes'
+import { MODES } from './modes'
+import type { Stat } from './stats'
+import { isStat, mergeStatRecords } from './stats'
+import { legacyModeStats, legacySession, sanitizeSession, splitLegacyItemStats } from './storage'
+import type { ValidationError } from './validation'
+import { isRecord } from './validation'
+
+// Everything a profile has practiced: lifetime stats, session history and the keystroke log.
+export type BackupData = {
+  stats: LifetimeStats
+  sessions: SessionRecord[]
+  events: KeystrokeEvent[]
+}
+
+// Lifetime stats are totals with no record of where they came from, so the user says what the
+// file is: `merge` adds them up (another profile or device), `update` keeps the larger side per
+// item (an earlier export of the same data), `replace` takes the file as it is.
+export type ImportStrategy = 'merge' | 'update' | 'replace'
+
+export const IMPORT_STRATEGIES: readonly ImportStrategy[] = ['merge', 'update', 'replace']
+
+export type ItemStatRow = {
+  item: string
+  mode: Mode
+  attempts: number
+  correct: number
+  // Percent.
+  accuracy: number
+  // Average time of the correct attempts; null when there were none.
+  avgMs: number | null
+}
+
+const BACKUP_FORMAT = 'symbol-typing-trainer-backup'
+const BACKUP_VERSION = 3
+// Bad rows beyond this are only counted.
+const MAX_REPORTED_ERRORS = 20
+
+function toRow(item: string, mode: Mode, s: Stat): ItemStatRow {
+  return {
+    item,
+    mode,
+    attempts: s.attempts,
+    correct: s.correct,
+    accuracy: s.attempts === 0 ? 0 : (s.correct / s.attempts) * 100,
+    avgMs: s.correct === 0 ? null : s.totalMs / s.correct,
+  }
+}
+
+// One row per key of each mode's own stats (see `LifetimeStats.modeStats`).
+export function itemStatRows(stats: LifetimeStats): ItemStatRow[] {
+  return MODES.flatMap(mode => Object.entries(stats.modeStats[mode] ?? {}).map(([item, s]) => toRow(item, mode, s)))
+}
+
+// Spreadsheets evaluate text cells that start like a formula (`=>`, `+=`, `-`, `@`); a leading
+// `'` keeps them text.
+const FORMULA_START = /^[=+\-@\t\r]/
+
+function csvCell(v: string | number | boolean | null): string {
+  if (v == null) return ''
+  const text = typeof v === 'string' && FORMULA_START.test(v) ? `'${v}` : String(v)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(header: readonly string[], rows: readonly (string | number | boolean | null)[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function isoTime(at: number): string {
+  return new Date(at).toISOString()
+}
+
+export function itemStatsCsv(stats: LifetimeStats): string {
+  return toCsv(
+    ['item', 'mode', 'attempts', 'correct', 'accuracy', 'avg_ms'],
+    itemStatRows(stats).map(r => [
+      r.item,
+      r.mode,
+      r.attempts,
+      r.correct,
+      r.accuracy.toFixed(2),
+      r.avgMs == null ? null : Math.round(r.avgMs),
+    ]),
+  )
+}
+
+export function sessionsCsv(sessions: readonly SessionRecord[]): string {
+  return toCsv(
+    ['id', 'started_at', 'ended_at', 'mode', 'kind', 'config', 'active_ms', 'keystrokes', 'attempts', 'correct', 'miss', 'backspace', 'accuracy'],
+    sessions.map(s => [
+      s.id,
+      isoTime(s.startedAt),
+      isoTime(s.endedAt),
+      s.mode,
+      s.kind,
+      s.configKey,
+      Math.round(s.activeMs),
+      s.keystrokes,
+      s.attempts,
+      s.correct,
+      s.miss,
+      s.backspace,
+      s.accuracy.toFixed(2),
+    ]),
+  )
+}
+
+export function eventsCsv(events: readonly KeystrokeEvent[]): string {
+  return toCsv(
+    ['time', 'mode', 'target', 'expected', 'actual', 'key', 'code', 'shift', 'location', 'correct'],
+    events.map(e => [isoTime(e.t), e.mode, e.target, e.expected, e.actual, e.key, e.code, e.shift, e.location, e.correct]),
+  )
+}
+
+// The per-item rows are included for analysis; import only reads the raw data.
+export function exportBackupJson(data: BackupData, at: number = Date.now()): string {
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: isoTime(at),
+    items: itemStatRows(data.stats),
+    stats: data.stats,
+    sessions: data.sessions,
+    events: data.events,
+  }, null, 2)
+}
+
+// Valid rows are kept and the bad ones reported; a file that is not a backup at all yields no data.
+export function parseBackupJson(json: string): { data: BackupData | null, errors: ValidationError[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { data: null, errors: [{ code: 'invalidJson' }] }
+  }
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    return { data: null, errors: [{ code: 'notBackup' }] }
+  }
+  if (parsed.version !== 1 && parsed.version !== 2 && parsed.version !== BACKUP_VERSION) {
+    return { data: null, errors: [{ code: 'unsupportedVersion', version: String(parsed.version) }] }
+  }
+  if (!isRecord(parsed.stats) || !Array.isArray(parsed.sessions) || !Array.isArray(parsed.events)) {
+    return { data: null, errors: [{ code: 'missingFields', fields: ['stats', 'sessions', 'events'] }] }
+  }
+
+  const errors: ValidationError[] = []
+  const readStats = (raw: unknown, path: string, into: Record<string, Stat>) => {
+    if (raw === undefined) return
+    if (!isRecord(raw)) {
+      errors.push({ code: 'invalidFormat', at: { path } })
+      return
+    }
+    for (const [item, s] of Object.entries(raw)) {
+      if (isStat(s)) into[item] = s
+      else errors.push({ code: 'invalidFormat', at: { path, name: item } })
+    }
+  }
+  const stats = emptyLifetimeStats()
+  // Version 1 kept one field per mode (see `legacyModeStats`).
+  const modeStats = parsed.version === 1 ? legacyModeStats(parsed.stats) : parsed.stats.modeStats
+  if (modeStats !== undefined && !isRecord(modeStats)) errors.push({ code: 'invalidFormat', at: { path: 'stats.modeStats' } })
+  else for (const mode of MODES) readStats(modeStats?.[mode], `stats.modeStats.${mode}`, stats.modeStats[mode])
+  for (const key of SHARED_STAT_KEYS) readStats(parsed.stats[key], `stats.${key}`, stats[key])
+  // Backups made before item stats were kept per mode.
+  if (isRecord(parsed.stats.statsByItem)) {
+    const legacy: Record<string, Stat> = {}
+    readStats(parsed.stats.statsByItem, 'stats.statsByItem', legacy)
+    const split = splitLegacyItemStats(legacy)
+    stats.modeStats.single = mergeStatRecords(stats.modeStats.single, split.singleStats)
+    stats.modeStats.combo = mergeStatRecords(stats.modeStats.combo, split.comboStats)
+    stats.modeStats.digits = mergeStatRecords(stats.modeStats.digits, split.digitsStats)
+  }
+
+  const sessions: SessionRecord[] = []
+  parsed.sessions.forEach((raw, i) => {
+    // Versions 1 and 2 kept every target of a session as an item (see `legacySession`).
+    const session = sanitizeSession(parsed.version === BACKUP_VERSION ? raw : legacySession(raw))
+    if (session) sessions.push(session)
+    else errors.push({ code: 'invalidFormat', at: { path: `sessions #${i + 1}` } })
+  })
+
+  const events: KeystrokeEvent[] = []
+  parsed.events.forEach((raw, i) => {
+    const event = sanitizeKeystrokeEvent(raw)
+    if (event) events.push(event)
+    else errors.push({ code: 'invalidFormat', at: { path: `events #${i + 1}` } })
+  })
+
+  const reported: ValidationError[] = errors.length > MAX_REPORTED_ERRORS
+    ? [...errors.slice(0, MAX_REPORTED_ERRORS), { code: 'moreErrors', count: errors.length - MAX_REPORTED_ERRORS }]
+    : errors
+  return {
+    data: {
+      stats,
+      sessions: sessions.slice(-MAX_SESSIONS),
+      events: events.slice(-MAX_EVENTS),
+    },
+    errors: reported,
+  }
+}
+
+function eventId(e: KeystrokeEvent): string {
+  return `${e.t}\u0000${e.key}\u0000${e.expected}\u0000${e.target}`
+}
+
+// Per item, the side that has seen it more often. Both sides grew from the same data, so
+// adding them up would count that data twice; practice since the export on the other side
+// is lost for that item.
+function largerStatRecords(a: Record<string, Stat>, b: Record<string, Stat>): Record<string, Stat> {
+  const merged: Record<string, Stat> = { ...a }
+  for (const [item, s] of Object.entries(b)) {
+    const current = merged[item]
+    if (!current || s.attempts > current.attempts) merged[item] = s
+  }
+  return merged
+}
+
+// Sessions and keystrokes that are already there (same id / same time and key) are skipped;
+// lifetime stats are combined as `strategy` says (see `ImportStrategy`).
+export function mergeBackup(current: BackupData, imported: BackupData, strategy: Exclude<ImportStrategy, 'replace'>): BackupData {
+  const sessionIds = new Set(current.sessions.map(s => s.id))
+  const stats = combineLifetimeStats(current.stats, imported.stats, strategy === 'update' ? largerStatRecords : mergeStatRecords)
+
+  const sessions = [...current.sessions, ...imported.sessions.filter(s => !sessionIds.has(s.id))]
+    .sort((a, b) => a.endedAt - b.endedAt)
+    .slice(-MAX_SESSIONS)
+
+  const eventIds = new Set(current.events.map(eventId))
+  const events = [...current.events, ...imported.events.filter(e => !eventIds.has(eventId(e)))]
+    .sort((a, b) => a.t - b.t)
+    .slice(-MAX_EVENTS)
+
+  return { stats, sessions, events }
+}
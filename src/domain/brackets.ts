@@ -0,0 +1,123 @@
+import { clampInt, pickRandom, randomInt } from './random'
+import { isRecord } from './validation'
+
+export type BracketPairId = 'paren' | 'square' | 'curly' | 'angle'
+
+export type BracketPair = {
+  id: BracketPairId
+  open: string
+  close: string
+}
+
+export const BRACKET_PAIRS: readonly BracketPair[] = [
+  { id: 'paren', open: '(', close: ')' },
+  { id: 'square', open: '[', close: ']' },
+  { id: 'curly', open: '{', close: '}' },
+  { id: 'angle', open: '<', close: '>' },
+]
+
+export type BracketSettings = {
+  // Bracket pairs per target.
+  minPairs: number
+  maxPairs: number
+  // Deepest nesting allowed (1: no nesting, e.g. `()[]{}`).
+  maxDepth: number
+  types: Record<BracketPairId, boolean>
+  // Editor-like auto-close: typing an opening bracket inserts its closing one, which can be
+  // typed over or stepped over with → / Tab.
+  autoClose: boolean
+}
+
+export const BRACKET_LIMITS = { minPairs: 1, maxPairs: 12, minDepth: 1, maxDepth: 6 }
+
+export const DEFAULT_BRACKET_SETTINGS: BracketSettings = {
+  minPairs: 2,
+  maxPairs: 4,
+  maxDepth: 3,
+  types: { paren: true, square: true, curly: true, angle: true },
+  autoClose: false,
+}
+
+// Keys that step over an auto-inserted closing bracket.
+export const STEP_OVER_KEYS: readonly string[] = ['ArrowRight', 'Tab']
+
+export function enabledBracketPairs(settings: BracketSettings): BracketPair[] {
+  const pairs = BRACKET_PAIRS.filter(p => settings.types[p.id])
+  return pairs.length === 0 ? [BRACKET_PAIRS[0]] : pairs
+}
+
+// A balanced sequence of `pairs` pairs, never nested deeper than `maxDepth`.
+export function generateBracketTarget(settings: BracketSettings, random: () => number = Math.random): string {
+  const pairs = enabledBracketPairs(settings)
+  const ids = pairs.map(p => p.id)
+  const minPairs = clampInt(settings.minPairs, BRACKET_LIMITS.minPairs, BRACKET_LIMITS.maxPairs)
+  const maxPairs = clampInt(settings.maxPairs, BRACKET_LIMITS.minPairs, BRACKET_LIMITS.maxPairs)
+  const maxDepth = clampInt(settings.maxDepth, BRACKET_LIMITS.minDepth, BRACKET_LIMITS.maxDepth)
+  const total = randomInt(minPairs, maxPairs, random)
+
+  let out = ''
+  let opened = 0
+  const stack: BracketPair[] = []
+  while (opened < total || stack.length > 0) {
+    const canOpen = opened < total && stack.length < maxDepth
+    const canClose = stack.length > 0
+    if (canOpen && (!canClose || random() < 0.5)) {
+      const id = pickRandom(ids, random)
+      const pair = pairs.find(p => p.id === id) as BracketPair
+      stack.push(pair)
+      out += pair.open
+      opened += 1
+    } else {
+      out += (stack.pop() as BracketPair).close
+    }
+  }
+  return out
+}
+
+export function isClosingBracket(ch: string): boolean {
+  return BRACKET_PAIRS.some(p => p.close === ch)
+}
+
+// Stats key of one side of a pair, e.g. `( open` / `) close`.
+export function bracketSideKey(ch: string): string | null {
+  const pair = BRACKET_PAIRS.find(p => p.open === ch || p.close === ch)
+  if (!pair) return null
+  return pair.open === ch ? `${ch} open` : `${ch} close`
+}
+
+// Closing brackets an auto-closing editor would have inserted after the cursor, innermost first.
+export function autoClosedSuffix(typed: string): string {
+  const stack: string[] = []
+  for (const ch of typed) {
+    const pair = BRACKET_PAIRS.find(p => p.open === ch)
+    if (pair) stack.push(pair.close)
+    else if (stack[stack.length - 1] === ch) stack.pop()
+  }
+  return stack.reverse().join('')
+}
+
+// Clamps the counts and keeps min <= max.
+export function normalizeBracketSettings(next: BracketSettings): BracketSettings {
+  const minPairs = clampInt(next.minPairs, BRACKET_LIMITS.minPairs, BRACKET_LIMITS.maxPairs)
+  const maxPairs = clampInt(next.maxPairs, BRACKET_LIMITS.minPairs, BRACKET_LIMITS.maxPairs)
+  return {
+    ...next,
+    minPairs: Math.min(minPairs, maxPairs),
+    maxPairs: Math.max(minPairs, maxPairs),
+    maxDepth: clampInt(next.maxDepth, BRACKET_LIMITS.minDepth, BRACKET_LIMITS.maxDepth),
+  }
+}
+
+export function sanitizeBracketSettings(v: unknown): BracketSettings | null {
+  if (!isRecord(v)) return null
+  if (!Number.isInteger(v.minPairs) || !Number.isInteger(v.maxPairs) || !Number.isInteger(v.maxDepth)) return null
+  if (typeof v.autoClose !== 'boolean' || !isRecord(v.types)) return null
+  const types = v.types
+  return normalizeBracketSettings({
+    minPairs: v.minPairs as number,
+    maxPairs: v.maxPairs as number,
+    maxDepth: v.maxDepth as number,
+    types: Object.fromEntries(BRACKET_PAIRS.map(p => [p.id, types[p.id] === true])) as Record<BracketPairId, boolean>,
+    autoClose: v.autoClose,
+  })
+}
@@ -0,0 +1,105 @@
+import { isRecord } from './validation'
+
+// App controls that can be bound to a hotkey. Keys used for them never reach the trainer.
+export type CommandId =
+  | 'openPalette'
+  | 'togglePause'
+  | 'resetSession'
+  | 'finishSession'
+  | 'nextMode'
+  | 'startSprint'
+
+// A chord such as `Escape`, `Alt+R` or `Ctrl+Shift+K` (see `chordOf`); null when unbound.
+export type Hotkeys = Record<CommandId, string | null>
+
+export const COMMAND_IDS: readonly CommandId[] = [
+  'openPalette',
+  'togglePause',
+  'resetSession',
+  'finishSession',
+  'nextMode',
+  'startSprint',
+]
+
+export const DEFAULT_HOTKEYS: Hotkeys = {
+  openPalette: 'Ctrl+K',
+  togglePause: 'Escape',
+  resetSession: 'Alt+R',
+  finishSession: 'Alt+F',
+  nextMode: 'Alt+M',
+  startSprint: 'Alt+S',
+}
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock'])
+
+// Letters and digits are named after the physical key, so Alt/Option combinations that type
+// special characters still give `Alt+R`.
+function chordKeyName(e: { key: string, code: string }): string {
+  const letter = /^Key([A-Z])$/.exec(e.code)
+  if (letter) return letter[1]
+  const digit = /^Digit([0-9])$/.exec(e.code)
+  if (digit) return digit[1]
+  if (e.key === ' ') return 'Space'
+  return e.key.length === 1 ? e.key.toUpperCase() : e.key
+}
+
+// The chord of a `keydown`, or null for a modifier on its own.
+export function chordOf(e: {
+  key: string
+  code: string
+  ctrlKey: boolean
+  altKey: boolean
+  shiftKey: boolean
+  metaKey: boolean
+}): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null
+  const parts: string[] = []
+  if (e.ctrlKey) parts.push('Ctrl')
+  if (e.altKey) parts.push('Alt')
+  if (e.shiftKey) parts.push('Shift')
+  if (e.metaKey) parts.push('Meta')
+  parts.push(chordKeyName(e))
+  return parts.join('+')
+}
+
+export function commandForChord(hotkeys: Hotkeys, chord: string): CommandId | null {
+  return COMMAND_IDS.find(id => hotkeys[id] === chord) ?? null
+}
+
+// Binding a chord takes it away from any other command.
+export function bindHotkey(hotkeys: Hotkeys, id: CommandId, chord: string | null): Hotkeys {
+  const next = { ...hotkeys, [id]: chord }
+  if (chord == null) return next
+  for (const other of COMMAND_IDS) {
+    if (other !== id && next[other] === chord) next[other] = null
+  }
+  return next
+}
+
+// Commands added later keep their default chord.
+export function sanitizeHotkeys(v: unknown): Hotkeys {
+  if (!isRecord(v)) return DEFAULT_HOTKEYS
+  return Object.fromEntries(COMMAND_IDS.map(id => [
+    id,
+    v[id] === null || (typeof v[id] === 'string' && v[id] !== '') ? v[id] : DEFAULT_HOTKEYS[id],
+  ])) as Hotkeys
+}
+
+// An entry of the command palette.
+export type PaletteCommand = {
+  id: string
+  label: string
+  // Shown on the right, e.g. the hotkey or the current state.
+  detail?: string
+  run: () => void
+}
+
+// Every word of the query has to appear in the label or detail (case-insensitive).
+export function filterCommands(commands: readonly PaletteCommand[], query: string): PaletteCommand[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return [...commands]
+  return commands.filter(c => {
+    const text = `${c.label} ${c.detail ?? ''}`.toLowerCase()
+    return words.every(w => text.includes(w))
+  })
+}
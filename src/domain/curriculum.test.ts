@@ -0,0 +1,110 @@
+import '../modes'
+import { describe, expect, it } from 'vitest'
+import type { Curriculum, CurriculumStage } from './curriculum'
+import { curriculumLesson, evaluateCurriculum, exportCurricula, importCurricula, lessonConfig, lessonModes } from './curriculum'
+import { enabledDigitsFormats } from './digits'
+import { emptyLifetimeStats } from './engine'
+import { defaultGeneratorSettings } from './modes'
+import type { Stat } from './stats'
+
+function stage(mode: CurriculumStage['mode'], items: string[]): CurriculumStage {
+  return { name: `${mode} ${items.join(' ')}`, mode, items, mastery: { minAttempts: 10, minAccuracy: 90, maxAvgMs: 1000 } }
+}
+
+const curriculum: Curriculum = {
+  id: 'c',
+  name: 'Test',
+  stages: [stage('single', ['(', ')']), stage('single', ['[']), stage('combo', ['=>']), stage('digits', ['hex'])],
+}
+
+// `attempts` tries of which `correct` were right, each taking `avgMs`.
+function stat(attempts: number, correct: number, avgMs: number): Stat {
+  return { attempts, correct, totalMs: correct * avgMs, lastSeenAt: 1, streak: 0 }
+}
+
+function modeStats(single: Record<string, Stat>, digits: Record<string, Stat> = {}) {
+  const stats = emptyLifetimeStats().modeStats
+  return { ...stats, single, digits }
+}
+
+describe('evaluateCurriculum', () => {
+  it('starts at the first stage', () => {
+    const progress = evaluateCurriculum(curriculum, modeStats({}))
+    expect(progress.currentIndex).toBe(0)
+    expect(progress.completed).toBe(false)
+    expect(progress.stages[0]).toEqual({ attempts: 0, accuracy: 0, avgMs: null, mastered: false })
+  })
+
+  it('unlocks the next stage once every criterion is met over the stage items together', () => {
+    const mastered = modeStats({ '(': stat(5, 5, 800), ')': stat(5, 4, 900) })
+    const progress = evaluateCurriculum(curriculum, mastered)
+    expect(progress.stages[0]).toMatchObject({ attempts: 10, accuracy: 90, mastered: true })
+    expect(progress.currentIndex).toBe(1)
+  })
+
+  it.each([
+    ['too few attempts', { '(': stat(5, 5, 800), ')': stat(4, 4, 800) }],
+    ['too inaccurate', { '(': stat(5, 5, 800), ')': stat(5, 3, 800) }],
+    ['too slow', { '(': stat(5, 5, 800), ')': stat(5, 5, 1300) }],
+  ])('keeps the stage locked when %s', (_, single) => {
+    expect(evaluateCurriculum(curriculum, modeStats(single)).currentIndex).toBe(0)
+  })
+
+  it('judges digits stages on their format stats, and completes after the last stage', () => {
+    const single = { '(': stat(10, 10, 500), ')': stat(10, 10, 500), '[': stat(10, 10, 500) }
+    const stats = { ...modeStats(single, { 'format:hex': stat(10, 10, 900) }), combo: { '=>': stat(10, 10, 900) } }
+    const progress = evaluateCurriculum(curriculum, stats)
+    expect(progress.completed).toBe(true)
+    expect(progress.currentIndex).toBe(3)
+  })
+})
+
+describe('lessons', () => {
+  it('practices the current stage with the unlocked stages of the same mode', () => {
+    expect(curriculumLesson(curriculum, 1)).toEqual({ mode: 'single', items: ['(', ')', '['] })
+    expect(curriculumLesson(curriculum, 2)).toEqual({ mode: 'combo', items: ['=>'] })
+    expect(curriculumLesson(curriculum, 9)).toBeNull()
+  })
+
+  it('uses the items as the pool, or narrows the settings of generated modes down to them', () => {
+    const settings = defaultGeneratorSettings()
+    expect(lessonConfig({ mode: 'combo', items: ['=>'] }, settings)).toEqual({ pool: ['=>'], generatorSettings: settings })
+    const digits = lessonConfig({ mode: 'digits', items: ['hex', 'binary'] }, settings)
+    expect(digits.pool).toEqual([])
+    expect(enabledDigitsFormats(digits.generatorSettings.digits)).toEqual(['hex', 'binary'])
+  })
+})
+
+describe('importCurricula', () => {
+  const file = (stages: unknown[]) => JSON.stringify({ version: 1, curricula: [{ name: 'Mine', stages }] })
+
+  it('offers the modes whose generator has a lesson policy', () => {
+    expect(lessonModes()).toEqual(['single', 'combo', 'digits'])
+  })
+
+  it('reads back what was exported', () => {
+    const { curricula, errors } = importCurricula(exportCurricula([curriculum]), [])
+    expect(errors).toEqual([])
+    expect(curricula.map(c => ({ name: c.name, stages: c.stages }))).toEqual([{ name: 'Test', stages: curriculum.stages }])
+  })
+
+  it('checks stage items against the mode', () => {
+    const { curricula, errors } = importCurricula(file([
+      stage('snippet', ['x']),
+      stage('single', ['ab']),
+      stage('digits', ['hex', 'roman']),
+    ]), [])
+    expect(curricula).toEqual([])
+    expect(errors).toEqual([
+      { code: 'stageMode', value: 'snippet', modes: ['single', 'combo', 'digits'], at: { path: '#1', name: 'Mine', stage: 1 } },
+      { code: 'stageNotSingle', at: { path: '#1', name: 'Mine', stage: 2 } },
+      { code: 'stageDigitsFormat', formats: expect.arrayContaining(['plain', 'hex']), at: { path: '#1', name: 'Mine', stage: 3 } },
+    ])
+  })
+
+  it('replaces a curriculum with the same name', () => {
+    const existing: Curriculum = { id: 'old', name: 'Mine', stages: [stage('combo', ['->'])] }
+    const { curricula } = importCurricula(file([stage('combo', ['=>'])]), [existing])
+    expect(curricula).toEqual([{ id: 'old', name: 'Mine', stages: [stage('combo', ['=>'])] }])
+  })
+})
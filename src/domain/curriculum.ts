@@ -0,0 +1,261 @@
+import type { GeneratorSettings, Mode } from './modes'
+import { generatorOf, isGeneratedMode, MODES } from './modes'
+import type { Stat } from './stats'
+import type { ErrorPlace, ValidationError } from './validation'
+import { isRecord } from './validation'
+
+export type MasteryCriteria = {
+  minAttempts: number
+  // Percent.
+  minAccuracy: number
+  // Average time of a correct target.
+  maxAvgMs: number
+}
+
+export type CurriculumStage = {
+  name: string
+  // A mode with a lesson policy (see `TargetGenerator.lesson`). Digits stages list number
+  // formats (`plain`, `hex`, ...) as items.
+  mode: Mode
+  items: string[]
+  mastery: MasteryCriteria
+}
+
+export type Curriculum = {
+  id: string
+  name: string
+  stages: CurriculumStage[]
+}
+
+export type StageProgress = {
+  attempts: number
+  // Percent; 0 before the first attempt.
+  accuracy: number
+  avgMs: number | null
+  mastered: boolean
+}
+
+export type CurriculumProgress = {
+  stages: StageProgress[]
+  // The first stage that is not mastered yet; every stage before it is unlocked.
+  currentIndex: number
+  completed: boolean
+}
+
+// What the trainer practices for a curriculum: the current stage together with the unlocked
+// stages of the same mode before it.
+export type Lesson = {
+  mode: Mode
+  items: string[]
+}
+
+export const BUILTIN_CURRICULUM_ID = 'builtin:40'
+
+export const BUILTIN_CURRICULUM: Curriculum = {
+  id: BUILTIN_CURRICULUM_ID,
+  name: '40%キーボード入門',
+  stages: [
+    {
+      name: '括弧',
+      mode: 'single',
+      items: ['(', ')', '[', ']', '{', '}', '<', '>'],
+      mastery: { minAttempts: 80, minAccuracy: 95, maxAvgMs: 1200 },
+    },
+    {
+      name: '演算子',
+      mode: 'single',
+      items: ['+', '-', '*', '/', '=', '%', '&', '|', '^', '~', '!'],
+      mastery: { minAttempts: 100, minAccuracy: 95, maxAvgMs: 1200 },
+    },
+    {
+      name: '引用符・句読点',
+      mode: 'single',
+      items: ["'", '"', '`', ',', '.', ':', ';', '?'],
+      mastery: { minAttempts: 80, minAccuracy: 95, maxAvgMs: 1200 },
+    },
+    {
+      name: 'その他の記号',
+      mode: 'single',
+      items: ['_', '@', '#', '$', '\\'],
+      mastery: { minAttempts: 50, minAccuracy: 95, maxAvgMs: 1200 },
+    },
+    {
+      name: 'コンボ',
+      mode: 'combo',
+      items: ['=>', '->', '==', '===', '!=', '<=', '>=', '&&', '||', '::', '//', '</', '/>'],
+      mastery: { minAttempts: 100, minAccuracy: 95, maxAvgMs: 2000 },
+    },
+    {
+      name: '数字',
+      mode: 'digits',
+      items: ['plain'],
+      mastery: { minAttempts: 30, minAccuracy: 95, maxAvgMs: 4000 },
+    },
+  ],
+}
+
+export function createCurriculumId(): string {
+  return `curriculum-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function sumStats(stats: Record<string, Stat>, items: readonly string[]): { attempts: number, correct: number, totalMs: number } {
+  return items.reduce((acc, item) => {
+    const s = stats[item]
+    if (!s) return acc
+    return { attempts: acc.attempts + s.attempts, correct: acc.correct + s.correct, totalMs: acc.totalMs + s.totalMs }
+  }, { attempts: 0, correct: 0, totalMs: 0 })
+}
+
+// Modes curriculum stages can practice, in the order they registered.
+export function lessonModes(): Mode[] {
+  return MODES.filter(mode => generatorOf(mode).lesson != null)
+}
+
+// Mastery is judged on the lifetime stats of the stage's items (see `LessonPolicy.statKey`).
+export function evaluateCurriculum(
+  curriculum: Curriculum,
+  modeStats: Record<Mode, Record<string, Stat>>,
+): CurriculumProgress {
+  const stages = curriculum.stages.map((stage): StageProgress => {
+    const statKey = generatorOf(stage.mode).lesson?.statKey
+    const keys = statKey ? stage.items.map(statKey) : stage.items
+    const total = sumStats(modeStats[stage.mode] ?? {}, keys)
+    const accuracy = total.attempts === 0 ? 0 : (total.correct / total.attempts) * 100
+    const avgMs = total.correct === 0 ? null : total.totalMs / total.correct
+    const { mastery } = stage
+    return {
+      attempts: total.attempts,
+      accuracy,
+      avgMs,
+      mastered: total.attempts >= mastery.minAttempts
+        && accuracy >= mastery.minAccuracy
+        && avgMs != null && avgMs <= mastery.maxAvgMs,
+    }
+  })
+  const firstOpen = stages.findIndex(s => !s.mastered)
+  return {
+    stages,
+    currentIndex: firstOpen === -1 ? curriculum.stages.length - 1 : firstOpen,
+    completed: firstOpen === -1,
+  }
+}
+
+export function curriculumLesson(curriculum: Curriculum, currentIndex: number): Lesson | null {
+  const current = curriculum.stages[currentIndex]
+  if (!current) return null
+  const items = curriculum.stages
+    .slice(0, currentIndex + 1)
+    .filter(stage => stage.mode === current.mode)
+    .flatMap(stage => stage.items)
+  return { mode: current.mode, items: [...new Set(items)] }
+}
+
+// The pool and settings the trainer practices a lesson with: its items as the pool, or the
+// mode's settings narrowed down to them (see `LessonPolicy.settings`).
+export function lessonConfig(lesson: Lesson, generatorSettings: GeneratorSettings): {
+  pool: string[]
+  generatorSettings: GeneratorSettings
+} {
+  const narrow = generatorOf(lesson.mode).lesson?.settings
+  return {
+    pool: isGeneratedMode(lesson.mode) ? [] : lesson.items,
+    generatorSettings: narrow
+      ? { ...generatorSettings, [lesson.mode]: narrow(generatorSettings[lesson.mode], lesson.items) }
+      : generatorSettings,
+  }
+}
+
+const EXPORT_FORMAT_VERSION = 1
+
+export function exportCurricula(curricula: readonly Curriculum[]): string {
+  return JSON.stringify({
+    version: EXPORT_FORMAT_VERSION,
+    curricula: curricula.map(({ name, stages }) => ({ name, stages })),
+  }, null, 2)
+}
+
+function validateStage(v: unknown, at: ErrorPlace): { stage: CurriculumStage | null, errors: ValidationError[] } {
+  if (!isRecord(v)) return { stage: null, errors: [{ code: 'invalidFormat', at }] }
+  const errors: ValidationError[] = []
+  const name = typeof v.name === 'string' ? v.name.trim() : ''
+  if (name === '') errors.push({ code: 'noName', at })
+  const modes = lessonModes()
+  const mode = modes.find(m => m === v.mode)
+  if (!mode) errors.push({ code: 'stageMode', value: String(v.mode), modes, at })
+  const items = Array.isArray(v.items) && v.items.every(item => typeof item === 'string' && item !== '')
+    ? [...new Set(v.items as string[])]
+    : null
+  if (!items || items.length === 0) errors.push({ code: 'noItems', at })
+  else {
+    const problem = mode ? generatorOf(mode).lesson?.checkItems(items) : null
+    if (problem) errors.push({ ...problem, at })
+  }
+  const mastery = isRecord(v.mastery) ? v.mastery : {}
+  const minAttempts = mastery.minAttempts
+  const minAccuracy = mastery.minAccuracy
+  const maxAvgMs = mastery.maxAvgMs
+  if (!Number.isInteger(minAttempts) || (minAttempts as number) < 1) errors.push({ code: 'minAttempts', at })
+  if (typeof minAccuracy !== 'number' || minAccuracy < 0 || minAccuracy > 100) errors.push({ code: 'minAccuracy', at })
+  if (typeof maxAvgMs !== 'number' || maxAvgMs <= 0) errors.push({ code: 'maxAvgMs', at })
+  if (errors.length > 0 || !mode || !items) return { stage: null, errors }
+  return {
+    stage: {
+      name,
+      mode,
+      items,
+      mastery: { minAttempts: minAttempts as number, minAccuracy: minAccuracy as number, maxAvgMs: maxAvgMs as number },
+    },
+    errors: [],
+  }
+}
+
+function validateCurriculum(v: unknown, at: ErrorPlace): { draft: Omit<Curriculum, 'id'> | null, errors: ValidationError[] } {
+  if (!isRecord(v)) return { draft: null, errors: [{ code: 'invalidFormat', at }] }
+  const name = typeof v.name === 'string' ? v.name.trim() : ''
+  if (name === '') return { draft: null, errors: [{ code: 'noName', at }] }
+  if (!Array.isArray(v.stages) || v.stages.length === 0) return { draft: null, errors: [{ code: 'noStages', at: { ...at, name } }] }
+  const results = v.stages.map((stage, i) => validateStage(stage, { ...at, name, stage: i + 1 }))
+  const errors = results.flatMap(r => r.errors)
+  if (errors.length > 0) return { draft: null, errors }
+  return { draft: { name, stages: results.map(r => r.stage as CurriculumStage) }, errors: [] }
+}
+
+// Imported curricula replace existing ones with the same name; everything else is added.
+export function importCurricula(json: string, existing: readonly Curriculum[]): {
+  curricula: Curriculum[]
+  errors: ValidationError[]
+} {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { curricula: [...existing], errors: [{ code: 'invalidJson' }] }
+  }
+
+  const raw = isRecord(parsed) && Array.isArray(parsed.curricula) ? parsed.curricula : null
+  if (!raw) return { curricula: [...existing], errors: [{ code: 'missingArray', field: 'curricula' }] }
+
+  const curricula = [...existing]
+  const errors: ValidationError[] = []
+  raw.forEach((v, i) => {
+    const { draft, errors: problems } = validateCurriculum(v, { path: `#${i + 1}` })
+    if (!draft) {
+      errors.push(...problems)
+      return
+    }
+    const index = curricula.findIndex(c => c.name === draft.name)
+    if (index >= 0) curricula[index] = { ...curricula[index], stages: draft.stages }
+    else curricula.push({ id: createCurriculumId(), ...draft })
+  })
+  return { curricula, errors }
+}
+
+// Parses the stored custom curricula, dropping anything that no longer validates.
+export function sanitizeCurricula(v: unknown): Curriculum[] {
+  if (!Array.isArray(v)) return []
+  return v.flatMap((raw): Curriculum[] => {
+    if (!isRecord(raw) || typeof raw.id !== 'string') return []
+    const { draft } = validateCurriculum(raw, {})
+    return draft ? [{ id: raw.id, ...draft }] : []
+  })
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import type { CustomSet } from './customSets'
+import {
+  builtinSourceId,
+  exportCustomSets,
+  importCustomSets,
+  itemSelectionSchema,
+  sanitizeCustomSets,
+  selectedItems,
+  validateCustomSet,
+} from './customSets'
+import { SINGLE_SYMBOLS } from './symbols'
+
+const arrows: CustomSet = { id: 'set-1', name: 'Arrows', kind: 'combo', items: ['=>', '->', '<-'] }
+
+function file(sets: unknown[]): string {
+  return JSON.stringify({ version: 1, sets })
+}
+
+describe('validateCustomSet', () => {
+  it('accepts a named set of distinct printable items', () => {
+    expect(validateCustomSet({ name: ' Mine ', kind: 'single', items: ['(', ')'] })).toEqual([])
+  })
+
+  it('reports every problem with the name and the items', () => {
+    expect(validateCustomSet({ name: 'Arrows', kind: 'single', items: ['ab', '', 'a b', '(', '('] }, [{ ...arrows, kind: 'single' }])).toEqual([
+      { code: 'duplicateSetName', name: 'Arrows' },
+      { code: 'notSingleItem', item: 'ab' },
+      { code: 'emptyItem' },
+      { code: 'unprintableItem', item: '"a b"' },
+      { code: 'notSingleItem', item: 'a b' },
+      { code: 'duplicateItem', item: '(' },
+    ])
+    expect(validateCustomSet({ name: '', kind: 'combo', items: [] })).toEqual([{ code: 'nameRequired' }, { code: 'noItems' }])
+  })
+
+  it('allows the same name for the other kind', () => {
+    expect(validateCustomSet({ name: 'Arrows', kind: 'single', items: ['<'] }, [arrows])).toEqual([])
+  })
+})
+
+describe('importCustomSets', () => {
+  it('reads back what was exported', () => {
+    const { sets, errors } = importCustomSets(exportCustomSets([arrows]), [])
+    expect(errors).toEqual([])
+    expect(sets).toEqual([{ ...arrows, id: expect.any(String) }])
+  })
+
+  it('rejects files that are not a list of sets', () => {
+    expect(importCustomSets('nope', [arrows])).toEqual({ sets: [arrows], errors: [{ code: 'invalidJson' }] })
+    expect(importCustomSets('{"version":1}', [arrows])).toEqual({ sets: [arrows], errors: [{ code: 'missingArray', field: 'sets' }] })
+  })
+
+  it('imports the valid sets and reports where the others went wrong', () => {
+    const { sets, errors } = importCustomSets(file([
+      { name: 'Brackets', kind: 'single', items: ['(', ')'] },
+      { name: 'Odd', kind: 'triple', items: ['x'] },
+      { name: 'Long', kind: 'single', items: ['ab'] },
+    ]), [])
+    expect(sets.map(s => s.name)).toEqual(['Brackets'])
+    expect(errors).toEqual([
+      { code: 'invalidFormat', at: { path: '#2' } },
+      { code: 'notSingleItem', item: 'ab', at: { path: '#3', name: 'Long' } },
+    ])
+  })
+
+  it('replaces the items of a set with the same name and kind', () => {
+    const { sets } = importCustomSets(file([{ name: 'Arrows', kind: 'combo', items: ['|>'] }]), [arrows])
+    expect(sets).toEqual([{ ...arrows, items: ['|>'] }])
+  })
+})
+
+describe('sanitizeCustomSets', () => {
+  it('drops stored sets that no longer validate', () => {
+    expect(sanitizeCustomSets([arrows, { ...arrows, id: 'set-2' }, { name: 'No id', kind: 'combo', items: ['=='] }, 'x'])).toEqual([arrows])
+    expect(sanitizeCustomSets(null)).toEqual([])
+  })
+})
+
+describe('item selection', () => {
+  const schema = itemSelectionSchema('single')
+
+  it('draws from the enabled items of the enabled sources, without duplicates', () => {
+    const extra: CustomSet = { id: 'set-2', name: 'Extra', kind: 'single', items: ['(', '§'] }
+    const inputs = { customSets: [arrows, extra], sources: {} }
+    const pool = selectedItems('single', { enabled: { '(': false } }, inputs)
+    expect(pool).toContain('§')
+    expect(pool).not.toContain('(')
+    expect(pool).not.toContain('=>')
+    expect(pool).toHaveLength(SINGLE_SYMBOLS.length)
+    expect(selectedItems('single', schema.defaults, { ...inputs, sources: { [builtinSourceId('single')]: false } })).toEqual(['(', '§'])
+  })
+
+  it('reads stored switches and compares them with missing items on', () => {
+    expect(schema.sanitize({ enabled: { a: false, b: 'yes' } })).toEqual({ enabled: { a: false } })
+    expect(schema.sanitize({})).toBeNull()
+    expect(schema.same({ enabled: {} }, { enabled: { a: true } })).toBe(true)
+    expect(schema.same({ enabled: {} }, { enabled: { a: false } })).toBe(false)
+  })
+})
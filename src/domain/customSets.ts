@@ -0,0 +1,202 @@
+import { COMBOS, initEnabledMap, sameEnabledMap, SINGLE_SYMBOLS } from './symbols'
+import type { ItemPicker, SettingsSchema } from './targetGenerator'
+import type { ValidationError } from './validation'
+import { isRecord, sanitizeFlags } from './validation'
+
+export type CustomSetKind = 'single' | 'combo'
+
+export type CustomSet = {
+  id: string
+  name: string
+  kind: CustomSetKind
+  items: string[]
+}
+
+export type CustomSetDraft = Omit<CustomSet, 'id'>
+
+// Key used for a built-in list in the pool-source map (custom sets use their id).
+export function builtinSourceId(kind: CustomSetKind): string {
+  return `builtin:${kind}`
+}
+
+const EXPORT_FORMAT_VERSION = 1
+
+export type PoolSource = {
+  id: string
+  // The set's name; null for the built-in list.
+  label: string | null
+  items: readonly string[]
+  enabled: boolean
+}
+
+// The built-in list followed by the custom sets of the same kind.
+export function poolSourcesFor(
+  kind: CustomSetKind,
+  customSets: readonly CustomSet[],
+  enabledSources: Record<string, boolean>,
+): PoolSource[] {
+  const builtinId = builtinSourceId(kind)
+  return [
+    {
+      id: builtinId,
+      label: null,
+      items: builtinItems(kind),
+      enabled: enabledSources[builtinId] !== false,
+    },
+    ...customSets
+      .filter(set => set.kind === kind)
+      .map(set => ({ id: set.id, label: set.name, items: set.items, enabled: enabledSources[set.id] !== false })),
+  ]
+}
+
+// Items of the enabled sources, without duplicates (a custom set may repeat a built-in).
+export function itemsFromSources(sources: readonly PoolSource[]): string[] {
+  return [...new Set(sources.filter(source => source.enabled).flatMap(source => source.items))]
+}
+
+// What pools are built from besides the mode's own settings (see `TargetGenerator.pool`).
+export type PoolInputs = {
+  customSets: readonly CustomSet[]
+  sources: Record<string, boolean>
+}
+
+// Settings of the modes whose items are switched on and off one by one. Items missing from
+// `enabled` (e.g. from a custom set added later) are on.
+export type ItemSelection = {
+  enabled: Record<string, boolean>
+}
+
+function builtinItems(kind: CustomSetKind): readonly string[] {
+  return kind === 'single' ? SINGLE_SYMBOLS : COMBOS
+}
+
+// The settings schema of such a mode, every built-in item on by default.
+export function itemSelectionSchema(kind: CustomSetKind): SettingsSchema<ItemSelection> {
+  return {
+    defaults: { enabled: initEnabledMap(builtinItems(kind)) },
+    sanitize: v => {
+      const enabled = isRecord(v) ? sanitizeFlags(v.enabled) : null
+      return enabled ? { enabled } : null
+    },
+    normalize: next => next,
+    same: (a, b) => sameEnabledMap(a.enabled, b.enabled),
+  }
+}
+
+// ...its item picker (the built-in list and the custom sets of `kind`)...
+export function itemSelectionPicker(kind: CustomSetKind): ItemPicker<ItemSelection> {
+  return {
+    kind,
+    enabled: settings => settings.enabled,
+    withEnabled: (settings, enabled) => ({ ...settings, enabled }),
+  }
+}
+
+// ...and its pool: the enabled items of the enabled sources.
+export function selectedItems(kind: CustomSetKind, settings: ItemSelection, inputs: PoolInputs): string[] {
+  return itemsFromSources(poolSourcesFor(kind, inputs.customSets, inputs.sources))
+    .filter(item => settings.enabled[item] !== false)
+}
+
+export function createCustomSetId(): string {
+  return `set-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Splits user input on whitespace, so items can be entered one per line or space separated.
+export function parseItems(text: string): string[] {
+  return text.split(/\s+/).filter(item => item !== '')
+}
+
+function isPrintable(item: string): boolean {
+  // No whitespace, control or format characters.
+  return /^[^\s\p{C}]+$/u.test(item)
+}
+
+export function validateCustomSet(draft: CustomSetDraft, others: readonly CustomSet[] = []): ValidationError[] {
+  const errors: ValidationError[] = []
+  const name = draft.name.trim()
+  if (name === '') errors.push({ code: 'nameRequired' })
+  if (others.some(s => s.name === name && s.kind === draft.kind)) errors.push({ code: 'duplicateSetName', name })
+  if (draft.items.length === 0) errors.push({ code: 'noItems' })
+
+  const seen = new Set<string>()
+  for (const item of draft.items) {
+    if (item === '') {
+      errors.push({ code: 'emptyItem' })
+      continue
+    }
+    if (!isPrintable(item)) errors.push({ code: 'unprintableItem', item: JSON.stringify(item) })
+    if (draft.kind === 'single' && [...item].length !== 1) errors.push({ code: 'notSingleItem', item })
+    if (seen.has(item)) errors.push({ code: 'duplicateItem', item })
+    seen.add(item)
+  }
+  return errors
+}
+
+export function exportCustomSets(sets: readonly CustomSet[]): string {
+  const payload = {
+    version: EXPORT_FORMAT_VERSION,
+    sets: sets.map(({ name, kind, items }) => ({ name, kind, items })),
+  }
+  return JSON.stringify(payload, null, 2)
+}
+
+function toDraft(v: unknown): CustomSetDraft | null {
+  if (!isRecord(v)) return null
+  if (typeof v.name !== 'string') return null
+  if (v.kind !== 'single' && v.kind !== 'combo') return null
+  if (!Array.isArray(v.items) || !v.items.every(item => typeof item === 'string')) return null
+  return { name: v.name.trim(), kind: v.kind, items: v.items as string[] }
+}
+
+// Imported sets replace existing sets with the same name and kind; everything else is added.
+export function importCustomSets(json: string, existing: readonly CustomSet[]): {
+  sets: CustomSet[]
+  errors: ValidationError[]
+} {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { sets: [...existing], errors: [{ code: 'invalidJson' }] }
+  }
+
+  const rawSets = isRecord(parsed) && Array.isArray(parsed.sets) ? parsed.sets : null
+  if (!rawSets) return { sets: [...existing], errors: [{ code: 'missingArray', field: 'sets' }] }
+
+  const sets = [...existing]
+  const errors: ValidationError[] = []
+  rawSets.forEach((raw, i) => {
+    const draft = toDraft(raw)
+    if (!draft) {
+      errors.push({ code: 'invalidFormat', at: { path: `#${i + 1}` } })
+      return
+    }
+    const index = sets.findIndex(s => s.name === draft.name && s.kind === draft.kind)
+    const others = sets.filter((_, j) => j !== index)
+    const problems = validateCustomSet(draft, others)
+    if (problems.length > 0) {
+      errors.push(...problems.map(p => ({ ...p, at: { path: `#${i + 1}`, name: draft.name } })))
+      return
+    }
+    if (index >= 0) {
+      sets[index] = { ...sets[index], items: draft.items }
+    } else {
+      sets.push({ id: createCustomSetId(), ...draft })
+    }
+  })
+  return { sets, errors }
+}
+
+// Parses the stored form of custom sets, dropping anything that no longer validates.
+export function sanitizeCustomSets(v: unknown): CustomSet[] {
+  if (!Array.isArray(v)) return []
+  const sets: CustomSet[] = []
+  for (const raw of v) {
+    const draft = toDraft(raw)
+    if (!draft || !isRecord(raw) || typeof raw.id !== 'string') continue
+    if (validateCustomSet(draft, sets).length > 0) continue
+    sets.push({ id: raw.id, ...draft })
+  }
+  return sets
+}
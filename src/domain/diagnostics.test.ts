@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { buildMissBreakdown, classifyMiss } from './diagnostics'
+import type { KeystrokeEvent } from './events'
+import { buildCharIndex, DEFAULT_KEYMAP_JSON, parseKeymapJson } from './keymap'
+import type { HostLayout } from './layout'
+import { JIS_LAYOUT, US_LAYOUT } from './layout'
+
+const keymap = parseKeymapJson(DEFAULT_KEYMAP_JSON).keymap!
+const charIndex = buildCharIndex(keymap)
+
+function miss(expected: string, actual: string, code: string, shift = false): Pick<KeystrokeEvent, 'expected' | 'actual' | 'code' | 'shift'> {
+  return { expected, actual, code, shift }
+}
+
+function classify(e: ReturnType<typeof miss>, layout: HostLayout = US_LAYOUT) {
+  return classifyMiss(e, layout, keymap, charIndex)
+}
+
+describe('classifyMiss', () => {
+  it('spots the right key with Shift the wrong way round, on the OS layout in use', () => {
+    expect(classify(miss('(', '9', 'Digit9'))).toBe('shift')
+    expect(classify(miss('a', 'A', 'KeyA', true))).toBe('shift')
+    expect(classify(miss('@', '`', 'BracketLeft', true), JIS_LAYOUT)).toBe('shift')
+    expect(classify(miss('@', '2', 'Digit2'))).toBe('shift')
+    // Shift + 2 types `"` on JIS.
+    expect(classify(miss('@', '2', 'Digit2'), JIS_LAYOUT)).not.toBe('shift')
+  })
+
+  it('spots the board key of the expected character on another layer', () => {
+    // `!` is on Lower over the key that types `q` on Base.
+    expect(classify(miss('!', 'q', 'KeyQ'))).toBe('layer')
+    // `1` is on Raise, over the same key.
+    expect(classify(miss('1', 'q', 'KeyQ'))).toBe('layer')
+  })
+
+  it('spots neighbours on the OS layout or on the board', () => {
+    expect(classify(miss('f', 'g', 'KeyG'))).toBe('adjacent')
+    // W and A do not touch on a staggered keyboard, but do on the ortholinear board.
+    expect(classify(miss('w', 'a', 'KeyA'))).toBe('adjacent')
+    expect(classify(miss('a', 'p', 'KeyP'))).toBe('other')
+  })
+})
+
+describe('buildMissBreakdown', () => {
+  it('classifies the wrong characters only, most missed first', () => {
+    const base = { t: 0, key: '', location: 0, mode: 'single' as const, target: '', correct: false }
+    const events: KeystrokeEvent[] = [
+      { ...base, ...miss('(', '9', 'Digit9') },
+      { ...base, ...miss('f', 'g', 'KeyG') },
+      { ...base, ...miss('(', '8', 'Digit8') },
+      { ...base, ...miss('(', '(', 'Digit9', true), correct: true },
+      { ...base, ...miss('f', '', 'Backspace') },
+      { ...base, ...miss('', 'x', 'KeyX') },
+    ]
+    const breakdown = buildMissBreakdown(events, US_LAYOUT, keymap, charIndex)
+    expect(breakdown.total).toBe(3)
+    expect(breakdown.counts).toEqual({ shift: 1, layer: 0, adjacent: 2, other: 0 })
+    expect(breakdown.byExpected.map(row => [row.expected, row.total])).toEqual([['(', 2], ['f', 1]])
+  })
+})
@@ -0,0 +1,97 @@
+import type { KeystrokeEvent } from './events'
+import type { KeyBinding, Keymap } from './keymap'
+import { shiftedChar } from './keymap'
+import type { HostLayout } from './layout'
+import { isAdjacentCode, layoutChar, physicalKeyOf } from './layout'
+
+// Why a key was wrong:
+// - shift: the key that types the expected character, with Shift the wrong way round
+// - layer: the board key of the expected character, but on another layer
+// - adjacent: a key next to the right one (on the OS layout or on the board)
+// - other: anything else
+export type MissKind = 'shift' | 'layer' | 'adjacent' | 'other'
+
+export const MISS_KINDS: readonly MissKind[] = ['shift', 'layer', 'adjacent', 'other']
+
+export type MissCounts = Record<MissKind, number>
+
+export type MissBreakdownRow = {
+  expected: string
+  total: number
+  counts: MissCounts
+}
+
+export type MissBreakdown = {
+  total: number
+  counts: MissCounts
+  // Characters with the most misses first.
+  byExpected: MissBreakdownRow[]
+}
+
+function emptyCounts(): MissCounts {
+  return { shift: 0, layer: 0, adjacent: 0, other: 0 }
+}
+
+// What the key at `index` types on `layer` (plain and shifted); transparent keys fall through.
+function charsAt(keymap: Keymap, layer: number, index: number): string[] {
+  for (let l = layer; l >= 0; l--) {
+    const action = keymap.layers[l]?.keys[index]?.action
+    if (!action || action.type === 'transparent') continue
+    if (action.type !== 'char') return []
+    const shifted = shiftedChar(action.char)
+    return shifted == null ? [action.char] : [action.char, shifted]
+  }
+  return []
+}
+
+function isWrongLayer(keymap: Keymap, binding: KeyBinding, actual: string): boolean {
+  return keymap.layers.some((_, layer) => (
+    layer !== binding.layer && charsAt(keymap, layer, binding.position.index).includes(actual)
+  ))
+}
+
+function isBoardNeighbour(a: KeyBinding, b: KeyBinding): boolean {
+  if (a.layer !== b.layer || a.position.index === b.position.index) return false
+  return Math.abs(a.position.row - b.position.row) <= 1 && Math.abs(a.position.col - b.position.col) <= 1
+}
+
+export function classifyMiss(
+  e: Pick<KeystrokeEvent, 'expected' | 'actual' | 'code' | 'shift'>,
+  layout: HostLayout,
+  keymap: Keymap,
+  charIndex: Map<string, KeyBinding>,
+): MissKind {
+  if (layoutChar(layout, e.code, !e.shift) === e.expected) return 'shift'
+
+  const expectedBinding = charIndex.get(e.expected)
+  const actualBinding = charIndex.get(e.actual)
+  if (expectedBinding && isWrongLayer(keymap, expectedBinding, e.actual)) return 'layer'
+
+  const expectedKey = physicalKeyOf(layout, e.expected)
+  if (expectedKey && isAdjacentCode(layout, expectedKey.code, e.code)) return 'adjacent'
+  if (expectedBinding && actualBinding && isBoardNeighbour(expectedBinding, actualBinding)) return 'adjacent'
+  return 'other'
+}
+
+// Only wrong characters are classified; Backspace and keys on top of an uncorrected mistake are not.
+export function buildMissBreakdown(
+  events: readonly KeystrokeEvent[],
+  layout: HostLayout,
+  keymap: Keymap,
+  charIndex: Map<string, KeyBinding>,
+): MissBreakdown {
+  const counts = emptyCounts()
+  const rows = new Map<string, MissBreakdownRow>()
+  let total = 0
+  for (const e of events) {
+    if (e.correct || e.actual === '' || e.expected === '') continue
+    const kind = classifyMiss(e, layout, keymap, charIndex)
+    counts[kind] += 1
+    total += 1
+    const row = rows.get(e.expected) ?? { expected: e.expected, total: 0, counts: emptyCounts() }
+    row.counts[kind] += 1
+    row.total += 1
+    rows.set(e.expected, row)
+  }
+  return { total, counts, byExpected: [...rows.values()].sort((a, b) => b.total - a.total) }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import type { DigitsSettings, ExtendedDigitsFormat } from './digits'
+import {
+  DEFAULT_DIGITS_SETTINGS,
+  DIGITS_FORMATS,
+  digitsCharKey,
+  digitsFormatOf,
+  digitsLengthKey,
+  digitsPositionKey,
+  enabledDigitsFormats,
+  generateDigitsTarget,
+  isDigitsTarget,
+  normalizeDigitsSettings,
+  sanitizeDigitsSettings,
+} from './digits'
+import { createSeededRandom } from './random'
+
+// Only `format` enabled, at its widest length range.
+function only(format: ExtendedDigitsFormat): DigitsSettings {
+  const info = DIGITS_FORMATS.find(f => f.id === format)!
+  return {
+    ...DEFAULT_DIGITS_SETTINGS,
+    enablePlain: false,
+    formats: { ...DEFAULT_DIGITS_SETTINGS.formats, [format]: { enabled: true, minLength: info.minBound, maxLength: info.maxBound } },
+  }
+}
+
+describe('generateDigitsTarget', () => {
+  it.each(DIGITS_FORMATS.map(f => f.id))('%s: every target is recognized as its format', (format) => {
+    const { random } = createSeededRandom(1)
+    for (let i = 0; i < 200; i++) {
+      const target = generateDigitsTarget(only(format), random)
+      expect(digitsFormatOf(target), target).toBe(format)
+      expect(isDigitsTarget(target), target).toBe(true)
+    }
+  })
+
+  it('plain: integers within the digit range without a leading zero, signs and decimals when enabled', () => {
+    const { random } = createSeededRandom(2)
+    const settings: DigitsSettings = { ...DEFAULT_DIGITS_SETTINGS, minIntDigits: 2, maxIntDigits: 4, enableSign: true, enableDecimal: true, minFracDigits: 1, maxFracDigits: 2 }
+    const targets = Array.from({ length: 300 }, () => generateDigitsTarget(settings, random))
+    for (const target of targets) {
+      expect(target).toMatch(/^[+-]?(\d{2,4}\.\d{1,2}|[1-9]\d{1,3})$/)
+      expect(digitsFormatOf(target)).toBe('plain')
+    }
+    expect(targets.some(t => /^[+-]/.test(t))).toBe(true)
+    expect(targets.some(t => t.includes('.'))).toBe(true)
+  })
+
+  it('picks among every enabled format', () => {
+    const { random } = createSeededRandom(3)
+    const settings = { ...only('hex'), enablePlain: true }
+    const formats = new Set(Array.from({ length: 100 }, () => digitsFormatOf(generateDigitsTarget(settings, random))))
+    expect([...formats].sort()).toEqual(['hex', 'plain'])
+  })
+})
+
+describe('digits stats keys', () => {
+  it('tells signs, decimal points and other characters apart', () => {
+    expect(['-', '1', '.', '5'].map((_, i) => digitsCharKey('-1.5', i))).toEqual(['sign:-', 'digit:1', 'point:.', 'digit:5'])
+    expect(digitsCharKey('1e-9', 2)).toBe('sign:-')
+    expect(digitsCharKey('v1.2', 2)).toBe('char:.')
+    expect(digitsCharKey('0xFF', 1)).toBe('char:x')
+  })
+
+  it('buckets targets by length and keys by position', () => {
+    expect(['1', '1234', '1234567', '1234567890', '1'.repeat(15)].map(digitsLengthKey))
+      .toEqual(['length:1-3', 'length:4-6', 'length:7-9', 'length:10-14', 'length:15+'])
+    expect([0, 1, 2].map(i => digitsPositionKey('123', i))).toEqual(['position:first', 'position:middle', 'position:last'])
+  })
+})
+
+describe('digits settings', () => {
+  it('keeps plain numbers on when every format is turned off', () => {
+    const normalized = normalizeDigitsSettings({ ...only('hex'), formats: DEFAULT_DIGITS_SETTINGS.formats })
+    expect(enabledDigitsFormats(normalized)).toEqual(['plain'])
+    expect(enabledDigitsFormats(normalizeDigitsSettings(only('hex')))).toEqual(['hex'])
+  })
+
+  it('orders and clamps the length ranges', () => {
+    const normalized = normalizeDigitsSettings({
+      ...DEFAULT_DIGITS_SETTINGS,
+      minIntDigits: 9,
+      maxIntDigits: 2,
+      formats: { ...DEFAULT_DIGITS_SETTINGS.formats, hex: { enabled: true, minLength: 40, maxLength: 0 } },
+    })
+    expect([normalized.minIntDigits, normalized.maxIntDigits]).toEqual([2, 2])
+    expect(normalized.formats.hex).toEqual({ enabled: true, minLength: 1, maxLength: 16 })
+  })
+
+  it('reads settings stored before the extended formats, and rejects broken ones', () => {
+    const { minIntDigits, maxIntDigits, enableSign, enableDecimal, minFracDigits, maxFracDigits } = DEFAULT_DIGITS_SETTINGS
+    const old = { minIntDigits, maxIntDigits, enableSign, enableDecimal, minFracDigits, maxFracDigits }
+    expect(sanitizeDigitsSettings(old)).toEqual(DEFAULT_DIGITS_SETTINGS)
+    expect(sanitizeDigitsSettings({ ...old, minIntDigits: 0 })).toBeNull()
+    expect(sanitizeDigitsSettings({ ...old, enablePlain: false })).toEqual(DEFAULT_DIGITS_SETTINGS)
+  })
+})
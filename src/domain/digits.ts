@@ -1,49 +1,328 @@
-import { clampInt, randomInt } from './random'
+import type { Messages } from './i18n'
+import { clampInt, pickRandom, randomInt } from './random'
+import { isRecord } from './validation'
+
+// Number formats beyond plain integers/decimals. Each has its own length range, whose meaning
+// depends on the format (see `DIGITS_FORMATS`).
+export type ExtendedDigitsFormat =
+  | 'hex'
+  | 'binary'
+  | 'octal'
+  | 'scientific'
+  | 'separated'
+  | 'percent'
+  | 'version'
+  | 'ipv4'
+  | 'datetime'
+
+export type DigitsFormat = 'plain' | ExtendedDigitsFormat
+
+export type DigitsFormatRange = {
+  enabled: boolean
+  minLength: number
+  maxLength: number
+}
 
 export type DigitsSettings = {
+  // Plain integers/decimals, controlled by the fields below.
+  enablePlain: boolean
   minIntDigits: number
   maxIntDigits: number
   enableSign: boolean
   enableDecimal: boolean
   minFracDigits: number
   maxFracDigits: number
+  formats: Record<ExtendedDigitsFormat, DigitsFormatRange>
 }
 
-function buildDigitsString(len: number, opts: { firstNonZero?: boolean } = {}): string {
+export type DigitsFormatInfo = {
+  id: ExtendedDigitsFormat
+  example: string
+  minBound: number
+  maxBound: number
+  defaultMin: number
+  defaultMax: number
+}
+
+export const DIGITS_FORMATS: readonly DigitsFormatInfo[] = [
+  { id: 'hex', example: '0xFF3A', minBound: 1, maxBound: 16, defaultMin: 2, defaultMax: 8 },
+  { id: 'binary', example: '0b1011', minBound: 1, maxBound: 32, defaultMin: 4, defaultMax: 8 },
+  { id: 'octal', example: '0o755', minBound: 1, maxBound: 16, defaultMin: 3, defaultMax: 4 },
+  { id: 'scientific', example: '6.02e23', minBound: 1, maxBound: 10, defaultMin: 1, defaultMax: 4 },
+  { id: 'separated', example: '1_000_000 / 1,234.56', minBound: 4, maxBound: 15, defaultMin: 4, defaultMax: 9 },
+  { id: 'percent', example: '12.5%', minBound: 1, maxBound: 5, defaultMin: 1, defaultMax: 3 },
+  { id: 'version', example: 'v2.10.3', minBound: 2, maxBound: 4, defaultMin: 3, defaultMax: 3 },
+  { id: 'ipv4', example: '192.168.0.1:8080', minBound: 0, maxBound: 5, defaultMin: 0, defaultMax: 4 },
+  { id: 'datetime', example: '2024-03-15T09:41:27Z', minBound: 1, maxBound: 3, defaultMin: 1, defaultMax: 3 },
+]
+
+export const DIGITS_FORMAT_IDS: readonly DigitsFormat[] = ['plain', ...DIGITS_FORMATS.map(f => f.id)]
+
+export const DEFAULT_DIGITS_SETTINGS: DigitsSettings = {
+  enablePlain: true,
+  minIntDigits: 3,
+  maxIntDigits: 7,
+  enableSign: false,
+  enableDecimal: false,
+  minFracDigits: 1,
+  maxFracDigits: 4,
+  formats: Object.fromEntries(DIGITS_FORMATS.map(f => [
+    f.id,
+    { enabled: false, minLength: f.defaultMin, maxLength: f.defaultMax },
+  ])) as Record<ExtendedDigitsFormat, DigitsFormatRange>,
+}
+
+function buildDigitsString(len: number, random: () => number, opts: { firstNonZero?: boolean } = {}): string {
   const n = Math.max(1, Math.trunc(len))
   const chars: string[] = []
   for (let i = 0; i < n; i++) {
-    const digit = (i === 0 && opts.firstNonZero) ? randomInt(1, 9) : randomInt(0, 9)
+    const digit = (i === 0 && opts.firstNonZero) ? randomInt(1, 9, random) : randomInt(0, 9, random)
     chars.push(String(digit))
   }
   return chars.join('')
 }
 
-export function generateDigitsTarget(settings: DigitsSettings): string {
+function buildRadixString(len: number, radix: number, random: () => number): string {
+  let out = ''
+  for (let i = 0; i < len; i++) out += randomInt(0, radix - 1, random).toString(radix).toUpperCase()
+  return out
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+function generatePlain(settings: DigitsSettings, random: () => number): string {
   const minIntDigits = clampInt(settings.minIntDigits, 1, 50)
   const maxIntDigits = clampInt(settings.maxIntDigits, 1, 50)
   const minFracDigits = clampInt(settings.minFracDigits, 1, 50)
   const maxFracDigits = clampInt(settings.maxFracDigits, 1, 50)
 
-  const intLen = randomInt(minIntDigits, maxIntDigits)
+  const intLen = randomInt(minIntDigits, maxIntDigits, random)
 
   const decimalRatio = settings.enableDecimal ? 0.3 : 0
   const signRatio = settings.enableSign ? 0.3 : 0
 
-  const withDecimal = Math.random() < decimalRatio
-  const withSign = Math.random() < signRatio
+  const withDecimal = random() < decimalRatio
+  const withSign = random() < signRatio
 
-  const sign = withSign ? (Math.random() < 0.5 ? '+' : '-') : ''
+  const sign = withSign ? (random() < 0.5 ? '+' : '-') : ''
 
   if (!withDecimal) {
     // Integer: no leading zero.
-    return sign + buildDigitsString(intLen, { firstNonZero: true })
+    return sign + buildDigitsString(intLen, random, { firstNonZero: true })
   }
 
   // Decimal: always `intPart + '.' + fracPart`.
   // Integer part allows leading zero (fully random) per requirement.
-  const intPart = buildDigitsString(intLen)
-  const fracLen = randomInt(minFracDigits, maxFracDigits)
-  const fracPart = buildDigitsString(fracLen)
+  const intPart = buildDigitsString(intLen, random)
+  const fracLen = randomInt(minFracDigits, maxFracDigits, random)
+  const fracPart = buildDigitsString(fracLen, random)
   return sign + intPart + '.' + fracPart
 }
+
+function generateExtended(format: ExtendedDigitsFormat, len: number, random: () => number): string {
+  switch (format) {
+    case 'hex':
+      return '0x' + buildRadixString(len, 16, random)
+    case 'binary':
+      return '0b' + buildRadixString(len, 2, random)
+    case 'octal':
+      return '0o' + buildRadixString(len, 8, random)
+    case 'scientific': {
+      const mantissa = buildDigitsString(1, random, { firstNonZero: true }) + (len > 1 ? '.' + buildDigitsString(len - 1, random) : '')
+      const exponent = (random() < 0.5 ? '-' : '') + String(randomInt(1, 30, random))
+      return `${mantissa}e${exponent}`
+    }
+    case 'separated': {
+      const digits = buildDigitsString(len, random, { firstNonZero: true })
+      const separator = random() < 0.5 ? '_' : ','
+      const head = digits.length % 3 || 3
+      const groups = [digits.slice(0, head)]
+      for (let i = head; i < digits.length; i += 3) groups.push(digits.slice(i, i + 3))
+      const fraction = separator === ',' && random() < 0.5 ? '.' + buildDigitsString(2, random) : ''
+      return groups.join(separator) + fraction
+    }
+    case 'percent': {
+      const int = buildDigitsString(len, random, { firstNonZero: len > 1 })
+      const fraction = random() < 0.5 ? '.' + buildDigitsString(randomInt(1, 2, random), random) : ''
+      return `${int}${fraction}%`
+    }
+    case 'version':
+      return 'v' + Array.from({ length: len }, () => String(randomInt(0, 20, random))).join('.')
+    case 'ipv4': {
+      const octets = [randomInt(1, 223, random), randomInt(0, 255, random), randomInt(0, 255, random), randomInt(1, 254, random)]
+      const port = len > 0 ? ':' + buildDigitsString(len, random, { firstNonZero: true }) : ''
+      return octets.join('.') + port
+    }
+    case 'datetime': {
+      const date = `${randomInt(1990, 2039, random)}-${pad2(randomInt(1, 12, random))}-${pad2(randomInt(1, 28, random))}`
+      if (len < 2) return date
+      const time = `T${pad2(randomInt(0, 23, random))}:${pad2(randomInt(0, 59, random))}`
+      return len < 3 ? date + time : `${date}${time}:${pad2(randomInt(0, 59, random))}Z`
+    }
+  }
+}
+
+export function enabledDigitsFormats(settings: DigitsSettings): DigitsFormat[] {
+  const extended = DIGITS_FORMATS.filter(f => settings.formats[f.id].enabled).map(f => f.id)
+  return settings.enablePlain ? ['plain', ...extended] : extended
+}
+
+export function generateDigitsTarget(settings: DigitsSettings, random: () => number = Math.random): string {
+  const formats = enabledDigitsFormats(settings)
+  // With a single format no random number is spent on the choice, so older drill codes keep their sequence.
+  // Normalized settings always have one (see `normalizeDigitsSettings`).
+  const format = formats.length <= 1 ? (formats[0] ?? 'plain') : pickRandom(formats, random) as DigitsFormat
+  if (format === 'plain') return generatePlain(settings, random)
+  const info = DIGITS_FORMATS.find(f => f.id === format) as DigitsFormatInfo
+  const range = settings.formats[format]
+  const len = randomInt(
+    clampInt(range.minLength, info.minBound, info.maxBound),
+    clampInt(range.maxLength, info.minBound, info.maxBound),
+    random,
+  )
+  return generateExtended(format, len, random)
+}
+
+// Settings that produce only `formats` (e.g. the number formats of a curriculum stage).
+export function digitsSettingsForFormats(base: DigitsSettings, formats: readonly string[]): DigitsSettings {
+  return {
+    ...base,
+    enablePlain: formats.includes('plain'),
+    formats: Object.fromEntries(DIGITS_FORMATS.map(f => [
+      f.id,
+      { ...base.formats[f.id], enabled: formats.includes(f.id) },
+    ])) as Record<ExtendedDigitsFormat, DigitsFormatRange>,
+  }
+}
+
+const FORMAT_PATTERNS: readonly [ExtendedDigitsFormat, RegExp][] = [
+  ['hex', /^0x[0-9A-Fa-f]+$/],
+  ['binary', /^0b[01]+$/],
+  ['octal', /^0o[0-7]+$/],
+  ['scientific', /^\d(\.\d+)?e-?\d+$/],
+  ['separated', /^\d{1,3}([_,]\d{3})+(\.\d+)?$/],
+  ['percent', /^\d+(\.\d+)?%$/],
+  ['version', /^v\d+(\.\d+)+$/],
+  ['ipv4', /^\d{1,3}(\.\d{1,3}){3}(:\d+)?$/],
+  ['datetime', /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}Z)?)?$/],
+]
+
+// The format a digits target was generated in (targets do not carry it).
+export function digitsFormatOf(target: string): DigitsFormat {
+  return FORMAT_PATTERNS.find(([, pattern]) => pattern.test(target))?.[0] ?? 'plain'
+}
+
+export function isDigitsTarget(item: string): boolean {
+  return /^[+-]?\d+(\.\d+)?$/.test(item) || FORMAT_PATTERNS.some(([, pattern]) => pattern.test(item))
+}
+
+// Digits targets are random, so their stats are aggregated instead of kept per target:
+// every key by character (`digit:4`, `sign:-`, `point:.`, `char:x`) and by position in the
+// target (`position:first|middle|last`), and every target by its length (`length:4-6`) and
+// number format (`format:hex`).
+export type DigitsStatGroup = 'digit' | 'sign' | 'point' | 'char' | 'position' | 'length' | 'format'
+
+export type DigitsPosition = 'first' | 'middle' | 'last'
+
+const LENGTH_BUCKETS: readonly [number, number | null][] = [[1, 3], [4, 6], [7, 9], [10, 14], [15, null]]
+
+// Formats whose `.` is a decimal point rather than a separator (versions, addresses).
+const DECIMAL_FORMATS: ReadonlySet<DigitsFormat> = new Set(['plain', 'scientific', 'separated', 'percent'])
+
+export function digitsCharKey(target: string, index: number): string {
+  const ch = target[index]
+  if (/[0-9]/.test(ch)) return `digit:${ch}`
+  // A leading sign, or the sign of an exponent (`1e-9`).
+  if ((ch === '+' || ch === '-') && (index === 0 || /[eE]/.test(target[index - 1]))) return `sign:${ch}`
+  if (ch === '.' && DECIMAL_FORMATS.has(digitsFormatOf(target))) return `point:${ch}`
+  return `char:${ch}`
+}
+
+export function digitsPositionKey(target: string, index: number): string {
+  if (index === 0) return 'position:first'
+  return index === target.length - 1 ? 'position:last' : 'position:middle'
+}
+
+export function digitsLengthKey(target: string): string {
+  const length = target.length
+  const [min, max] = LENGTH_BUCKETS.find(([lo, hi]) => length >= lo && (hi == null || length <= hi)) ?? LENGTH_BUCKETS[0]
+  return max == null ? `length:${min}+` : `length:${min}-${max}`
+}
+
+export function digitsFormatKey(format: DigitsFormat): string {
+  return `format:${format}`
+}
+
+export function digitsStatGroup(key: string): DigitsStatGroup {
+  return key.slice(0, key.indexOf(':')) as DigitsStatGroup
+}
+
+// The part after the group, e.g. `4`, `first` or `4-6`.
+export function digitsStatValue(key: string): string {
+  return key.slice(key.indexOf(':') + 1)
+}
+
+// e.g. `Digit: 4`, `Position: first`, `Length: 4-6 chars`, `Format: Hex`.
+export function digitsStatLabel(m: Messages, key: string): string {
+  const group = digitsStatGroup(key)
+  const value = digitsStatValue(key)
+  const shown = group === 'position' ? m.itemStats.positions[value as DigitsPosition] ?? value
+    : group === 'length' ? m.itemStats.length(value)
+      : group === 'format' ? m.digitsFormats[value as DigitsFormat] ?? value
+        : value
+  return `${m.digitsStatGroups[group] ?? group}: ${shown}`
+}
+
+// Clamps every length and keeps each min <= max. With every format off, plain numbers are turned
+// back on: a target always comes from a format the settings show as enabled.
+export function normalizeDigitsSettings(next: DigitsSettings): DigitsSettings {
+  const normalized: DigitsSettings = {
+    ...next,
+    enablePlain: next.enablePlain || DIGITS_FORMATS.every(f => !next.formats[f.id].enabled),
+    minIntDigits: clampInt(next.minIntDigits, 1, 50),
+    maxIntDigits: clampInt(next.maxIntDigits, 1, 50),
+    minFracDigits: clampInt(next.minFracDigits, 1, 50),
+    maxFracDigits: clampInt(next.maxFracDigits, 1, 50),
+    formats: Object.fromEntries(DIGITS_FORMATS.map(f => {
+      const range = next.formats[f.id]
+      const minLength = clampInt(range.minLength, f.minBound, f.maxBound)
+      const maxLength = clampInt(range.maxLength, f.minBound, f.maxBound)
+      return [f.id, { enabled: range.enabled, minLength: Math.min(minLength, maxLength), maxLength: Math.max(minLength, maxLength) }]
+    })) as Record<ExtendedDigitsFormat, DigitsFormatRange>,
+  }
+  normalized.minIntDigits = Math.min(normalized.minIntDigits, normalized.maxIntDigits)
+  normalized.maxIntDigits = Math.max(normalized.maxIntDigits, normalized.minIntDigits)
+  normalized.minFracDigits = Math.min(normalized.minFracDigits, normalized.maxFracDigits)
+  normalized.maxFracDigits = Math.max(normalized.maxFracDigits, normalized.minFracDigits)
+  return normalized
+}
+
+// Stored or shared settings. Settings from before the extended formats only have the plain fields.
+export function sanitizeDigitsSettings(v: unknown): DigitsSettings | null {
+  if (!isRecord(v)) return null
+  const ints = [v.minIntDigits, v.maxIntDigits, v.minFracDigits, v.maxFracDigits]
+  if (!ints.every(n => Number.isInteger(n) && (n as number) >= 1 && (n as number) <= 50)) return null
+  if (typeof v.enableSign !== 'boolean' || typeof v.enableDecimal !== 'boolean') return null
+  const formats = isRecord(v.formats) ? v.formats : {}
+  return normalizeDigitsSettings({
+    enablePlain: typeof v.enablePlain === 'boolean' ? v.enablePlain : true,
+    minIntDigits: v.minIntDigits as number,
+    maxIntDigits: v.maxIntDigits as number,
+    enableSign: v.enableSign,
+    enableDecimal: v.enableDecimal,
+    minFracDigits: v.minFracDigits as number,
+    maxFracDigits: v.maxFracDigits as number,
+    formats: Object.fromEntries(DIGITS_FORMATS.map(f => {
+      const range = formats[f.id]
+      const fallback = DEFAULT_DIGITS_SETTINGS.formats[f.id]
+      if (!isRecord(range)) return [f.id, fallback]
+      return [f.id, {
+        enabled: typeof range.enabled === 'boolean' ? range.enabled : false,
+        minLength: Number.isInteger(range.minLength) ? range.minLength as number : fallback.minLength,
+        maxLength: Number.isInteger(range.maxLength) ? range.maxLength as number : fallback.maxLength,
+      }]
+    })) as Record<ExtendedDigitsFormat, DigitsFormatRange>,
+  })
+}
@@ -0,0 +1,61 @@
+import '../modes'
+import { describe, expect, it } from 'vitest'
+import type { DrillSpec } from './drill'
+import { decodeDrillCode, drillUrl, encodeDrillCode } from './drill'
+import { defaultGeneratorSettings } from './modes'
+
+// A code for `fields` as written by hand (all ASCII, so plain base64 works).
+function rawCode(fields: Record<string, unknown>): string {
+  return btoa(JSON.stringify(fields))
+}
+
+describe('drill codes', () => {
+  it('round-trips a pool drill, including non-ASCII items', () => {
+    const drill: DrillSpec = { seed: 42, mode: 'combo', items: ['=>', '→', '!='], generatorSettings: defaultGeneratorSettings() }
+    const code = encodeDrillCode(drill)
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeDrillCode(` ${code}\n`)).toEqual({ drill, errors: [] })
+  })
+
+  it('keeps the settings of generated modes', () => {
+    const defaults = defaultGeneratorSettings()
+    const digits = { ...defaults.digits, enableSign: true, minIntDigits: 1, maxIntDigits: 2 }
+    const drill: DrillSpec = { seed: 0xffffffff, mode: 'digits', items: [], generatorSettings: { ...defaults, digits } }
+    expect(decodeDrillCode(encodeDrillCode(drill)).drill?.generatorSettings.digits).toEqual(digits)
+  })
+
+  it('leaves out the settings of pool modes', () => {
+    const generatorSettings = { ...defaultGeneratorSettings(), single: { enabled: { '(': false } } }
+    const code = encodeDrillCode({ seed: 1, mode: 'single', items: [')'], generatorSettings })
+    expect(JSON.parse(atob(code.replace(/-/g, '+').replace(/_/g, '/')))).toMatchObject({ settings: {} })
+    expect(decodeDrillCode(code).drill?.generatorSettings).toEqual(defaultGeneratorSettings())
+  })
+
+  it('reads version 1 codes', () => {
+    const brackets = { ...defaultGeneratorSettings().brackets, maxDepth: 1, autoClose: true }
+    const { drill } = decodeDrillCode(rawCode({ version: 1, seed: 5, mode: 'brackets', items: [], brackets }))
+    expect(drill?.generatorSettings.brackets).toEqual(brackets)
+  })
+
+  it('rejects text that is not a drill code', () => {
+    expect(decodeDrillCode('not a code')).toEqual({ drill: null, errors: [{ code: 'notDrillCode' }] })
+    expect(decodeDrillCode(btoa('[1]'))).toEqual({ drill: null, errors: [{ code: 'notDrillCode' }] })
+  })
+
+  it('reports every problem with the fields', () => {
+    expect(decodeDrillCode(rawCode({ version: 3, seed: -1, mode: 'chords', items: [''], settings: {} })).errors).toEqual([
+      { code: 'unsupportedVersion', version: '3' },
+      { code: 'invalidSeed' },
+      { code: 'invalidMode', value: 'chords' },
+      { code: 'invalidItems' },
+    ])
+    expect(decodeDrillCode(rawCode({ version: 2, seed: 1, mode: 'single', items: [], settings: { digits: 'x' } })).errors).toEqual([
+      { code: 'noItems' },
+      { code: 'invalidSettings', mode: 'digits' },
+    ])
+  })
+
+  it('builds a share URL on the current page', () => {
+    expect(drillUrl('a-b_c', { origin: 'https://example.com', pathname: '/trainer/' })).toBe('https://example.com/trainer/?drill=a-b_c')
+  })
+})
@@ -0,0 +1,81 @@
+import type { GeneratorSettings, Mode } from './modes'
+import { isGeneratedMode, MODES, sanitizeGeneratorSettings } from './modes'
+import type { ValidationError } from './validation'
+import { isRecord } from './validation'
+
+// A drill pins everything that decides the target sequence, so anyone with the code
+// practices exactly the same targets in the same order.
+export type DrillSpec = {
+  seed: number
+  mode: Mode
+  // The pool, in order (empty for generated modes).
+  items: string[]
+  generatorSettings: GeneratorSettings
+}
+
+// Version 1 had `digits` and `brackets` fields; version 2 keeps the settings of the drill's mode in `settings`.
+const DRILL_FORMAT_VERSION = 2
+
+export const DRILL_URL_PARAM = 'drill'
+
+
+// base64url of UTF-8, so codes survive URLs and non-ASCII items.
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)))
+}
+
+export function encodeDrillCode(drill: DrillSpec): string {
+  return toBase64Url(JSON.stringify({
+    version: DRILL_FORMAT_VERSION,
+    seed: drill.seed,
+    mode: drill.mode,
+    items: drill.items,
+    // The settings of pool modes only pick the items, which the code lists already.
+    settings: isGeneratedMode(drill.mode) ? { [drill.mode]: drill.generatorSettings[drill.mode] } : {},
+  }))
+}
+
+export function decodeDrillCode(code: string): { drill: DrillSpec | null, errors: ValidationError[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fromBase64Url(code.trim()))
+  } catch {
+    return { drill: null, errors: [{ code: 'notDrillCode' }] }
+  }
+  if (!isRecord(parsed)) return { drill: null, errors: [{ code: 'notDrillCode' }] }
+
+  const errors: ValidationError[] = []
+  if (parsed.version !== 1 && parsed.version !== DRILL_FORMAT_VERSION) errors.push({ code: 'unsupportedVersion', version: String(parsed.version) })
+  const seed = parsed.seed
+  if (!Number.isInteger(seed) || (seed as number) < 0 || (seed as number) > 0xffffffff) errors.push({ code: 'invalidSeed' })
+  const mode = MODES.find(m => m === parsed.mode)
+  if (!mode) errors.push({ code: 'invalidMode', value: String(parsed.mode) })
+  const items = Array.isArray(parsed.items) && parsed.items.every(item => typeof item === 'string' && item !== '')
+    ? parsed.items as string[]
+    : null
+  if (!items) errors.push({ code: 'invalidItems' })
+  else if (mode && !isGeneratedMode(mode) && items.length === 0) errors.push({ code: 'noItems' })
+  // Modes without settings in the code use their defaults.
+  const { settings: generatorSettings, invalid } = sanitizeGeneratorSettings(
+    parsed.version === 1 ? { digits: parsed.digits, brackets: parsed.brackets } : parsed.settings,
+  )
+  for (const invalidMode of invalid) errors.push({ code: 'invalidSettings', mode: invalidMode })
+
+  if (errors.length > 0 || !mode || !items) return { drill: null, errors }
+  return { drill: { seed: seed as number, mode, items, generatorSettings }, errors: [] }
+}
+
+export function drillUrl(code: string, location: { origin: string, pathname: string }): string {
+  return `${location.origin}${location.pathname}?${DRILL_URL_PARAM}=${encodeURIComponent(code)}`
+}
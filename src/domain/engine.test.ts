@@ -0,0 +1,496 @@
+import '../modes'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DEFAULT_BRACKET_SETTINGS, isClosingBracket } from './brackets'
+import type { EngineConfig, EngineDeps, EngineEvent, EngineState } from './engine'
+import { emptyLifetimeStats, engineReducer, initEngineState } from './engine'
+import { buildCharIndex, DEFAULT_KEYMAP_JSON, parseKeymapJson } from './keymap'
+import type { GeneratorSettings } from './modes'
+import { defaultGeneratorSettings } from './modes'
+import { DEFAULT_SCHEDULER_SETTINGS } from './scheduler'
+import { COUNTDOWN_MS, DEFAULT_SESSION_CONFIG } from './session'
+import { DEFAULT_STREAM_SETTINGS } from './stream'
+
+// Monotonic clock moved by hand; the wall clock runs alongside it.
+let clock = 0
+const WALL_START = 1_700_000_000_000
+
+// Random numbers handed out in turn (the last one repeats).
+function sequence(...values: number[]): () => number {
+  let i = 0
+  return () => values[Math.min(i++, values.length - 1)]
+}
+
+function fakeDeps(random: () => number = () => 0): EngineDeps {
+  return { now: () => clock, wallNow: () => WALL_START + clock, random }
+}
+
+// Three-digit integers, so digits targets are easy to type out.
+function generatorSettings(patch: Partial<GeneratorSettings> = {}): GeneratorSettings {
+  const defaults = defaultGeneratorSettings()
+  return { ...defaults, digits: { ...defaults.digits, minIntDigits: 3, maxIntDigits: 3 }, ...patch }
+}
+
+function config(patch: Partial<EngineConfig> = {}): EngineConfig {
+  return {
+    mode: 'combo',
+    pool: ['ab'],
+    generatorSettings: generatorSettings(),
+    schedulerSettings: DEFAULT_SCHEDULER_SETTINGS,
+    sessionConfig: DEFAULT_SESSION_CONFIG,
+    errorPolicy: 'reset',
+    streamSettings: DEFAULT_STREAM_SETTINGS,
+    charIndex: new Map(),
+    seed: null,
+    ...patch,
+  }
+}
+
+function press(key: string): EngineEvent {
+  return { type: 'keydown', key, code: '', shift: false, location: 0 }
+}
+
+// Each key 100 ms after the previous one.
+function type(state: EngineState, keys: string[], deps: EngineDeps): EngineState {
+  return keys.reduce((s, key) => {
+    clock += 100
+    return engineReducer(s, press(key), deps)
+  }, state)
+}
+
+beforeEach(() => {
+  clock = 0
+})
+
+describe('matching', () => {
+  it('extends the prefix with each correct key and completes the target on the last one', () => {
+    const deps = fakeDeps()
+    let state = initEngineState(config(), deps)
+    expect(state.target).toBe('ab')
+
+    state = type(state, ['a'], deps)
+    expect(state.progress).toBe('a')
+    expect(state.typed).toBe('a')
+    expect(state.session.correct).toBe(0)
+
+    state = type(state, ['b'], deps)
+    expect(state.progress).toBe('')
+    expect(state.typed).toBe('')
+    expect(state.session).toMatchObject({ attempts: 1, correct: 1, miss: 0, keystrokes: 2, lastTimeMs: 200, lastSplits: [100, 100] })
+    expect(state.session.targetTimes).toEqual([{ item: 'ab', ms: 200, atMs: 200 }])
+  })
+
+  it('ignores keys that type nothing', () => {
+    const deps = fakeDeps()
+    const state = initEngineState(config(), deps)
+    expect(engineReducer(state, press('Shift'), deps)).toBe(state)
+  })
+
+  it('logs every keystroke with what was expected', () => {
+    const deps = fakeDeps()
+    const state = type(initEngineState(config(), deps), ['x', 'a'], deps)
+    expect(state.events.map(e => [e.expected, e.actual, e.correct])).toEqual([['a', 'x', false], ['a', 'a', true]])
+  })
+})
+
+describe('error policies', () => {
+  it('reset: a wrong key is one missed attempt and the input starts over', () => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config({ errorPolicy: 'reset' }), deps), ['a', 'x'], deps)
+    expect(state.progress).toBe('')
+    expect(state.typed).toBe('ax')
+    expect(state.session).toMatchObject({ attempts: 1, correct: 0, miss: 1 })
+
+    state = type(state, ['a', 'b'], deps)
+    expect(state.session).toMatchObject({ attempts: 2, correct: 1, miss: 1 })
+  })
+
+  it('stop: the wrong key is not typed and the target waits for the right one', () => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config({ errorPolicy: 'stop' }), deps), ['a', 'x', 'y'], deps)
+    expect(state.progress).toBe('a')
+    expect(state.session).toMatchObject({ attempts: 2, correct: 0, miss: 2 })
+
+    state = type(state, ['b'], deps)
+    expect(state.session).toMatchObject({ attempts: 3, correct: 1, miss: 2 })
+  })
+
+  it('backspace: wrong input has to be deleted, and keys typed on top of it are not more misses', () => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config({ errorPolicy: 'backspace' }), deps), ['a', 'x', 'y'], deps)
+    expect(state.progress).toBe('a')
+    expect(state.pendingErrors).toBe('xy')
+    expect(state.session).toMatchObject({ attempts: 1, miss: 1, keystrokes: 3 })
+
+    // The right key does not count while the mistake is still there.
+    state = type(state, ['b'], deps)
+    expect(state.pendingErrors).toBe('xyb')
+    expect(state.session.correct).toBe(0)
+
+    state = type(state, ['Backspace', 'Backspace', 'Backspace'], deps)
+    expect(state.pendingErrors).toBe('')
+    expect(state.progress).toBe('a')
+    expect(state.session.backspace).toBe(3)
+
+    state = type(state, ['b'], deps)
+    expect(state.session).toMatchObject({ attempts: 2, correct: 1, miss: 1 })
+  })
+
+  it('skip: the target counts as wrong and the next one comes up', () => {
+    // The session id, the first target, then the one after it.
+    const deps = fakeDeps(sequence(0, 0, 0.6))
+    let state = initEngineState(config({ errorPolicy: 'skip', pool: ['ab', 'cd'] }), deps)
+    expect(state.target).toBe('ab')
+
+    state = type(state, ['a', 'x'], deps)
+    expect(state.target).toBe('cd')
+    expect(state.progress).toBe('')
+    expect(state.session).toMatchObject({ attempts: 1, correct: 0, miss: 1 })
+    expect(state.stats.modeStats.combo.ab).toMatchObject({ attempts: 1, correct: 0 })
+  })
+
+  it.each(['reset', 'stop'] as const)('%s: Backspace deletes the last correctly typed character', (errorPolicy) => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config({ errorPolicy, pool: ['abc'] }), deps), ['a', 'b', 'Backspace'], deps)
+    expect(state.progress).toBe('a')
+    expect(state.session).toMatchObject({ backspace: 1, miss: 0 })
+
+    state = type(state, ['b', 'c'], deps)
+    expect(state.session).toMatchObject({ attempts: 1, correct: 1 })
+  })
+
+  it('keeps the matched part of a snippet line and scores it per character', () => {
+    const deps = fakeDeps()
+    const state = type(initEngineState(config({ mode: 'snippet', pool: ['a;'], errorPolicy: 'stop' }), deps), ['a', 'x', ';'], deps)
+    expect(state.session).toMatchObject({ attempts: 2, correct: 1, miss: 1 })
+    expect(state.stats.modeStats.snippet[';']).toMatchObject({ attempts: 2, correct: 1 })
+    expect(state.stats.modeStats.snippet['class:symbol']).toMatchObject({ attempts: 2, correct: 1 })
+    expect(state.stats.modeStats.combo).toEqual({})
+  })
+})
+
+describe('digits mode', () => {
+  it('shows the input buffer, and Backspace deletes correctly typed digits', () => {
+    const deps = fakeDeps()
+    let state = initEngineState(config({ mode: 'digits', pool: [], errorPolicy: 'stop' }), deps)
+    expect(state.target).toBe('100')
+
+    state = type(state, ['1', '9'], deps)
+    // Only the input is shown, not the rejected key.
+    expect(state.typed).toBe('1')
+    expect(state.progress).toBe('1')
+    expect(state.session.miss).toBe(1)
+
+    state = type(state, ['Backspace'], deps)
+    expect(state.progress).toBe('')
+    expect(state.typed).toBe('')
+    expect(state.session.backspace).toBe(1)
+
+    state = type(state, ['1', '0', '0'], deps)
+    expect(state.session).toMatchObject({ attempts: 2, correct: 1, miss: 1, backspace: 1 })
+  })
+
+  it('deletes uncorrected input first under the backspace policy', () => {
+    const deps = fakeDeps()
+    let state = initEngineState(config({ mode: 'digits', pool: [], errorPolicy: 'backspace' }), deps)
+
+    state = type(state, ['1', '9'], deps)
+    expect(state.typed).toBe('19')
+
+    state = type(state, ['Backspace'], deps)
+    expect(state.typed).toBe('1')
+    expect(state.progress).toBe('1')
+  })
+})
+
+describe('digits stats', () => {
+  it('count keys by character and position, and targets by length and format', () => {
+    const deps = fakeDeps()
+    const state = type(initEngineState(config({ mode: 'digits', pool: [], errorPolicy: 'stop' }), deps), ['1', '0', '0'], deps)
+    const { digits } = state.stats.modeStats
+    expect(digits['digit:0']).toMatchObject({ attempts: 2, correct: 2 })
+    expect(digits['position:first']).toMatchObject({ attempts: 1, correct: 1 })
+    expect(digits['position:last']).toMatchObject({ attempts: 1, correct: 1 })
+    expect(digits['length:1-3']).toMatchObject({ attempts: 1, correct: 1 })
+    expect(digits['100']).toBeUndefined()
+    expect(digits['format:plain']).toMatchObject({ attempts: 1, correct: 1 })
+    // Sessions keep the per-target keys only.
+    expect(Object.keys(state.session.itemDeltas).sort()).toEqual(['format:plain', 'length:1-3'])
+  })
+})
+
+describe('brackets mode', () => {
+  function firstClosing(target: string): number {
+    return Array.from(target).findIndex(isClosingBracket)
+  }
+
+  it('steps over auto-closed brackets with Tab as if they were typed', () => {
+    const deps = fakeDeps()
+    const brackets = { ...DEFAULT_BRACKET_SETTINGS, autoClose: true }
+    let state = initEngineState(config({ mode: 'brackets', pool: [], errorPolicy: 'stop', generatorSettings: generatorSettings({ brackets }) }), deps)
+    const { target } = state
+    const closing = target[firstClosing(target)]
+
+    state = type(state, Array.from(target, ch => isClosingBracket(ch) ? 'Tab' : ch), deps)
+    expect(state.session).toMatchObject({ attempts: 1, correct: 1, miss: 0 })
+    expect(state.stats.modeStats.brackets[`${closing} close`].correct).toBeGreaterThan(0)
+  })
+
+  it('ignores Tab without auto-close', () => {
+    const deps = fakeDeps()
+    let state = initEngineState(config({ mode: 'brackets', pool: [], errorPolicy: 'stop' }), deps)
+    state = type(state, Array.from(state.target.slice(0, firstClosing(state.target))), deps)
+    expect(type(state, ['Tab'], deps)).toBe(state)
+  })
+})
+
+describe('stream mode', () => {
+  const streamSettings = { enabled: true, lookAhead: 2, spaces: true }
+  // The session id, then the targets ab, cd, ab, cd, …
+  const alternating = () => sequence(0, 0, 0.6, 0, 0.6)
+
+  it('shows the queued targets in order and tops the queue up', () => {
+    const deps = fakeDeps(alternating())
+    let state = initEngineState(config({ pool: ['ab', 'cd'], streamSettings }), deps)
+    expect([state.target, ...state.queue]).toEqual(['ab', 'cd', 'ab'])
+
+    state = type(state, ['a', 'b', ' '], deps)
+    expect([state.target, ...state.queue]).toEqual(['cd', 'ab', 'cd'])
+  })
+
+  it('asks for the separator between targets, and a wrong key there is a miss', () => {
+    const deps = fakeDeps(alternating())
+    let state = type(initEngineState(config({ pool: ['ab', 'cd'], streamSettings }), deps), ['a', 'b'], deps)
+    expect(state.separatorPending).toBe(true)
+
+    state = type(state, ['c'], deps)
+    expect(state.separatorPending).toBe(true)
+    expect(state.session).toMatchObject({ attempts: 2, correct: 1, miss: 1 })
+
+    state = type(state, [' ', 'c', 'd'], deps)
+    // The next target is timed from the separator.
+    expect(state.session).toMatchObject({ correct: 2, lastTimeMs: 200 })
+  })
+
+  it('goes straight on to the next target without spaces', () => {
+    const deps = fakeDeps(alternating())
+    const state = type(initEngineState(config({ pool: ['ab', 'cd'], streamSettings: { ...streamSettings, spaces: false } }), deps), ['a', 'b', 'c', 'd'], deps)
+    expect(state.separatorPending).toBe(false)
+    expect(state.session).toMatchObject({ attempts: 2, correct: 2 })
+  })
+})
+
+describe('stats', () => {
+  it('counts completed and missed targets in the lifetime and session stats', () => {
+    const deps = fakeDeps()
+    const state = type(initEngineState(config(), deps), ['x', 'a', 'b'], deps)
+    // Timed from when the target was shown, the miss included.
+    expect(state.stats.modeStats.combo.ab).toMatchObject({ attempts: 2, correct: 1, totalMs: 300, streak: 1 })
+    expect(state.session.itemDeltas).toEqual(state.stats.modeStats.combo)
+    expect(state.stats.modeStats.single).toEqual({})
+  })
+
+  it('times the first key of a target apart from the keys that follow it', () => {
+    const deps = fakeDeps()
+    const state = type(initEngineState(config(), deps), ['a', 'b'], deps)
+    expect(state.stats.firstKeyStats.a).toMatchObject({ attempts: 1, correct: 1, totalMs: 100 })
+    expect(state.stats.bigramStats['a→b']).toMatchObject({ attempts: 1, correct: 1, totalMs: 100 })
+  })
+
+  it('attributes keys to their keymap layer and layer transitions', () => {
+    const deps = fakeDeps()
+    const { keymap } = parseKeymapJson(DEFAULT_KEYMAP_JSON)
+    const charIndex = buildCharIndex(keymap!)
+    const state = type(initEngineState(config({ pool: ['a!'], charIndex }), deps), ['a', '!'], deps)
+    expect(state.stats.layerStats.Base).toMatchObject({ attempts: 1, correct: 1 })
+    expect(state.stats.layerStats.Lower).toMatchObject({ attempts: 1, correct: 1 })
+    expect(state.stats.transitionStats).toEqual({ 'Base→Lower': state.stats.layerStats.Lower })
+  })
+})
+
+describe('session lifecycle', () => {
+  function startCountdown(state: EngineState, deps: EngineDeps): EngineState {
+    const counting = engineReducer(state, press('Enter'), deps)
+    expect(counting.phase).toBe('countdown')
+    clock += COUNTDOWN_MS
+    return engineReducer(counting, { type: 'tick' }, deps)
+  }
+
+  it('fixed: starts after the countdown and finishes on its last target', () => {
+    const deps = fakeDeps()
+    const sessionConfig = { ...DEFAULT_SESSION_CONFIG, kind: 'fixed' as const, targetCount: 2 }
+    let state = initEngineState(config({ sessionConfig }), deps)
+    expect(state.phase).toBe('idle')
+    expect(engineReducer(state, press('a'), deps)).toBe(state)
+
+    state = startCountdown(state, deps)
+    expect(state.phase).toBe('running')
+
+    state = type(state, ['a', 'b', 'a', 'b'], deps)
+    // Keys after the last target are ignored until the results screen shows up.
+    expect(type(state, ['a'], deps)).toBe(state)
+
+    state = engineReducer(state, { type: 'tick' }, deps)
+    expect(state.phase).toBe('finished')
+    expect(state.sessions).toHaveLength(1)
+    expect(state.sessions[0]).toMatchObject({ kind: 'fixed', correct: 2, activeMs: 400 })
+    expect(state.finishedSummary?.session.id).toBe(state.sessions[0].id)
+    expect(state.session.correct).toBe(0)
+  })
+
+  it('sprint: finishes when its time is up, not counting time spent paused', () => {
+    const deps = fakeDeps()
+    const sessionConfig = { ...DEFAULT_SESSION_CONFIG, kind: 'sprint' as const, durationSec: 1 }
+    let state = startCountdown(initEngineState(config({ sessionConfig }), deps), deps)
+
+    state = type(state, ['a', 'b'], deps)
+    state = engineReducer(state, { type: 'togglePause' }, deps)
+    clock += 5000
+    state = engineReducer(engineReducer(state, { type: 'togglePause' }, deps), { type: 'tick' }, deps)
+    expect(state.phase).toBe('running')
+    expect(state.activeMs).toBe(200)
+
+    clock += 800
+    state = engineReducer(state, { type: 'tick' }, deps)
+    expect(state.phase).toBe('finished')
+    expect(state.sessions[0]).toMatchObject({ kind: 'sprint', correct: 1, activeMs: 1000 })
+  })
+
+  it('finishes early on request and starts again from the results screen', () => {
+    const deps = fakeDeps()
+    const sessionConfig = { ...DEFAULT_SESSION_CONFIG, kind: 'fixed' as const, targetCount: 5 }
+    let state = type(startCountdown(initEngineState(config({ sessionConfig }), deps), deps), ['a', 'b'], deps)
+
+    state = engineReducer(state, { type: 'finish' }, deps)
+    expect(state.phase).toBe('finished')
+    expect(state.sessions[0].correct).toBe(1)
+
+    state = engineReducer(state, press('Enter'), deps)
+    expect(state.phase).toBe('countdown')
+    expect(state.finishedSummary).toBeNull()
+  })
+
+  it('reset: records the session and starts a fresh one', () => {
+    const deps = fakeDeps()
+    const state = engineReducer(type(initEngineState(config(), deps), ['a', 'b'], deps), { type: 'reset' }, deps)
+    expect(state.sessions).toHaveLength(1)
+    expect(state.sessions[0]).toMatchObject({ mode: 'combo', correct: 1 })
+    expect(state.session.correct).toBe(0)
+    // Lifetime stats outlive the session.
+    expect(state.stats.modeStats.combo.ab.correct).toBe(1)
+  })
+})
+
+describe('configure', () => {
+  it('changing the mode finishes the session and draws a target for the new mode', () => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config(), deps), ['a', 'b'], deps)
+    state = engineReducer(state, { type: 'configure', config: { mode: 'digits' } }, deps)
+    expect(state.sessions[0]).toMatchObject({ mode: 'combo', correct: 1 })
+    expect(state.session.correct).toBe(0)
+    expect(state.target).toBe('100')
+  })
+
+  it('changing the pool keeps the session and draws from the new pool', () => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config(), deps), ['a', 'b'], deps)
+    state = engineReducer(state, { type: 'configure', config: { pool: ['cd'] } }, deps)
+    expect(state.sessions).toEqual([])
+    expect(state.session.correct).toBe(1)
+    expect(state.target).toBe('cd')
+  })
+
+  it.each([
+    ['session type', { sessionConfig: { ...DEFAULT_SESSION_CONFIG, kind: 'fixed' as const } }],
+    ['seed', { seed: 7 }],
+    ['stream setting', { streamSettings: { ...DEFAULT_STREAM_SETTINGS, enabled: true } }],
+  ])('changing the %s finishes the session', (_, patch: Partial<EngineConfig>) => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config(), deps), ['a', 'b'], deps)
+    state = engineReducer(state, { type: 'configure', config: patch }, deps)
+    expect(state.sessions[0]).toMatchObject({ mode: 'combo', correct: 1 })
+    expect(state.session.correct).toBe(0)
+  })
+
+  it('changing the mode’s settings keeps the session and draws a new target', () => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config({ mode: 'digits', pool: [], errorPolicy: 'stop' }), deps), ['1', '0', '0'], deps)
+    const settings = generatorSettings()
+    const digits = { ...settings.digits, minIntDigits: 5, maxIntDigits: 5 }
+    state = engineReducer(state, { type: 'configure', config: { generatorSettings: { ...settings, digits } } }, deps)
+    expect(state.sessions).toEqual([])
+    expect(state.session.correct).toBe(1)
+    expect(state.target).toBe('10000')
+  })
+
+  it('changing the error policy drops uncorrected input but keeps the target', () => {
+    const deps = fakeDeps()
+    let state = type(initEngineState(config({ errorPolicy: 'backspace' }), deps), ['a', 'x'], deps)
+    state = engineReducer(state, { type: 'configure', config: { errorPolicy: 'stop' } }, deps)
+    expect(state.pendingErrors).toBe('')
+    expect(state.progress).toBe('a')
+    expect(state.sessions).toEqual([])
+  })
+})
+
+describe('seeded drills', () => {
+  // Types the first few targets of a digits drill and lists them.
+  function drill(random: () => number, streamSettings = DEFAULT_STREAM_SETTINGS) {
+    const deps = fakeDeps(random)
+    let state = initEngineState(config({ mode: 'digits', pool: [], errorPolicy: 'stop', streamSettings, seed: 7 }), deps)
+    const targets = [state.target]
+    for (let i = 0; i < 3; i++) {
+      state = type(state, Array.from(state.target), deps)
+      if (state.separatorPending) state = type(state, [' '], deps)
+      targets.push(state.target)
+    }
+    return { state, targets, deps }
+  }
+
+  it('draws the same targets whatever the engine’s randomness says', () => {
+    const first = drill(() => 0)
+    expect(new Set(first.targets).size).toBeGreaterThan(1)
+    expect(drill(() => 0.99).targets).toEqual(first.targets)
+  })
+
+  it('draws the same targets in stream mode', () => {
+    const streamSettings = { ...DEFAULT_STREAM_SETTINGS, enabled: true }
+    expect(drill(() => 0, streamSettings).targets).toEqual(drill(() => 0).targets)
+  })
+
+  it('starts the sequence over with each session', () => {
+    const { state, targets, deps } = drill(() => 0)
+    expect(engineReducer(state, { type: 'reset' }, deps).target).toBe(targets[0])
+  })
+})
+
+describe('stored data', () => {
+  it('load keeps what was gathered before loading finished on top of the stored data', () => {
+    const deps = fakeDeps()
+    const stored = type(initEngineState(config(), deps), ['a', 'b'], deps)
+    let state = type(initEngineState(config(), deps), ['a', 'b'], deps)
+    state = engineReducer(state, { type: 'load', stats: stored.stats, sessions: [], bestRuns: {}, events: stored.events }, deps)
+    expect(state.stats.modeStats.combo.ab).toMatchObject({ attempts: 2, correct: 2 })
+    expect(state.events).toHaveLength(4)
+  })
+
+  it('restore replaces the stored data and the session goes on', () => {
+    const deps = fakeDeps()
+    const stored = type(initEngineState(config({ pool: ['cd'] }), deps), ['c', 'd'], deps)
+    let state = type(initEngineState(config(), deps), ['a', 'b', 'a'], deps)
+    state = engineReducer(state, { type: 'restore', stats: stored.stats, sessions: [], bestRuns: {}, events: stored.events }, deps)
+    expect(state.stats).toEqual(stored.stats)
+    expect(state.events).toEqual(stored.events)
+    expect(state.session.correct).toBe(1)
+    expect(state.progress).toBe('a')
+  })
+
+  it('wipe clears the stats, history and session', () => {
+    const deps = fakeDeps()
+    let state = engineReducer(type(initEngineState(config(), deps), ['a', 'b'], deps), { type: 'reset' }, deps)
+    state = engineReducer(state, { type: 'wipe' }, deps)
+    expect(state.stats).toEqual(emptyLifetimeStats())
+    expect(state.sessions).toEqual([])
+    expect(state.events).toEqual([])
+    expect(state.target).toBe('ab')
+  })
+})
@@ -0,0 +1,732 @@
+import type { ErrorPolicy } from './errorPolicy'
+import type { KeystrokeEvent } from './events'
+import { appendEvent } from './events'
+import type { GhostRun } from './ghost'
+import { mergeBestRuns, recordBestRun } from './ghost'
+import type { SessionRecord, TargetTime } from './history'
+import { appendSession, createSessionId } from './history'
+import type { KeyPress } from './keyboard'
+import { normalizeKey } from './keyboard'
+import type { KeyBinding } from './keymap'
+import { transitionKey } from './keymap'
+import type { GeneratorSettings, Mode } from './modes'
+import { generatorOf, isGeneratedMode, MODES } from './modes'
+import { createSeededRandom } from './random'
+import type { SchedulerSettings } from './scheduler'
+import type { SessionConfig, SessionPhase, SessionSummary } from './session'
+import { COUNTDOWN_MS, isSessionComplete, sessionConfigKey, summarizeSession } from './session'
+import type { Stat } from './stats'
+import { bumpStatRecord, mergeStatRecords } from './stats'
+import type { StreamSettings } from './stream'
+import { sameStreamSettings, STREAM_SEPARATOR, streamQueueLength } from './stream'
+import { nowMs } from './time'
+
+// The trainer without React or the DOM: a state machine driven by `EngineEvent`s.
+// Everything impure (clocks, randomness) comes in through `EngineDeps`.
+
+export type EngineDeps = {
+  // Monotonic clock (ms) for latencies and session timing.
+  now: () => number
+  // Wall clock (epoch ms) for timestamps that are stored.
+  wallNow: () => number
+  random: () => number
+}
+
+export const DEFAULT_ENGINE_DEPS: EngineDeps = {
+  now: nowMs,
+  wallNow: () => Date.now(),
+  random: () => Math.random(),
+}
+
+export type EngineConfig = {
+  mode: Mode
+  // Items to draw targets from (single/combo/snippet; unused for digits and brackets).
+  pool: readonly string[]
+  // Only the current mode's settings are used.
+  generatorSettings: GeneratorSettings
+  schedulerSettings: SchedulerSettings
+  sessionConfig: SessionConfig
+  errorPolicy: ErrorPolicy
+  streamSettings: StreamSettings
+  charIndex: ReadonlyMap<string, KeyBinding>
+  // Drills: targets come from a PRNG seeded with this at every session start, instead of `deps.random`.
+  seed: number | null
+}
+
+// Stats every mode keeps, per keystroke: per keymap layer and per layer transition (`from→to`)
+// between consecutive keys of a target, the time to the first key of a target (per character)
+// and between consecutive keys (per pair `a→b`).
+export type SharedStatKey = 'layerStats' | 'transitionStats' | 'firstKeyStats' | 'bigramStats'
+
+export const SHARED_STAT_KEYS: readonly SharedStatKey[] = ['layerStats', 'transitionStats', 'firstKeyStats', 'bigramStats']
+
+export type LifetimeStats = {
+  // Per mode, under the keys its generator scores (e.g. items for single, `digit:4` or
+  // `length:4-6` for digits; see `TargetGenerator.targetStatKeys`).
+  modeStats: Record<Mode, Record<string, Stat>>
+} & Record<SharedStatKey, Record<string, Stat>>
+
+export type SessionCounters = {
+  id: string
+  // Wall-clock start (epoch ms).
+  startedAt: number
+  attempts: number
+  correct: number
+  miss: number
+  backspace: number
+  keystrokes: number
+  lastTimeMs: number | null
+  // Time to the first key of the last completed target, then each interval between its keys.
+  lastSplits: number[]
+  // Target stats gathered during this session only (see `SessionRecord.itemDeltas`).
+  itemDeltas: Record<string, Stat>
+  targetTimes: TargetTime[]
+}
+
+export type EngineState = {
+  config: EngineConfig
+  phase: SessionPhase
+
+  target: string
+  // Stream mode: the targets after `target`, already drawn (empty otherwise).
+  queue: string[]
+  // Stream mode with spaces: the separator before `target` has not been typed yet.
+  separatorPending: boolean
+  // Where the seeded sequence continues (null without a seed).
+  rngState: number | null
+  // What we show to the user: everything they typed until they solve the current target.
+  typed: string
+  // The correctly typed part of the target.
+  progress: string
+  // `backspace` policy: wrong input after `progress` that has to be deleted first.
+  pendingErrors: string
+  // Time to the first correct key, then between correct keys, for each character of `progress`.
+  splits: number[]
+
+  // `deps.now` readings: when the target was shown, and the last correct key (for per-key latency).
+  shownAt: number
+  lastKeyAt: number
+
+  // Active-time clock: time accumulated before the last pause, plus the running stretch since.
+  activeAccumMs: number
+  runningSince: number | null
+  pausedAt: number | null
+  countdownStartedAt: number
+  // Snapshots refreshed by `tick`, for display.
+  countdownMs: number
+  activeMs: number
+
+  session: SessionCounters
+  stats: LifetimeStats
+  events: KeystrokeEvent[]
+  sessions: SessionRecord[]
+  // Per `configKey`: the best finished sprint/fixed run, kept even after it leaves `sessions`.
+  bestRuns: Record<string, GhostRun>
+  // Set when a session has just finished, until the results screen is dismissed.
+  finishedSummary: SessionSummary | null
+}
+
+export type EngineEvent =
+  | ({ type: 'keydown' } & KeyPress)
+  | { type: 'tick' }
+  // Changing the mode, session type or seed starts a new session; changing the pool draws a new target.
+  | { type: 'configure', config: Partial<EngineConfig> }
+  // Records the current session and starts a fresh one.
+  | { type: 'reset' }
+  | { type: 'start' }
+  | { type: 'togglePause' }
+  // Ends the current session early and shows the results screen.
+  | { type: 'finish' }
+  | { type: 'dismiss' }
+  // Stored data; anything gathered before loading finished is kept on top of it.
+  | { type: 'load', stats: LifetimeStats, sessions: SessionRecord[], bestRuns: Record<string, GhostRun>, events: KeystrokeEvent[] }
+  // Replaces the stored data (import); the current session goes on.
+  | { type: 'restore', stats: LifetimeStats, sessions: SessionRecord[], bestRuns: Record<string, GhostRun>, events: KeystrokeEvent[] }
+  | { type: 'wipe' }
+
+export function emptyLifetimeStats(): LifetimeStats {
+  return {
+    modeStats: Object.fromEntries(MODES.map(mode => [mode, {}])) as LifetimeStats['modeStats'],
+    layerStats: {},
+    transitionStats: {},
+    firstKeyStats: {},
+    bigramStats: {},
+  }
+}
+
+// Pairs up every stats record of `a` and `b` (a mode missing on one side counts as empty).
+export function combineLifetimeStats(
+  a: LifetimeStats,
+  b: LifetimeStats,
+  combine: (a: Record<string, Stat>, b: Record<string, Stat>) => Record<string, Stat>,
+): LifetimeStats {
+  const combined = emptyLifetimeStats()
+  for (const mode of MODES) combined.modeStats[mode] = combine(a.modeStats[mode] ?? {}, b.modeStats[mode] ?? {})
+  for (const key of SHARED_STAT_KEYS) combined[key] = combine(a[key], b[key])
+  return combined
+}
+
+function newSessionCounters(deps: EngineDeps): SessionCounters {
+  const at = deps.wallNow()
+  return {
+    id: createSessionId(at, deps.random),
+    startedAt: at,
+    attempts: 0,
+    correct: 0,
+    miss: 0,
+    backspace: 0,
+    keystrokes: 0,
+    lastTimeMs: null,
+    lastSplits: [],
+    itemDeltas: {},
+    targetTimes: [],
+  }
+}
+
+export function initEngineState(config: EngineConfig, deps: EngineDeps = DEFAULT_ENGINE_DEPS): EngineState {
+  const at = deps.now()
+  const state: EngineState = {
+    config,
+    // Endless sessions run right away; sprint and fixed sessions wait in `idle` for a start.
+    phase: config.sessionConfig.kind === 'endless' ? 'running' : 'idle',
+    target: '',
+    queue: [],
+    separatorPending: false,
+    rngState: config.seed,
+    typed: '',
+    progress: '',
+    pendingErrors: '',
+    splits: [],
+    shownAt: at,
+    lastKeyAt: at,
+    activeAccumMs: 0,
+    runningSince: config.sessionConfig.kind === 'endless' ? at : null,
+    pausedAt: null,
+    countdownStartedAt: 0,
+    countdownMs: 0,
+    activeMs: 0,
+    session: newSessionCounters(deps),
+    stats: emptyLifetimeStats(),
+    events: [],
+    sessions: [],
+    bestRuns: {},
+    finishedSummary: null,
+  }
+  return withNewTarget(state, deps)
+}
+
+export function sessionAccuracy(session: SessionCounters): number {
+  return session.attempts === 0 ? 0 : (session.correct / session.attempts) * 100
+}
+
+function activeMsAt(state: EngineState, at: number): number {
+  return state.activeAccumMs + (state.runningSince == null ? 0 : at - state.runningSince)
+}
+
+function stopClock(state: EngineState, deps: EngineDeps): EngineState {
+  return { ...state, activeAccumMs: activeMsAt(state, deps.now()), runningSince: null }
+}
+
+export function currentSessionRecord(state: EngineState, deps: EngineDeps = DEFAULT_ENGINE_DEPS): SessionRecord {
+  const { config, session } = state
+  return {
+    id: session.id,
+    startedAt: session.startedAt,
+    endedAt: deps.wallNow(),
+    mode: config.mode,
+    kind: config.sessionConfig.kind,
+    configKey: sessionConfigKey(config.mode, config.sessionConfig, config.seed, config.streamSettings),
+    activeMs: activeMsAt(state, deps.now()),
+    keystrokes: session.keystrokes,
+    attempts: session.attempts,
+    correct: session.correct,
+    miss: session.miss,
+    backspace: session.backspace,
+    accuracy: sessionAccuracy(session),
+    itemDeltas: session.itemDeltas,
+    targetTimes: session.targetTimes,
+  }
+}
+
+// Draws one target from the pool (or the generator), continuing the seeded sequence if there is one.
+function drawTarget(state: EngineState, deps: EngineDeps, avoid?: string): { target: string, rngState: number | null } {
+  const { config } = state
+  const seeded = state.rngState == null ? null : createSeededRandom(state.rngState)
+  const random = seeded ? seeded.random : deps.random
+  const target = generatorOf(config.mode).nextTarget({
+    settings: config.generatorSettings[config.mode],
+    pool: config.pool,
+    stats: state.stats.modeStats[config.mode],
+    schedulerSettings: config.schedulerSettings,
+    avoid,
+    now: deps.wallNow(),
+    random,
+  })
+  return { target, rngState: seeded ? seeded.state() : null }
+}
+
+// Shows `target` with empty input and, in stream mode, tops the queue up behind it.
+// Queued targets are drawn in order, so a drill shows the same sequence with or without the stream.
+function showTarget(state: EngineState, target: string, queue: string[], deps: EngineDeps): EngineState {
+  let next: EngineState = { ...state, target, queue }
+  const length = streamQueueLength(next.config.streamSettings)
+  while (next.queue.length < length) {
+    const drawn = drawTarget(next, deps, next.queue[next.queue.length - 1] ?? next.target)
+    next = { ...next, queue: [...next.queue, drawn.target], rngState: drawn.rngState }
+  }
+  const at = deps.now()
+  return {
+    ...next,
+    typed: '',
+    progress: '',
+    pendingErrors: '',
+    splits: [],
+    shownAt: at,
+    lastKeyAt: at,
+  }
+}
+
+// Starts over with a freshly drawn target (and queue).
+function withNewTarget(state: EngineState, deps: EngineDeps, avoid?: string): EngineState {
+  const drawn = drawTarget(state, deps, avoid)
+  return showTarget({ ...state, rngState: drawn.rngState, separatorPending: false }, drawn.target, [], deps)
+}
+
+// Restarts the seeded sequence, so every drill session shows the same targets.
+function reseed(state: EngineState): EngineState {
+  return { ...state, rngState: state.config.seed }
+}
+
+function nextQuestion(state: EngineState, deps: EngineDeps): EngineState {
+  if (!isGeneratedMode(state.config.mode) && state.config.pool.length === 0) return state
+  const [queued, ...rest] = state.queue
+  if (queued !== undefined) return showTarget(state, queued, rest, deps)
+  return withNewTarget(state, deps, state.target)
+}
+
+function clearSession(state: EngineState, deps: EngineDeps): EngineState {
+  return {
+    ...state,
+    session: newSessionCounters(deps),
+    activeMs: 0,
+    activeAccumMs: 0,
+    runningSince: state.runningSince == null ? null : deps.now(),
+  }
+}
+
+// Moves the current session into the history and starts a fresh one.
+function finishSession(state: EngineState, deps: EngineDeps): EngineState {
+  const finished = currentSessionRecord(state, deps)
+  return clearSession({
+    ...state,
+    sessions: appendSession(state.sessions, finished),
+    bestRuns: recordBestRun(state.bestRuns, finished, state.config.sessionConfig),
+  }, deps)
+}
+
+// Like `finishSession`, but shows the results screen.
+function completeSession(state: EngineState, deps: EngineDeps): EngineState {
+  const stopped = stopClock(state, deps)
+  const finished = currentSessionRecord(stopped, deps)
+  return {
+    ...clearSession({
+      ...stopped,
+      sessions: appendSession(stopped.sessions, finished),
+      bestRuns: recordBestRun(stopped.bestRuns, finished, stopped.config.sessionConfig),
+    }, deps),
+    finishedSummary: summarizeSession(finished, stopped.sessions, stopped.config.sessionConfig),
+    phase: 'finished',
+  }
+}
+
+// Endless sessions keep running; the others wait for an explicit start.
+function enterInitialPhase(state: EngineState, deps: EngineDeps): EngineState {
+  const reseeded = reseed(state)
+  if (state.config.sessionConfig.kind === 'endless') {
+    return { ...reseeded, phase: 'running', pausedAt: null, runningSince: state.runningSince ?? deps.now() }
+  }
+  return { ...reseeded, phase: 'idle', pausedAt: null, runningSince: null }
+}
+
+function startSession(state: EngineState, deps: EngineDeps): EngineState {
+  const cleared = { ...reseed(clearSession(state, deps)), finishedSummary: null, pausedAt: null }
+  if (cleared.config.sessionConfig.kind === 'endless') {
+    return withNewTarget({ ...cleared, phase: 'running', runningSince: deps.now() }, deps)
+  }
+  return {
+    ...cleared,
+    phase: 'countdown',
+    runningSince: null,
+    countdownStartedAt: deps.now(),
+    countdownMs: COUNTDOWN_MS,
+  }
+}
+
+function togglePause(state: EngineState, deps: EngineDeps): EngineState {
+  if (state.phase === 'running') {
+    return { ...stopClock(state, deps), phase: 'paused', pausedAt: deps.now() }
+  }
+  if (state.phase === 'paused') {
+    const at = deps.now()
+    // Time spent paused does not count towards the current target either.
+    const pausedFor = at - (state.pausedAt ?? at)
+    return {
+      ...state,
+      phase: 'running',
+      shownAt: state.shownAt + pausedFor,
+      lastKeyAt: state.lastKeyAt + pausedFor,
+      pausedAt: null,
+      runningSince: at,
+    }
+  }
+  if (state.phase === 'idle' || state.phase === 'finished') return startSession(state, deps)
+  return state
+}
+
+// Drives the countdown, the active-time display and the end of sprint/fixed sessions.
+function tick(state: EngineState, deps: EngineDeps): EngineState {
+  if (state.phase === 'countdown') {
+    const left = COUNTDOWN_MS - (deps.now() - state.countdownStartedAt)
+    if (left > 0) return { ...state, countdownMs: left }
+    const started = clearSession({ ...state, countdownMs: 0, phase: 'running' }, deps)
+    return withNewTarget({ ...started, runningSince: deps.now() }, deps)
+  }
+  if (state.phase !== 'running' && state.phase !== 'paused') return state
+  const activeMs = activeMsAt(state, deps.now())
+  const next = { ...state, activeMs }
+  if (isSessionComplete(state.config.sessionConfig, activeMs, state.session.correct)) return completeSession(next, deps)
+  return next
+}
+
+// Bumps `keys` in the current mode's own stats.
+function bumpModeStats(state: EngineState, keys: string[], isCorrect: boolean, deps: EngineDeps, elapsedMs?: number): EngineState {
+  if (keys.length === 0) return state
+  const { mode } = state.config
+  const at = deps.wallNow()
+  const { stats } = state
+  const modeStats = keys.reduce((acc, key) => bumpStatRecord(acc, key, isCorrect, elapsedMs, at), stats.modeStats[mode] ?? {})
+  return { ...state, stats: { ...stats, modeStats: { ...stats.modeStats, [mode]: modeStats } } }
+}
+
+// The current target as a whole (see `TargetGenerator.targetStatKeys`). Sessions keep the same keys.
+function scoreTarget(state: EngineState, isCorrect: boolean, deps: EngineDeps, elapsedMs?: number): EngineState {
+  const { targetStatKeys } = generatorOf(state.config.mode)
+  if (!targetStatKeys) return state
+  const keys = targetStatKeys(state.target)
+  const next = bumpModeStats(state, keys, isCorrect, deps, elapsedMs)
+  const at = deps.wallNow()
+  const itemDeltas = keys.reduce((acc, key) => bumpStatRecord(acc, key, isCorrect, elapsedMs, at), next.session.itemDeltas)
+  return { ...next, session: { ...next.session, itemDeltas } }
+}
+
+// The character at `index` of the current target (see `TargetGenerator.keyStatKeys`).
+function scoreKey(state: EngineState, index: number, isCorrect: boolean, deps: EngineDeps, elapsedMs?: number): EngineState {
+  const { keyStatKeys } = generatorOf(state.config.mode)
+  if (!keyStatKeys || index >= state.target.length) return state
+  return bumpModeStats(state, keyStatKeys(state.target, index), isCorrect, deps, elapsedMs)
+}
+
+// Attributes a keystroke to the layer of the expected character, and to the layer
+// transition from the previous character of the same target.
+function recordKey(
+  state: EngineState,
+  expected: string,
+  isCorrect: boolean,
+  deps: EngineDeps,
+  elapsedMs?: number,
+): EngineState {
+  const { charIndex } = state.config
+  const binding = charIndex.get(expected)
+  if (!binding) return state
+  const at = deps.wallNow()
+  const { stats, progress } = state
+  const layerStats = bumpStatRecord(stats.layerStats, binding.layerName, isCorrect, elapsedMs, at)
+  const prevBinding = progress === '' ? undefined : charIndex.get(progress[progress.length - 1])
+  const transitionStats = prevBinding
+    ? bumpStatRecord(stats.transitionStats, transitionKey(prevBinding.layerName, binding.layerName), isCorrect, elapsedMs, at)
+    : stats.transitionStats
+  return { ...state, stats: { ...stats, layerStats, transitionStats } }
+}
+
+// Splits reaction time from typing speed: the first key of a target is timed on its own,
+// every following key as a transition from the previous character.
+function recordTiming(
+  state: EngineState,
+  expected: string,
+  isCorrect: boolean,
+  deps: EngineDeps,
+  elapsedMs?: number,
+): EngineState {
+  const at = deps.wallNow()
+  const { stats, progress } = state
+  if (progress === '') {
+    return { ...state, stats: { ...stats, firstKeyStats: bumpStatRecord(stats.firstKeyStats, expected, isCorrect, elapsedMs, at) } }
+  }
+  const key = transitionKey(progress[progress.length - 1], expected)
+  return { ...state, stats: { ...stats, bigramStats: bumpStatRecord(stats.bigramStats, key, isCorrect, elapsedMs, at) } }
+}
+
+function logKeystroke(
+  state: EngineState,
+  e: KeyPress,
+  expected: string,
+  actual: string,
+  correct: boolean,
+  deps: EngineDeps,
+): EngineState {
+  const event: KeystrokeEvent = {
+    t: deps.wallNow(),
+    expected,
+    actual,
+    key: e.key,
+    code: e.code,
+    shift: e.shift,
+    location: e.location,
+    mode: state.config.mode,
+    target: state.target,
+    correct,
+  }
+  return {
+    ...state,
+    events: appendEvent(state.events, event),
+    // Every logged keystroke also counts towards keystrokes per minute.
+    session: { ...state.session, keystrokes: state.session.keystrokes + 1 },
+  }
+}
+
+// A correct key that extends the matching prefix; completes the target when it is the last one.
+function acceptKey(state: EngineState, key: string, deps: EngineDeps): EngineState {
+  const at = deps.now()
+  const keyElapsed = at - state.lastKeyAt
+  let next = recordKey(state, key, true, deps, keyElapsed)
+  next = recordTiming(next, key, true, deps, keyElapsed)
+  next = scoreKey(next, next.progress.length, true, deps, keyElapsed)
+  const progress = next.progress + key
+  next = { ...next, progress, splits: [...next.splits, keyElapsed], lastKeyAt: at }
+  if (progress !== next.target) return next
+
+  const elapsed = at - next.shownAt
+  next = {
+    ...next,
+    session: {
+      ...next.session,
+      lastTimeMs: elapsed,
+      lastSplits: next.splits,
+      targetTimes: [...next.session.targetTimes, { item: next.target, ms: elapsed, atMs: activeMsAt(next, at) }],
+      attempts: next.session.attempts + 1,
+      correct: next.session.correct + 1,
+    },
+  }
+  next = scoreTarget(next, true, deps, elapsed)
+  const { sessionConfig } = next.config
+  // A fixed-length session ends on its last target; `tick` shows the results screen.
+  if (sessionConfig.kind === 'fixed' && next.session.correct >= sessionConfig.targetCount) next = stopClock(next, deps)
+  const { streamSettings } = next.config
+  next = nextQuestion(next, deps)
+  return streamSettings.enabled && streamSettings.spaces ? { ...next, separatorPending: true } : next
+}
+
+// A wrong key: one missed attempt. What happens to the input depends on the error policy.
+function rejectKey(state: EngineState, key: string, deps: EngineDeps): EngineState {
+  const { errorPolicy } = state.config
+  const expected = state.target[state.progress.length] ?? ''
+  let next: EngineState = {
+    ...state,
+    session: { ...state.session, attempts: state.session.attempts + 1, miss: state.session.miss + 1 },
+  }
+  if (expected) next = recordTiming(recordKey(next, expected, false, deps), expected, false, deps)
+  next = scoreTarget(scoreKey(next, next.progress.length, false, deps), false, deps)
+
+  switch (errorPolicy) {
+    case 'reset':
+      return { ...next, progress: '' }
+    case 'stop':
+      return next
+    case 'backspace':
+      return { ...next, pendingErrors: key }
+    case 'skip':
+      return nextQuestion(next, deps)
+  }
+}
+
+// Stream mode with spaces: the separator is not a target, but a wrong key there is still a missed attempt.
+function typeSeparator(state: EngineState, e: KeyPress, deps: EngineDeps): EngineState {
+  const key = normalizeKey(e.key)
+  if (key.length !== 1) return state
+  if (key !== STREAM_SEPARATOR) {
+    const next = logKeystroke(state, e, STREAM_SEPARATOR, key, false, deps)
+    return { ...next, session: { ...next.session, attempts: next.session.attempts + 1, miss: next.session.miss + 1 } }
+  }
+  const at = deps.now()
+  // The next target is timed from the separator.
+  return { ...logKeystroke(state, e, STREAM_SEPARATOR, key, true, deps), separatorPending: false, shownAt: at, lastKeyAt: at }
+}
+
+// Backspace deletes wrong input first, then the correctly typed part.
+function deleteLastChar(state: EngineState): EngineState {
+  const session = { ...state.session, backspace: state.session.backspace + 1 }
+  if (state.pendingErrors !== '') return { ...state, session, pendingErrors: state.pendingErrors.slice(0, -1) }
+  return { ...state, session, progress: state.progress.slice(0, -1) }
+}
+
+function keydown(state: EngineState, e: KeyPress, deps: EngineDeps): EngineState {
+  // Enter starts a session from the start or results screen.
+  if (e.key === 'Enter' && (state.phase === 'idle' || state.phase === 'finished')) return startSession(state, deps)
+
+  if (state.phase !== 'running') return state
+  if (!state.target) return state
+  const { sessionConfig } = state.config
+  // A fixed-length session is over once its last target is done (the results screen follows).
+  if (sessionConfig.kind === 'fixed' && state.session.correct >= sessionConfig.targetCount) return state
+  if (state.separatorPending) return typeSeparator(state, e, deps)
+
+  const expected = state.target[state.progress.length] ?? ''
+  let next: EngineState
+
+  const { mode, generatorSettings } = state.config
+  const { matching } = generatorOf(mode)
+  if (e.key === 'Backspace') {
+    next = deleteLastChar(logKeystroke(state, e, expected, '', false, deps))
+  } else if (
+    matching.stepsOver && state.pendingErrors === '' && matching.stepsOver(generatorSettings[mode], e.key, expected)
+  ) {
+    // A key that stands for the expected character, e.g. stepping over an auto-closed bracket.
+    next = logKeystroke(state, e, expected, expected, true, deps)
+    next = acceptKey({ ...next, typed: next.typed + expected }, expected, deps)
+  } else {
+    const key = normalizeKey(e.key)
+    // Ignore non-printable keys.
+    if (key.length !== 1) return state
+
+    if (state.pendingErrors !== '') {
+      // Typing on top of an uncorrected mistake: it has to be deleted as well, but is not another miss.
+      next = logKeystroke(state, e, '', key, false, deps)
+      next = { ...next, typed: next.typed + key, pendingErrors: next.pendingErrors + key }
+    } else {
+      const isMatch = key === expected
+      next = logKeystroke(state, e, expected, key, isMatch, deps)
+      // Always show what the user actually typed.
+      next = { ...next, typed: next.typed + key }
+      next = isMatch ? acceptKey(next, key, deps) : rejectKey(next, key, deps)
+    }
+  }
+
+  // Splits follow `progress` when it shrinks (reset policy, Backspace).
+  if (next.splits.length > next.progress.length) next = { ...next, splits: next.splits.slice(0, next.progress.length) }
+  // Some modes (digits, brackets) show the input buffer itself rather than the key history.
+  if (matching.showsInput) next = { ...next, typed: next.progress + next.pendingErrors }
+  return next
+}
+
+function sameItems(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i])
+}
+
+function sameSessionConfig(a: SessionConfig, b: SessionConfig): boolean {
+  return a.kind === b.kind && a.durationSec === b.durationSec && a.targetCount === b.targetCount
+}
+
+function configure(state: EngineState, patch: Partial<EngineConfig>, deps: EngineDeps): EngineState {
+  const prev = state.config
+  const config = { ...prev, ...patch }
+  // Uncorrected input only exists under the `backspace` policy.
+  const next = config.errorPolicy === prev.errorPolicy ? { ...state, config } : { ...state, config, pendingErrors: '' }
+
+  // A session records a single mode, session type, seed and stream setting, so changing any of them starts a new one.
+  if (
+    config.mode !== prev.mode
+    || config.seed !== prev.seed
+    || !sameSessionConfig(config.sessionConfig, prev.sessionConfig)
+    || !sameStreamSettings(config.streamSettings, prev.streamSettings)
+  ) {
+    const finished = finishSession({ ...state, config: prev }, deps)
+    return withNewTarget(enterInitialPhase({ ...finished, config, finishedSummary: null }, deps), deps)
+  }
+  const poolChanged = !isGeneratedMode(config.mode) && !sameItems(config.pool, prev.pool)
+  const schema = generatorOf(config.mode).settings
+  const settingsChanged = schema != null
+    && !schema.same(config.generatorSettings[config.mode], prev.generatorSettings[config.mode])
+  if (poolChanged || settingsChanged) return withNewTarget(next, deps)
+  return next
+}
+
+function load(
+  state: EngineState,
+  stored: { stats: LifetimeStats, sessions: SessionRecord[], bestRuns: Record<string, GhostRun>, events: KeystrokeEvent[] },
+): EngineState {
+  return {
+    ...state,
+    stats: combineLifetimeStats(stored.stats, state.stats, mergeStatRecords),
+    sessions: [...stored.sessions, ...state.sessions],
+    bestRuns: mergeBestRuns(stored.bestRuns, state.bestRuns),
+    events: [...stored.events, ...state.events],
+  }
+}
+
+// Returns the same state object when the event changes nothing (e.g. an ignored key).
+export function engineReducer(state: EngineState, event: EngineEvent, deps: EngineDeps = DEFAULT_ENGINE_DEPS): EngineState {
+  switch (event.type) {
+    case 'keydown':
+      return keydown(state, event, deps)
+    case 'tick':
+      return tick(state, deps)
+    case 'configure':
+      return configure(state, event.config, deps)
+    case 'reset':
+      return withNewTarget(enterInitialPhase({ ...finishSession(state, deps), finishedSummary: null }, deps), deps)
+    case 'start':
+      return startSession(state, deps)
+    case 'togglePause':
+      return togglePause(state, deps)
+    case 'finish':
+      if (state.phase !== 'running' && state.phase !== 'paused') return state
+      return completeSession(state, deps)
+    case 'dismiss':
+      return withNewTarget(enterInitialPhase({ ...state, finishedSummary: null }, deps), deps)
+    case 'load':
+      return load(state, event)
+    case 'restore':
+      return { ...state, stats: event.stats, sessions: event.sessions, bestRuns: event.bestRuns, events: event.events }
+    case 'wipe':
+      return withNewTarget({
+        ...clearSession(state, deps),
+        stats: emptyLifetimeStats(),
+        events: [],
+        sessions: [],
+        bestRuns: {},
+        finishedSummary: null,
+      }, deps)
+  }
+}
+
+export type TrainerEngine = {
+  getState: () => EngineState
+  // Returns the state after the event.
+  dispatch: (event: EngineEvent) => EngineState
+  subscribe: (listener: () => void) => () => void
+  currentSession: () => SessionRecord
+}
+
+// A small store around `engineReducer`, so UIs can subscribe to it.
+export function createTrainerEngine(config: EngineConfig, deps: EngineDeps = DEFAULT_ENGINE_DEPS): TrainerEngine {
+  let state = initEngineState(config, deps)
+  const listeners = new Set<() => void>()
+  return {
+    getState: () => state,
+    dispatch: (event) => {
+      const next = engineReducer(state, event, deps)
+      if (next !== state) {
+        state = next
+        listeners.forEach(listener => listener())
+      }
+      return state
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    currentSession: () => currentSessionRecord(state, deps),
+  }
+}
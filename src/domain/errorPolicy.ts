@@ -0,0 +1,17 @@
+import type { Mode } from './modes'
+import { generatorOf, MODES } from './modes'
+
+// What a wrong key does to the current target. In every policy a wrong key counts as one
+// attempt and one miss, and Backspace deletes the last character of the input.
+export type ErrorPolicy = 'reset' | 'stop' | 'backspace' | 'skip'
+
+// - reset: the input starts over
+// - stop: the wrong key is not typed; the target waits for the right one
+// - backspace: the wrong key is typed and has to be deleted (keys typed before that are not misses)
+// - skip: the target counts as wrong and the next one comes up
+export const ERROR_POLICIES: readonly ErrorPolicy[] = ['reset', 'stop', 'backspace', 'skip']
+
+// Until the user picks one, each mode uses the policy its generator matches keys with.
+export function defaultErrorPolicies(): Record<Mode, ErrorPolicy> {
+  return Object.fromEntries(MODES.map(mode => [mode, generatorOf(mode).matching.errorPolicy])) as Record<Mode, ErrorPolicy>
+}
@@ -0,0 +1,69 @@
+import type { Mode } from './modes'
+import { isNonNegativeNumber, isRecord } from './validation'
+
+export type KeystrokeEvent = {
+  // Wall-clock timestamp (epoch ms).
+  t: number
+  // The character the target asked for ('' once the target is complete, or on top of an uncorrected mistake).
+  expected: string
+  // The character that was typed ('' for Backspace).
+  actual: string
+  // Raw `KeyboardEvent.key` / `KeyboardEvent.code` / `KeyboardEvent.location`.
+  key: string
+  code: string
+  shift: boolean
+  // 0: standard, 1: left, 2: right, 3: numpad.
+  location: number
+  mode: Mode
+  target: string
+  correct: boolean
+}
+
+// Keep the log bounded; old keystrokes matter less than recent ones.
+export const MAX_EVENTS = 5_000
+
+export function appendEvent(events: KeystrokeEvent[], event: KeystrokeEvent): KeystrokeEvent[] {
+  const next = [...events, event]
+  return next.length > MAX_EVENTS ? next.slice(next.length - MAX_EVENTS) : next
+}
+
+export type ConfusionEntry = {
+  expected: string
+  actual: string
+  count: number
+}
+
+// Counts (expected, actual) pairs of wrong keystrokes, most frequent first.
+export function buildConfusion(events: readonly KeystrokeEvent[]): ConfusionEntry[] {
+  const counts = new Map<string, ConfusionEntry>()
+  for (const e of events) {
+    if (e.correct || e.actual === '' || e.expected === '') continue
+    const id = `${e.expected}\u0000${e.actual}`
+    const entry = counts.get(id) ?? { expected: e.expected, actual: e.actual, count: 0 }
+    entry.count += 1
+    counts.set(id, entry)
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count)
+}
+
+// Keystrokes logged before `location` was recorded count as standard keys.
+export function sanitizeKeystrokeEvent(v: unknown): KeystrokeEvent | null {
+  if (!isRecord(v)) return null
+  const valid = isNonNegativeNumber(v.t)
+    && typeof v.expected === 'string'
+    && typeof v.actual === 'string'
+    && typeof v.key === 'string'
+    && typeof v.code === 'string'
+    && typeof v.shift === 'boolean'
+    && (v.location === undefined || isNonNegativeNumber(v.location))
+    && typeof v.mode === 'string'
+    && typeof v.target === 'string'
+    && typeof v.correct === 'boolean'
+  if (!valid) return null
+  return { ...(v as KeystrokeEvent), location: isNonNegativeNumber(v.location) ? v.location : 0 }
+}
+
+export function sanitizeEvents(v: unknown): KeystrokeEvent[] {
+  if (!Array.isArray(v)) return []
+  return v.flatMap(e => sanitizeKeystrokeEvent(e) ?? []).slice(-MAX_EVENTS)
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import type { GhostRun } from './ghost'
+import { ghostDelta, mergeBestRuns, recordBestRun, sanitizeBestRuns } from './ghost'
+import type { SessionRecord, TargetTime } from './history'
+import type { SessionConfig } from './session'
+
+const ghost: GhostRun = { sessionId: 'best', endedAt: 1, correct: 3, activeMs: 3000, checkpoints: [1000, 2000, 3000] }
+
+// Targets completed at the given active times.
+function times(...atMs: number[]): TargetTime[] {
+  return atMs.map((at, i) => ({ item: 'x', ms: at - (atMs[i - 1] ?? 0), atMs: at }))
+}
+
+function session(id: string, activeMs: number, atMs: number[]): SessionRecord {
+  return {
+    id, startedAt: 0, endedAt: activeMs, mode: 'single', kind: 'fixed', configKey: 'k', activeMs,
+    keystrokes: atMs.length, attempts: atMs.length, correct: atMs.length, miss: 0, backspace: 0, accuracy: 100,
+    itemDeltas: {}, targetTimes: times(...atMs),
+  }
+}
+
+const fixed: SessionConfig = { kind: 'fixed', durationSec: 60, targetCount: 3, ghost: true }
+
+describe('ghostDelta', () => {
+  it('is even before either run completes a target', () => {
+    expect(ghostDelta(ghost, [], 500)).toEqual({ targets: 0, ms: 0 })
+  })
+
+  it('compares completion times of the same target', () => {
+    expect(ghostDelta(ghost, times(800), 900)).toEqual({ targets: 1, ms: 200 })
+    expect(ghostDelta(ghost, times(800, 2300), 2400)).toEqual({ targets: 0, ms: -300 })
+  })
+
+  it('counts the time since the ghost completed the target being typed', () => {
+    expect(ghostDelta(ghost, [], 1500)).toEqual({ targets: -1, ms: -500 })
+    expect(ghostDelta(ghost, times(800), 2600)).toEqual({ targets: -1, ms: -600 })
+  })
+
+  it('has no time delta once the run is past the end of the ghost', () => {
+    expect(ghostDelta(ghost, times(200, 400, 600, 800), 900)).toEqual({ targets: 4, ms: null })
+  })
+})
+
+describe('best runs', () => {
+  it('keeps the fastest finished run of each configuration', () => {
+    const first = recordBestRun({}, session('a', 3000, [1000, 2000, 3000]), fixed)
+    expect(first.k).toEqual({ ...ghost, sessionId: 'a', endedAt: 3000 })
+    expect(recordBestRun(first, session('b', 3600, [1200, 2400, 3600]), fixed)).toBe(first)
+    expect(recordBestRun(first, session('c', 2400, [800, 1600, 2400]), fixed).k.sessionId).toBe('c')
+  })
+
+  it('ignores unfinished and endless runs', () => {
+    expect(recordBestRun({}, session('a', 2000, [1000, 2000]), fixed)).toEqual({})
+    expect(recordBestRun({}, session('a', 3000, [1000, 2000, 3000]), { ...fixed, kind: 'endless' })).toEqual({})
+  })
+
+  it('merges by speed and drops stored runs that do not parse', () => {
+    const slow = { ...ghost, sessionId: 'slow', activeMs: 6000 }
+    expect(mergeBestRuns({ k: slow, j: slow }, { k: ghost })).toEqual({ k: ghost, j: slow })
+    expect(sanitizeBestRuns({ k: ghost, j: { ...ghost, checkpoints: ['1'] } })).toEqual({ k: ghost })
+    expect(sanitizeBestRuns(null)).toEqual({})
+  })
+})
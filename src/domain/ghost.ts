@@ -0,0 +1,85 @@
+import type { SessionRecord, TargetTime } from './history'
+import type { SessionConfig } from './session'
+import { isSessionComplete } from './session'
+import { isRecord } from './validation'
+
+// The best finished run of one session configuration, replayed as a pacer ("ghost").
+export type GhostRun = {
+  sessionId: string
+  endedAt: number
+  correct: number
+  activeMs: number
+  // Active time of the session when each target was completed, in order.
+  checkpoints: number[]
+}
+
+// Where the current run stands against its ghost; positive values mean ahead.
+export type GhostDelta = {
+  targets: number
+  // null once the current run has completed more targets than the ghost ever did.
+  ms: number | null
+}
+
+function isGhostRun(v: unknown): v is GhostRun {
+  return isRecord(v)
+    && typeof v.sessionId === 'string'
+    && typeof v.endedAt === 'number'
+    && typeof v.correct === 'number'
+    && typeof v.activeMs === 'number'
+    && Array.isArray(v.checkpoints)
+    && v.checkpoints.every(at => typeof at === 'number')
+}
+
+export function sanitizeBestRuns(v: unknown): Record<string, GhostRun> {
+  if (!isRecord(v)) return {}
+  return Object.fromEntries(Object.entries(v).filter(([, run]) => isGhostRun(run))) as Record<string, GhostRun>
+}
+
+export function ghostRunOf(session: SessionRecord): GhostRun {
+  return {
+    sessionId: session.id,
+    endedAt: session.endedAt,
+    correct: session.correct,
+    activeMs: session.activeMs,
+    checkpoints: session.targetTimes.map(t => t.atMs),
+  }
+}
+
+// More targets per active minute; for sprints that is more targets, for fixed sessions less time.
+function isFaster(a: GhostRun, b: GhostRun): boolean {
+  return a.correct * b.activeMs > b.correct * a.activeMs
+}
+
+// Only runs that reached the end of a sprint or fixed session can be raced against.
+export function recordBestRun(
+  bestRuns: Record<string, GhostRun>,
+  session: SessionRecord,
+  config: SessionConfig,
+): Record<string, GhostRun> {
+  if (config.kind === 'endless' || !isSessionComplete(config, session.activeMs, session.correct)) return bestRuns
+  const run = ghostRunOf(session)
+  const best = bestRuns[session.configKey]
+  if (best && !isFaster(run, best)) return bestRuns
+  return { ...bestRuns, [session.configKey]: run }
+}
+
+export function mergeBestRuns(a: Record<string, GhostRun>, b: Record<string, GhostRun>): Record<string, GhostRun> {
+  const merged = { ...a }
+  for (const [key, run] of Object.entries(b)) {
+    const best = merged[key]
+    if (!best || isFaster(run, best)) merged[key] = run
+  }
+  return merged
+}
+
+// Compares the current run with the ghost at the same active time.
+export function ghostDelta(ghost: GhostRun, targetTimes: readonly TargetTime[], activeMs: number): GhostDelta {
+  const completed = targetTimes.length
+  const targets = completed - ghost.checkpoints.filter(at => at <= activeMs).length
+  // The ghost has already completed the target being typed: behind by at least the time since.
+  const next = ghost.checkpoints[completed]
+  if (next != null && activeMs > next) return { targets, ms: next - activeMs }
+  if (completed === 0) return { targets, ms: 0 }
+  const theirs = ghost.checkpoints[completed - 1]
+  return { targets, ms: theirs == null ? null : theirs - targetTimes[completed - 1].atMs }
+}
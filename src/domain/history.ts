@@ -0,0 +1,47 @@
+import type { Mode } from './modes'
+import type { SessionKind } from './session'
+import type { Stat } from './stats'
+
+// One completed target of a session, in order.
+export type TargetTime = {
+  item: string
+  ms: number
+  // Active time of the session when the target was completed.
+  atMs: number
+}
+
+export type SessionRecord = {
+  id: string
+  // Wall-clock timestamps (epoch ms), so sessions can be compared across reloads.
+  startedAt: number
+  endedAt: number
+  mode: Mode
+  kind: SessionKind
+  // See `sessionConfigKey`; used to find the previous best of the same configuration.
+  configKey: string
+  // Time actually spent practicing (pauses excluded).
+  activeMs: number
+  keystrokes: number
+  attempts: number
+  correct: number
+  miss: number
+  backspace: number
+  accuracy: number
+  // Target stats gathered during this session only, under the mode's keys (see `TargetGenerator.targetStatKeys`).
+  itemDeltas: Record<string, Stat>
+  // Completion time of every target, in the order they were solved.
+  targetTimes: TargetTime[]
+}
+
+// Keep the history bounded so storage does not grow forever.
+export const MAX_SESSIONS = 500
+
+export function createSessionId(at: number = Date.now(), random: () => number = Math.random): string {
+  return `${at.toString(36)}-${random().toString(36).slice(2, 8)}`
+}
+
+export function appendSession(sessions: SessionRecord[], session: SessionRecord): SessionRecord[] {
+  // Sessions without a single attempt are not worth keeping.
+  if (session.attempts === 0) return sessions
+  return [...sessions, session].slice(-MAX_SESSIONS)
+}
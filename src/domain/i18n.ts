@@ -0,0 +1,43 @@
+import { en } from './locales/en'
+import type { Messages } from './locales/ja'
+import { ja } from './locales/ja'
+import type { ValidationError } from './validation'
+
+export type { Messages } from './locales/ja'
+
+export type Locale = 'en' | 'ja'
+
+export const LOCALES: readonly Locale[] = ['en', 'ja']
+
+// Each language is named in itself, so the switcher reads the same in every locale.
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  ja: '日本語',
+}
+
+export const MESSAGES: Record<Locale, Messages> = { en, ja }
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export function isLocale(v: unknown): v is Locale {
+  return typeof v === 'string' && (LOCALES as readonly string[]).includes(v)
+}
+
+export function sanitizeLocale(v: unknown): Locale | null {
+  return isLocale(v) ? v : null
+}
+
+// The first browser (or POSIX `LANG`) language we have a catalog for, e.g. `ja-JP` / `ja_JP.UTF-8` -> `ja`.
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const prefix = language.toLowerCase().split(/[-_.]/)[0]
+    if (isLocale(prefix)) return prefix
+  }
+  return DEFAULT_LOCALE
+}
+
+export function formatError(m: Messages, error: ValidationError): string {
+  // The mapped type cannot tie `error.code` to its own message function.
+  const text = (m.errors[error.code] as (e: ValidationError) => string)(error)
+  return error.at ? `${m.errorPlace(error.at)}: ${text}` : text
+}
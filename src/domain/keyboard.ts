@@ -1,3 +1,11 @@
+// What the trainer reads from a `keydown`: the character, the physical key and its modifiers.
+export type KeyPress = {
+  key: string
+  code: string
+  shift: boolean
+  location: number
+}
+
 export function normalizeKey(k: string): string {
   // We only care about printable characters; keep Enter/Tab/Escape as-is for possible future use.
   if (k === 'Enter' || k === 'Tab' || k === 'Escape') return k
@@ -5,3 +13,13 @@ export function normalizeKey(k: string): string {
   if (k === 'Dead') return ''
   return k
 }
+
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'file', 'color'])
+
+// Keys typed into form fields belong to the field, not to the trainer.
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  if (target instanceof HTMLTextAreaElement) return true
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.has(target.type)
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { buildCharIndex, DEFAULT_KEYMAP_JSON, describeBinding, parseKeycode, parseKeymapJson } from './keymap'
+
+function keymapFile(layers: unknown, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({ ...extra, layers })
+}
+
+describe('parseKeycode', () => {
+  it.each([
+    ['KC_A', 'a'],
+    ['KC_1', '1'],
+    ['KC_LBRC', '['],
+    ['KC_LPRN', '('],
+    ['S(KC_9)', '('],
+    ['LT(2, KC_SPC)', ' '],
+    ['&kp LBKT', '['],
+    ['&kp LBRC', '{'],
+    ['&kp LS(N9)', '('],
+    ['&lt 2 SPACE', ' '],
+  ])('reads %s as %j', (code, char) => {
+    expect(parseKeycode(code)).toEqual({ type: 'char', char })
+  })
+
+  it('reads layer keys, transparent keys and keys that type nothing', () => {
+    expect(parseKeycode('MO(1)')).toEqual({ type: 'layer', layer: 1 })
+    expect(parseKeycode('&mo 2')).toEqual({ type: 'layer', layer: 2 })
+    expect(parseKeycode('_______')).toEqual({ type: 'transparent' })
+    expect(parseKeycode('&trans')).toEqual({ type: 'transparent' })
+    expect(parseKeycode('KC_LSFT')).toEqual({ type: 'none' })
+    expect(parseKeycode('MO(x)')).toEqual({ type: 'none' })
+  })
+})
+
+describe('parseKeymapJson', () => {
+  it('reads the default keymap', () => {
+    const { keymap, errors } = parseKeymapJson(DEFAULT_KEYMAP_JSON)
+    expect(errors).toEqual([])
+    expect(keymap?.columns).toBe(12)
+    expect(keymap?.layers.map(layer => layer.name)).toEqual(['Base', 'Lower', 'Raise'])
+  })
+
+  it('rejects files that are not a list of layers', () => {
+    expect(parseKeymapJson('{')).toEqual({ keymap: null, errors: [{ code: 'invalidJson' }] })
+    expect(parseKeymapJson('{"layers":[]}')).toEqual({ keymap: null, errors: [{ code: 'missingArray', field: 'layers' }] })
+    expect(parseKeymapJson('[]')).toEqual({ keymap: null, errors: [{ code: 'missingArray', field: 'layers' }] })
+  })
+
+  it('reports every layer that is not a list of keycodes', () => {
+    expect(parseKeymapJson(keymapFile([['KC_A'], 'KC_B', ['KC_C', 3]]))).toEqual({
+      keymap: null,
+      errors: [{ code: 'notKeycodeArray', at: { layer: 1 } }, { code: 'notKeycodeArray', at: { layer: 2 } }],
+    })
+  })
+
+  it('rejects layers of different sizes', () => {
+    expect(parseKeymapJson(keymapFile([['KC_A', 'KC_B'], ['KC_C']]))).toEqual({ keymap: null, errors: [{ code: 'unevenLayers' }] })
+  })
+
+  it('names unnamed layers and guesses the columns', () => {
+    const { keymap } = parseKeymapJson(keymapFile([Array(10).fill('KC_A'), Array(10).fill('KC_B')], { layer_names: ['Home'] }))
+    expect(keymap).toMatchObject({ name: 'Custom', columns: 10 })
+    expect(keymap?.layers.map(layer => layer.name)).toEqual(['Home', 'Layer 1'])
+  })
+})
+
+describe('buildCharIndex', () => {
+  const { keymap } = parseKeymapJson(DEFAULT_KEYMAP_JSON)
+  const index = buildCharIndex(keymap!)
+
+  it('prefers the lowest layer, then the key without Shift', () => {
+    expect(index.get('a')).toMatchObject({ layer: 0, shift: false, activator: null })
+    expect(index.get('(')).toMatchObject({ layer: 1, shift: false })
+    expect(index.get(':')).toMatchObject({ layer: 0, shift: true })
+    expect(index.get('[')).toMatchObject({ layer: 1, shift: false })
+  })
+
+  it('describes where a character is and how to reach its layer', () => {
+    expect(describeBinding(index.get('1')!)).toBe('Raise (R4C8) + R1C2')
+    expect(describeBinding(index.get('A')!)).toBe('Base + R2C2 + Shift')
+  })
+})
@@ -0,0 +1,265 @@
+import type { ValidationError } from './validation'
+import { isRecord } from './validation'
+
+// `char` is what the key sends on its own; keycodes such as `KC_LPRN` or `S(KC_9)` send Shift themselves.
+export type KeyAction =
+  | { type: 'char', char: string }
+  | { type: 'layer', layer: number }
+  | { type: 'transparent' }
+  | { type: 'none' }
+
+export type KeyDef = {
+  // The keycode as written in the source keymap (shown as a label).
+  code: string
+  action: KeyAction
+}
+
+export type KeymapLayer = {
+  name: string
+  keys: KeyDef[]
+}
+
+export type Keymap = {
+  name: string
+  columns: number
+  layers: KeymapLayer[]
+}
+
+export type KeyPosition = {
+  index: number
+  row: number
+  col: number
+}
+
+// Where a character lives: which layer, which key, and whether Shift has to be held.
+export type KeyBinding = {
+  char: string
+  layer: number
+  layerName: string
+  position: KeyPosition
+  shift: boolean
+  // The key on the base layer that switches to `layer` (null for the base layer itself).
+  activator: KeyPosition | null
+}
+
+// US layout: the character produced by Shift + key.
+const US_SHIFTED: Record<string, string> = {
+  '1': '!', '2': '@', '3': '#', '4': '$', '5': '%', '6': '^', '7': '&', '8': '*', '9': '(', '0': ')',
+  '-': '_', '=': '+', '[': '{', ']': '}', '\\': '|', ';': ':', "'": '"', '`': '~', ',': '<', '.': '>', '/': '?',
+}
+
+// QMK basic keycodes (without the `KC_` prefix) and ZMK key names, mapped to the unshifted character.
+const BASE_KEYS: Record<string, string> = {
+  MINS: '-', MINUS: '-', EQL: '=', EQUAL: '=',
+  LBRC: '[', LEFT_BRACKET: '[', LBKT: '[', RBRC: ']', RIGHT_BRACKET: ']', RBKT: ']',
+  BSLS: '\\', BACKSLASH: '\\', BSLH: '\\', SCLN: ';', SEMICOLON: ';', SEMI: ';',
+  QUOT: "'", QUOTE: "'", SQT: "'", APOS: "'", SINGLE_QUOTE: "'", GRV: '`', GRAVE: '`',
+  COMM: ',', COMMA: ',', DOT: '.', PERIOD: '.', SLSH: '/', SLASH: '/', FSLH: '/',
+  SPC: ' ', SPACE: ' ',
+}
+
+// Keycodes that imply Shift (QMK `KC_LPRN`, ZMK `LPAR`, ...), mapped to the produced character.
+const SHIFTED_KEYS: Record<string, string> = {
+  TILD: '~', TILDE: '~', EXLM: '!', EXCL: '!', EXCLAIM: '!', AT: '@', HASH: '#', POUND: '#',
+  DLR: '$', DLLR: '$', DOLLAR: '$', PERC: '%', PRCNT: '%', PERCENT: '%', CIRC: '^', CARET: '^',
+  AMPR: '&', AMPS: '&', AMPERSAND: '&', ASTR: '*', ASTRK: '*', STAR: '*', ASTERISK: '*',
+  LPRN: '(', LPAR: '(', LEFT_PARENTHESIS: '(', RPRN: ')', RPAR: ')', RIGHT_PARENTHESIS: ')',
+  UNDS: '_', UNDER: '_', UNDERSCORE: '_', PLUS: '+',
+  LCBR: '{', LEFT_BRACE: '{', RCBR: '}', RIGHT_BRACE: '}',
+  PIPE: '|', COLN: ':', COLON: ':', DQUO: '"', DQT: '"', DOUBLE_QUOTES: '"',
+  LT: '<', LABK: '<', LESS_THAN: '<', GT: '>', RABK: '>', GREATER_THAN: '>',
+  QUES: '?', QMARK: '?', QUESTION: '?',
+}
+
+const TRANSPARENT_CODES = new Set(['KC_TRNS', 'KC_TRANSPARENT', '_______', '&trans', 'TRNS'])
+
+export function shiftedChar(ch: string): string | null {
+  if (/^[a-z]$/.test(ch)) return ch.toUpperCase()
+  return US_SHIFTED[ch] ?? null
+}
+
+function parseKeyName(name: string): KeyAction {
+  const bare = name.replace(/^KC_/, '').toUpperCase()
+  if (/^[A-Z]$/.test(bare)) return { type: 'char', char: bare.toLowerCase() }
+  const digit = /^(?:N|NUMBER_)?([0-9])$/.exec(bare)
+  if (digit) return { type: 'char', char: digit[1] }
+  // ZMK's `LBRC` is `{` while QMK's `KC_LBRC` is `[`; the `KC_` prefix tells them apart.
+  if (!name.startsWith('KC_') && bare === 'LBRC') return { type: 'char', char: '{' }
+  if (!name.startsWith('KC_') && bare === 'RBRC') return { type: 'char', char: '}' }
+  if (bare in BASE_KEYS) return { type: 'char', char: BASE_KEYS[bare] }
+  if (bare in SHIFTED_KEYS) return { type: 'char', char: SHIFTED_KEYS[bare] }
+  return { type: 'none' }
+}
+
+function withShift(action: KeyAction): KeyAction {
+  if (action.type !== 'char') return action
+  return { type: 'char', char: shiftedChar(action.char) ?? action.char }
+}
+
+// Parses a single QMK keycode (`KC_LBRC`, `S(KC_9)`, `MO(1)`, `LT(2, KC_SPC)`)
+// or ZMK binding (`&kp LBKT`, `&kp LS(N9)`, `&mo 1`, `&lt 2 SPACE`).
+export function parseKeycode(raw: string): KeyAction {
+  const code = raw.trim()
+  if (TRANSPARENT_CODES.has(code)) return { type: 'transparent' }
+
+  const zmk = /^&(\w+)\s*(.*)$/.exec(code)
+  if (zmk) {
+    const [, behavior, args] = zmk
+    const parts = args.split(/\s+/).filter(Boolean)
+    if (behavior === 'kp' && parts.length > 0) return parseKeycode(parts.join(' '))
+    if (behavior === 'lt' && parts.length > 1) return parseKeycode(parts[1])
+    if (['mo', 'tog', 'to', 'sl'].includes(behavior) && parts.length > 0) {
+      const layer = Number(parts[0])
+      return Number.isInteger(layer) ? { type: 'layer', layer } : { type: 'none' }
+    }
+    return { type: 'none' }
+  }
+
+  const call = /^(\w+)\((.*)\)$/.exec(code)
+  if (call) {
+    const [, fn, args] = call
+    const parts = args.split(',').map(p => p.trim())
+    if (['S', 'LSFT', 'RSFT', 'LS', 'RS'].includes(fn)) return withShift(parseKeycode(parts[0]))
+    if (fn === 'LT') return parts.length > 1 ? parseKeycode(parts[1]) : { type: 'none' }
+    if (['MO', 'TG', 'TT', 'OSL', 'TO', 'DF'].includes(fn)) {
+      const layer = Number(parts[0])
+      return Number.isInteger(layer) ? { type: 'layer', layer } : { type: 'none' }
+    }
+    return { type: 'none' }
+  }
+
+  return parseKeyName(code)
+}
+
+function defaultColumns(keyCount: number): number {
+  if (keyCount % 12 === 0) return 12
+  if (keyCount % 10 === 0) return 10
+  return keyCount
+}
+
+// Accepts QMK's `keymap.json` shape (`{ layers: string[][] }`) with optional
+// `name`, `columns` and `layer_names`; keys may be QMK keycodes or ZMK bindings.
+export function parseKeymapJson(json: string): { keymap: Keymap | null, errors: ValidationError[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { keymap: null, errors: [{ code: 'invalidJson' }] }
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.layers) || parsed.layers.length === 0) {
+    return { keymap: null, errors: [{ code: 'missingArray', field: 'layers' }] }
+  }
+
+  const errors: ValidationError[] = []
+  const rawLayers = parsed.layers as unknown[]
+  const names = Array.isArray(parsed.layer_names) ? parsed.layer_names : []
+  const layers: KeymapLayer[] = []
+  rawLayers.forEach((raw, i) => {
+    if (!Array.isArray(raw) || !raw.every(code => typeof code === 'string')) {
+      errors.push({ code: 'notKeycodeArray', at: { layer: i } })
+      return
+    }
+    const name = typeof names[i] === 'string' ? names[i] as string : (i === 0 ? 'Base' : `Layer ${i}`)
+    layers.push({ name, keys: (raw as string[]).map(code => ({ code, action: parseKeycode(code) })) })
+  })
+  if (errors.length > 0) return { keymap: null, errors }
+
+  const keyCount = layers[0].keys.length
+  if (layers.some(layer => layer.keys.length !== keyCount)) {
+    return { keymap: null, errors: [{ code: 'unevenLayers' }] }
+  }
+  const columns = typeof parsed.columns === 'number' && parsed.columns > 0
+    ? Math.trunc(parsed.columns)
+    : defaultColumns(keyCount)
+
+  return {
+    keymap: { name: typeof parsed.name === 'string' ? parsed.name : 'Custom', columns, layers },
+    errors: [],
+  }
+}
+
+function positionOf(keymap: Keymap, index: number): KeyPosition {
+  return { index, row: Math.floor(index / keymap.columns), col: index % keymap.columns }
+}
+
+// Maps every reachable character to its cheapest binding: lowest layer first, then without Shift.
+export function buildCharIndex(keymap: Keymap): Map<string, KeyBinding> {
+  const activators = new Map<number, KeyPosition>()
+  keymap.layers[0]?.keys.forEach((key, index) => {
+    if (key.action.type === 'layer' && !activators.has(key.action.layer)) {
+      activators.set(key.action.layer, positionOf(keymap, index))
+    }
+  })
+
+  const index = new Map<string, KeyBinding>()
+  const add = (binding: KeyBinding) => {
+    const current = index.get(binding.char)
+    if (!current) {
+      index.set(binding.char, binding)
+      return
+    }
+    if (binding.layer < current.layer || (binding.layer === current.layer && current.shift && !binding.shift)) {
+      index.set(binding.char, binding)
+    }
+  }
+
+  keymap.layers.forEach((layer, layerIndex) => {
+    layer.keys.forEach((key, keyIndex) => {
+      if (key.action.type !== 'char') return
+      const base = {
+        layer: layerIndex,
+        layerName: layer.name,
+        position: positionOf(keymap, keyIndex),
+        activator: layerIndex === 0 ? null : activators.get(layerIndex) ?? null,
+      }
+      add({ ...base, char: key.action.char, shift: false })
+      const shifted = shiftedChar(key.action.char)
+      if (shifted != null) add({ ...base, char: shifted, shift: true })
+    })
+  })
+  return index
+}
+
+export function formatPosition(position: KeyPosition): string {
+  return `R${position.row + 1}C${position.col + 1}`
+}
+
+export function describeBinding(binding: KeyBinding): string {
+  const parts = [binding.layerName]
+  if (binding.activator) parts[0] += ` (${formatPosition(binding.activator)})`
+  parts.push(formatPosition(binding.position))
+  if (binding.shift) parts.push('Shift')
+  return parts.join(' + ')
+}
+
+// Key used for per-transition stats, e.g. `Lower→Raise`.
+export function transitionKey(from: string, to: string): string {
+  return `${from}→${to}`
+}
+
+// A 4x12 (Planck-style) 40% layout: Base, a symbol layer (Lower) and a number layer (Raise).
+export const DEFAULT_KEYMAP_JSON = JSON.stringify({
+  name: 'Default 40% (4x12)',
+  columns: 12,
+  layer_names: ['Base', 'Lower', 'Raise'],
+  layers: [
+    [
+      'KC_TAB', 'KC_Q', 'KC_W', 'KC_E', 'KC_R', 'KC_T', 'KC_Y', 'KC_U', 'KC_I', 'KC_O', 'KC_P', 'KC_BSPC',
+      'KC_ESC', 'KC_A', 'KC_S', 'KC_D', 'KC_F', 'KC_G', 'KC_H', 'KC_J', 'KC_K', 'KC_L', 'KC_SCLN', 'KC_QUOT',
+      'KC_LSFT', 'KC_Z', 'KC_X', 'KC_C', 'KC_V', 'KC_B', 'KC_N', 'KC_M', 'KC_COMM', 'KC_DOT', 'KC_SLSH', 'KC_ENT',
+      'KC_NO', 'KC_LCTL', 'KC_LALT', 'KC_LGUI', 'MO(1)', 'KC_SPC', 'KC_SPC', 'MO(2)', 'KC_LEFT', 'KC_DOWN', 'KC_UP', 'KC_RGHT',
+    ],
+    [
+      'KC_TILD', 'KC_EXLM', 'KC_AT', 'KC_HASH', 'KC_DLR', 'KC_PERC', 'KC_CIRC', 'KC_AMPR', 'KC_ASTR', 'KC_LPRN', 'KC_RPRN', 'KC_BSPC',
+      'KC_DEL', 'KC_LT', 'KC_GT', 'KC_LCBR', 'KC_RCBR', 'KC_LBRC', 'KC_RBRC', 'KC_UNDS', 'KC_PLUS', 'KC_PIPE', 'KC_COLN', 'KC_DQUO',
+      '_______', 'KC_GRV', 'KC_MINS', 'KC_EQL', 'KC_BSLS', 'KC_QUES', '_______', '_______', '_______', '_______', '_______', '_______',
+      '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______',
+    ],
+    [
+      'KC_GRV', 'KC_1', 'KC_2', 'KC_3', 'KC_4', 'KC_5', 'KC_6', 'KC_7', 'KC_8', 'KC_9', 'KC_0', 'KC_BSPC',
+      'KC_DEL', '_______', '_______', '_______', '_______', '_______', '_______', 'KC_MINS', 'KC_EQL', 'KC_LBRC', 'KC_RBRC', 'KC_BSLS',
+      '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', 'KC_COMM', 'KC_DOT', 'KC_SLSH', '_______',
+      '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______', '_______',
+    ],
+  ],
+}, null, 2)
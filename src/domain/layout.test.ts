@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { formatPhysicalKey, isAdjacentCode, JIS_LAYOUT, parseCustomLayoutJson, physicalKeyOf, resolveHostLayout, US_LAYOUT } from './layout'
+
+describe('physical keys', () => {
+  it('finds the key of a character on each layout, unshifted first', () => {
+    expect(physicalKeyOf(US_LAYOUT, '@')).toEqual({ code: 'Digit2', shift: true })
+    expect(physicalKeyOf(JIS_LAYOUT, '@')).toEqual({ code: 'BracketLeft', shift: false })
+    expect(physicalKeyOf(JIS_LAYOUT, '\\')).toEqual({ code: 'IntlYen', shift: false })
+    expect(physicalKeyOf(US_LAYOUT, ' ')).toEqual({ code: 'Space', shift: false })
+    expect(physicalKeyOf(US_LAYOUT, '¥')).toBeNull()
+  })
+
+  it('labels keys as printed on the layout', () => {
+    expect(formatPhysicalKey(US_LAYOUT, { code: 'Digit8', shift: true })).toBe('Shift + 8')
+    expect(formatPhysicalKey(JIS_LAYOUT, { code: 'BracketLeft', shift: false })).toBe('@')
+    expect(formatPhysicalKey(US_LAYOUT, { code: 'Space', shift: false })).toBe('Space')
+  })
+
+  it('treats keys on the same row and touching keys on the staggered rows as adjacent', () => {
+    expect(isAdjacentCode(US_LAYOUT, 'KeyF', 'KeyG')).toBe(true)
+    expect(isAdjacentCode(US_LAYOUT, 'KeyQ', 'KeyA')).toBe(true)
+    expect(isAdjacentCode(US_LAYOUT, 'KeyS', 'KeyW')).toBe(true)
+    expect(isAdjacentCode(US_LAYOUT, 'KeyW', 'KeyA')).toBe(false)
+    expect(isAdjacentCode(US_LAYOUT, 'KeyE', 'KeyA')).toBe(false)
+    expect(isAdjacentCode(US_LAYOUT, 'KeyQ', 'KeyZ')).toBe(false)
+    expect(isAdjacentCode(US_LAYOUT, 'KeyA', 'Enter')).toBe(false)
+  })
+})
+
+describe('parseCustomLayoutJson', () => {
+  it('replaces the listed keys of the base layout', () => {
+    const { layout, errors } = parseCustomLayoutJson(JSON.stringify({ name: ' Mine ', base: 'jis', keys: { KeyQ: ['ü', 'Ü'], Digit0: ['0', null] } }))
+    expect(errors).toEqual([])
+    expect(layout).toMatchObject({ id: 'custom', name: 'Mine', rows: JIS_LAYOUT.rows })
+    expect(layout?.keys.KeyQ).toEqual(['ü', 'Ü'])
+    expect(layout?.keys.BracketLeft).toEqual(['@', '`'])
+  })
+
+  it('reports a broken file, an unknown base and every invalid key', () => {
+    expect(parseCustomLayoutJson('{')).toEqual({ layout: null, errors: [{ code: 'invalidJson' }] })
+    expect(parseCustomLayoutJson('{"name":"x"}')).toEqual({ layout: null, errors: [{ code: 'missingFields', fields: ['keys'] }] })
+    expect(parseCustomLayoutJson(JSON.stringify({ base: 'dvorak', keys: { KeyA: ['a'], KeyB: ['bb', 'B'], KeyC: ['c', 'C'] } }))).toEqual({
+      layout: null,
+      errors: [{ code: 'layoutBase', value: 'dvorak' }, { code: 'layoutKey', at: { path: 'KeyA' } }, { code: 'layoutKey', at: { path: 'KeyB' } }],
+    })
+  })
+
+  it('falls back to US when the custom layout no longer parses', () => {
+    expect(resolveHostLayout({ id: 'jis', customSource: null })).toBe(JIS_LAYOUT)
+    expect(resolveHostLayout({ id: 'custom', customSource: '{' })).toBe(US_LAYOUT)
+    expect(resolveHostLayout({ id: 'custom', customSource: '{"keys":{}}' }).id).toBe('custom')
+  })
+})
@@ -0,0 +1,211 @@
+import type { ValidationError } from './validation'
+import { isRecord } from './validation'
+
+// The OS keyboard layout: which character each physical key (`KeyboardEvent.code`) types,
+// with and without Shift. Independent of the board's keymap, which decides which code is sent.
+export type HostLayoutId = 'us' | 'jis' | 'custom'
+
+// [unshifted, shifted]; null where the key types nothing.
+export type KeyChars = [string | null, string | null]
+
+export type HostLayout = {
+  id: HostLayoutId
+  name: string
+  keys: Record<string, KeyChars>
+  // Physical rows of the main block, left to right. A row starts one column to the right of the
+  // row above (staggered); `null` pads keys that do not type characters (Tab, Caps Lock, ...).
+  rows: (string | null)[][]
+}
+
+export type LayoutSettings = {
+  id: HostLayoutId
+  // Source JSON of the custom layout (used when `id` is `custom`).
+  customSource: string | null
+}
+
+// Where a character is typed on the OS layout.
+export type PhysicalKey = {
+  code: string
+  shift: boolean
+}
+
+export const HOST_LAYOUT_IDS: readonly HostLayoutId[] = ['us', 'jis', 'custom']
+
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = { id: 'us', customSource: null }
+
+const LETTER_CODES = 'abcdefghijklmnopqrstuvwxyz'.split('').map(ch => `Key${ch.toUpperCase()}`)
+
+function letterKeys(): Record<string, KeyChars> {
+  return Object.fromEntries(LETTER_CODES.map(code => {
+    const ch = code.slice(3).toLowerCase()
+    return [code, [ch, ch.toUpperCase()]]
+  }))
+}
+
+function digitKeys(shifted: string): Record<string, KeyChars> {
+  return Object.fromEntries(Array.from(shifted).map((s, i) => {
+    const digit = String((i + 1) % 10)
+    return [`Digit${digit}`, [digit, s === ' ' ? null : s]]
+  }))
+}
+
+const LETTER_ROWS = {
+  q: ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP'],
+  a: ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL'],
+  z: ['KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB', 'KeyN', 'KeyM'],
+}
+const DIGIT_CODES = ['Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8', 'Digit9', 'Digit0']
+
+export const US_LAYOUT: HostLayout = {
+  id: 'us',
+  name: 'US',
+  keys: {
+    ...letterKeys(),
+    ...digitKeys('!@#$%^&*()'),
+    Backquote: ['`', '~'],
+    Minus: ['-', '_'],
+    Equal: ['=', '+'],
+    BracketLeft: ['[', '{'],
+    BracketRight: [']', '}'],
+    Backslash: ['\\', '|'],
+    Semicolon: [';', ':'],
+    Quote: ["'", '"'],
+    Comma: [',', '<'],
+    Period: ['.', '>'],
+    Slash: ['/', '?'],
+    Space: [' ', ' '],
+  },
+  rows: [
+    ['Backquote', ...DIGIT_CODES, 'Minus', 'Equal'],
+    [null, ...LETTER_ROWS.q, 'BracketLeft', 'BracketRight', 'Backslash'],
+    [null, ...LETTER_ROWS.a, 'Semicolon', 'Quote'],
+    [null, ...LETTER_ROWS.z, 'Comma', 'Period', 'Slash'],
+  ],
+}
+
+// JIS: `@` and `[` sit right of P, `:` right of `;`, and Shift+0 types nothing.
+// The key left of Enter reports `Backslash` and types `]`; `¥` and `ろ` report `IntlYen` / `IntlRo`.
+export const JIS_LAYOUT: HostLayout = {
+  id: 'jis',
+  name: 'JIS',
+  keys: {
+    ...letterKeys(),
+    ...digitKeys('!"#$%&\'() '),
+    Minus: ['-', '='],
+    Equal: ['^', '~'],
+    IntlYen: ['\\', '|'],
+    BracketLeft: ['@', '`'],
+    BracketRight: ['[', '{'],
+    Semicolon: [';', '+'],
+    Quote: [':', '*'],
+    Backslash: [']', '}'],
+    Comma: [',', '<'],
+    Period: ['.', '>'],
+    Slash: ['/', '?'],
+    IntlRo: ['\\', '_'],
+    Space: [' ', ' '],
+  },
+  rows: [
+    ['Backquote', ...DIGIT_CODES, 'Minus', 'Equal', 'IntlYen'],
+    [null, ...LETTER_ROWS.q, 'BracketLeft', 'BracketRight'],
+    [null, ...LETTER_ROWS.a, 'Semicolon', 'Quote', 'Backslash'],
+    [null, ...LETTER_ROWS.z, 'Comma', 'Period', 'Slash', 'IntlRo'],
+  ],
+}
+
+const BUILTIN_LAYOUTS: Record<'us' | 'jis', HostLayout> = { us: US_LAYOUT, jis: JIS_LAYOUT }
+
+export function layoutChar(layout: HostLayout, code: string, shift: boolean): string | null {
+  const chars = layout.keys[code]
+  if (!chars) return null
+  return shift ? chars[1] : chars[0]
+}
+
+// Prefers the unshifted key when a character can be typed both ways.
+export function physicalKeyOf(layout: HostLayout, ch: string): PhysicalKey | null {
+  let shifted: PhysicalKey | null = null
+  for (const [code, chars] of Object.entries(layout.keys)) {
+    if (chars[0] === ch) return { code, shift: false }
+    if (chars[1] === ch && !shifted) shifted = { code, shift: true }
+  }
+  return shifted
+}
+
+function rowColOf(layout: HostLayout, code: string): { row: number, col: number } | null {
+  for (let row = 0; row < layout.rows.length; row++) {
+    const col = layout.rows[row].indexOf(code)
+    if (col >= 0) return { row, col }
+  }
+  return null
+}
+
+// Neighbours on the same row, or touching keys on the row above/below (rows are staggered).
+export function isAdjacentCode(layout: HostLayout, a: string, b: string): boolean {
+  const pa = rowColOf(layout, a)
+  const pb = rowColOf(layout, b)
+  if (!pa || !pb) return false
+  if (pa.row === pb.row) return Math.abs(pa.col - pb.col) === 1
+  const [upper, lower] = pa.row < pb.row ? [pa, pb] : [pb, pa]
+  if (lower.row - upper.row !== 1) return false
+  return lower.col === upper.col || lower.col === upper.col + 1
+}
+
+// Short key label as printed on the OS layout, e.g. `Shift + 8` or `@`.
+export function formatPhysicalKey(layout: HostLayout, key: PhysicalKey): string {
+  const label = layout.keys[key.code]?.[0]?.toUpperCase() ?? key.code
+  const name = label === ' ' ? 'Space' : label
+  return key.shift ? `Shift + ${name}` : name
+}
+
+function isKeyChar(v: unknown): v is string | null {
+  return v === null || (typeof v === 'string' && Array.from(v).length === 1)
+}
+
+// `{ "name"?, "base"?: "us" | "jis", "keys": { "<KeyboardEvent.code>": [unshifted, shifted] } }`.
+// Listed keys replace those of the base layout (US by default).
+export function parseCustomLayoutJson(json: string): { layout: HostLayout | null, errors: ValidationError[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { layout: null, errors: [{ code: 'invalidJson' }] }
+  }
+  if (!isRecord(parsed) || !isRecord(parsed.keys)) return { layout: null, errors: [{ code: 'missingFields', fields: ['keys'] }] }
+
+  const errors: ValidationError[] = []
+  const base = parsed.base === undefined ? US_LAYOUT : parsed.base === 'us' || parsed.base === 'jis' ? BUILTIN_LAYOUTS[parsed.base] : null
+  if (!base) errors.push({ code: 'layoutBase', value: String(parsed.base) })
+
+  const keys: Record<string, KeyChars> = {}
+  for (const [code, chars] of Object.entries(parsed.keys)) {
+    if (!Array.isArray(chars) || chars.length !== 2 || !chars.every(isKeyChar)) {
+      errors.push({ code: 'layoutKey', at: { path: code } })
+      continue
+    }
+    keys[code] = [chars[0], chars[1]]
+  }
+  if (errors.length > 0 || !base) return { layout: null, errors }
+
+  return {
+    layout: {
+      id: 'custom',
+      name: typeof parsed.name === 'string' && parsed.name.trim() !== '' ? parsed.name.trim() : 'Custom',
+      keys: { ...base.keys, ...keys },
+      rows: base.rows,
+    },
+    errors: [],
+  }
+}
+
+// Falls back to US when the custom layout is missing or no longer parses.
+export function resolveHostLayout(settings: LayoutSettings): HostLayout {
+  if (settings.id !== 'custom') return BUILTIN_LAYOUTS[settings.id]
+  const parsed = settings.customSource == null ? null : parseCustomLayoutJson(settings.customSource).layout
+  return parsed ?? US_LAYOUT
+}
+
+export function sanitizeLayoutSettings(v: unknown): LayoutSettings | null {
+  if (!isRecord(v)) return null
+  if (v.id !== 'us' && v.id !== 'jis' && v.id !== 'custom') return null
+  return { id: v.id, customSource: typeof v.customSource === 'string' ? v.customSource : null }
+}
@@ -0,0 +1,455 @@
+import type { ErrorMessages, ErrorPlace } from '../validation'
+import type { Messages } from './ja'
+
+const errors: ErrorMessages = {
+  invalidJson: () => 'Not valid JSON',
+  notBackup: () => 'Not a JSON file exported by this app',
+  notDrillCode: () => 'Not a drill code',
+  unsupportedVersion: e => `Unsupported version: ${e.version}`,
+  missingFields: e => `Missing ${e.fields.map(f => `\`${f}\``).join(' / ')}`,
+  missingArray: e => `Missing the \`${e.field}\` array`,
+  invalidFormat: () => 'Invalid format',
+  moreErrors: e => `and ${e.count} more`,
+  nameRequired: () => 'Enter a name',
+  noName: () => 'No name',
+  duplicateSetName: e => `A set with this name already exists: ${e.name}`,
+  duplicateProfileName: e => `A profile with this name already exists: ${e.name}`,
+  noItems: () => 'No items',
+  emptyItem: () => 'Contains an empty item',
+  unprintableItem: e => `Contains characters that cannot be displayed: ${e.item}`,
+  notSingleItem: e => `Single-character sets may only contain single characters: ${e.item}`,
+  duplicateItem: e => `Duplicate item: ${e.item}`,
+  stageMode: e => `The mode must be one of ${e.modes.join(' / ')}: ${e.value}`,
+  stageNotSingle: () => 'Contains items longer than one character',
+  stageDigitsFormat: e => `Number formats must be one of ${e.formats.join(' / ')}`,
+  minAttempts: () => 'mastery.minAttempts must be an integer of at least 1',
+  minAccuracy: () => 'mastery.minAccuracy must be between 0 and 100',
+  maxAvgMs: () => 'mastery.maxAvgMs must be a positive number',
+  noStages: () => 'No stages',
+  invalidMode: e => `Invalid mode: ${e.value}`,
+  invalidSeed: () => 'Invalid seed',
+  invalidItems: () => 'Invalid items',
+  invalidSettings: e => `Invalid settings: ${e.mode}`,
+  notKeycodeArray: () => 'Not an array of keycodes',
+  unevenLayers: () => 'Layers have different numbers of keys',
+  layoutBase: e => `base must be us or jis: ${e.value}`,
+  layoutKey: () => 'Not an array of [unshifted, Shift] single characters (or null)',
+  loading: () => 'Still loading',
+  lastProfile: () => 'The last profile cannot be deleted',
+  importedWithErrors: () => 'Imported everything except the invalid rows',
+  noPoolItems: () => 'No items to practice',
+  unknownOption: e => `Unknown option: --${e.option}`,
+  invalidOption: e => `Invalid value for --${e.option}: ${e.value}`,
+}
+
+export const en: Messages = {
+  app: {
+    title: 'Symbol Typing Trainer',
+    language: 'Language',
+    mode: 'Mode',
+    start: 'Start',
+    pause: 'Pause',
+    resume: 'Resume',
+    finish: 'Finish',
+    resetSession: 'Reset session',
+    wipeHistory: 'Wipe history',
+    wipeConfirm: 'This deletes all stats and history of this profile. Continue?',
+    session: 'Session:',
+    remaining: (clock: string) => `${clock} left`,
+    ghost: 'Ghost:',
+    ghostNone: 'No finished run with these settings yet',
+    ghostBest: (correct: number, clock: string) => `best: ${correct} targets in ${clock}`,
+    ghostTargets: (diff: number) => `${diff > 0 ? '+' : ''}${diff} targets`,
+    ghostEven: 'even',
+    ghostAhead: (time: string) => `${time} ahead`,
+    ghostBehind: (time: string) => `${time} behind`,
+    pressEnter: 'Press Enter to start',
+    typed: 'Typed:',
+    fix: 'Fix:',
+    fixHint: 'Delete it with Backspace',
+    key: 'Key:',
+    osKey: (layout: string, key: string) => ` (${layout}: ${key})`,
+    hintSeparator: '  ',
+    last: 'Last:',
+    splits: (first: string, rest: string) => `(to the first key ${first}, between keys ${rest})`,
+    help: 'No need to click anywhere: keys are picked up on the whole page. ',
+    footer: (poolSize: number, mode: string, kind: string, phase: string) => (
+      `Pool size: ${poolSize} / Mode: ${mode} / Session: ${kind} / ${phase}`
+    ),
+  },
+  phases: {
+    idle: 'Idle',
+    countdown: 'Countdown',
+    running: 'Running',
+    paused: 'Paused',
+    finished: 'Finished',
+  },
+  modes: {
+    single: 'Single',
+    combo: 'Combos (2–3)',
+    digits: 'Numbers',
+    snippet: 'Code',
+    brackets: 'Brackets',
+  },
+  columns: {
+    item: 'Item',
+    acc: 'Acc',
+    avg: 'Avg',
+    attempts: 'Attempts',
+    keys: 'Keys',
+  },
+  noData: 'No data yet',
+  noMisses: 'No misses yet',
+  allModes: 'All modes',
+  commands: {
+    openPalette: 'Open the command palette',
+    togglePause: 'Start / Pause / Resume',
+    resetSession: 'Reset session',
+    finishSession: 'Finish',
+    nextMode: 'Next mode',
+    startSprint: 'Start a sprint',
+  },
+  palette: {
+    placeholder: 'Search commands (e.g. mode, sprint, a symbol)',
+    empty: 'No matching commands',
+    mode: (label: string) => `Mode: ${label}`,
+    selected: 'Current',
+    sprint: (sec: number) => `Start a ${sec}s sprint`,
+    fixed: (count: number) => `Start a fixed session (${count} targets)`,
+    endless: 'Back to endless',
+    streamOn: 'Turn stream on',
+    streamOff: 'Turn stream off',
+    allItemsOn: 'Symbols: all on',
+    allItemsOff: 'Symbols: all off',
+    toggleItem: (item: string, on: boolean) => `Turn symbol ${item} ${on ? 'on' : 'off'}`,
+  },
+  hotkeys: {
+    title: 'Hotkeys',
+    reset: 'Reset to defaults',
+    none: 'None',
+    unbind: 'Unbind',
+    help: 'Select a field and press a key to bind it (a command already using that key loses it). Keys used as hotkeys do not count as input.',
+  },
+  profile: {
+    label: 'Profile',
+    add: 'Add',
+    rename: 'Rename',
+    delete: 'Delete',
+    newName: 'Name of the new profile',
+    name: 'Profile name',
+    deleteConfirm: (name: string) => `This deletes the settings, stats and history of profile "${name}". Continue?`,
+  },
+  sessionConfig: {
+    title: 'Session',
+    kind: 'Type',
+    duration: 'Time limit',
+    seconds: (sec: number) => `${sec}s`,
+    targetCount: 'Targets',
+    ghost: 'Race the best run (ghost)',
+  },
+  sessionKinds: {
+    endless: 'Endless',
+    sprint: 'Sprint',
+    fixed: 'Fixed count',
+  },
+  stream: {
+    title: 'Stream (upcoming targets are shown and typed in one go)',
+    enabled: 'Practice as a stream',
+    lookAhead: 'Look-ahead',
+    spaces: 'Type a space between targets',
+  },
+  errorPolicy: {
+    title: 'On a miss (per mode)',
+    policy: 'Behavior',
+  },
+  errorPolicies: {
+    reset: {
+      label: 'Start over',
+      description: 'A miss clears the input and the target starts over.',
+    },
+    stop: {
+      label: 'Wait for the right key',
+      description: 'A wrong key is not typed; the target waits until the right key is pressed.',
+    },
+    backspace: {
+      label: 'Fix with Backspace',
+      description: 'A wrong key is typed and has to be deleted with Backspace before going on (keys typed before deleting it are not counted as misses).',
+    },
+    skip: {
+      label: 'Skip to the next target',
+      description: 'A miss counts the target as wrong and moves on to the next one.',
+    },
+  },
+  scheduler: {
+    title: 'Selection',
+    strategy: 'Strategy',
+    exploration: (percent: number) => `Exploration ${percent}%`,
+  },
+  strategies: {
+    uniform: 'Random',
+    weighted: 'Weakest first',
+    spaced: 'Spaced repetition',
+  },
+  drill: {
+    title: 'Drill (the same code gives everyone the same targets in the same order)',
+    running: (mode: string, pool: string, seed: number) => `Drill running: ${mode} / ${pool} / seed ${seed}`,
+    items: (count: number) => `${count} items`,
+    create: 'Create from the current settings',
+    copyUrl: 'Copy URL',
+    copied: 'Copied',
+    exit: 'Exit',
+    placeholder: 'Drill code',
+    start: 'Start',
+    code: 'Code:',
+  },
+  curriculum: {
+    title: 'Curriculum (mastering a stage unlocks the next one)',
+    active: (name: string, stage: number) => `Curriculum: ${name} / stage ${stage}`,
+    completed: (name: string) => `Curriculum: ${name} (completed)`,
+    start: 'Start',
+    delete: 'Delete',
+    deleteConfirm: (name: string) => `This deletes the curriculum "${name}". Continue?`,
+    stop: 'Exit',
+    stage: 'Stage',
+    items: 'Items',
+    status: 'Status',
+    mastered: 'Mastered',
+    practicing: 'Practicing',
+    locked: 'Locked',
+    help: 'A stage is mastered after at least Attempts tries with accuracy of at least Acc and an average correct time of at most Avg (all time).',
+    template: 'Template JSON',
+    exportJson: 'Export JSON',
+    importJson: 'Import JSON',
+    builtinName: 'Intro to 40% keyboards',
+    builtinStages: ['Brackets', 'Operators', 'Quotes and punctuation', 'Other symbols', 'Combos', 'Numbers'],
+  },
+  digits: {
+    title: 'Targets (numbers)',
+    intMin: 'Integer digits (min)',
+    intMax: 'Integer digits (max)',
+    sign: 'Sign (+/-)',
+    decimal: 'Decimals (.)',
+    fracMin: 'Decimal digits (min)',
+    fracMax: 'Decimal digits (max)',
+    formats: 'Other formats (picked evenly among the selected ones; at least one format, integers/decimals included, stays selected)',
+  },
+  digitsFormats: {
+    plain: 'Integers/decimals',
+    hex: 'Hexadecimal',
+    binary: 'Binary',
+    octal: 'Octal',
+    scientific: 'Scientific notation',
+    separated: 'Digit separators',
+    percent: 'Percent',
+    version: 'Version',
+    ipv4: 'IPv4 and port',
+    datetime: 'ISO date/time',
+  },
+  digitsFormatLengths: {
+    hex: 'Digits',
+    binary: 'Digits',
+    octal: 'Digits',
+    scientific: 'Mantissa digits',
+    separated: 'Integer digits',
+    percent: 'Integer digits',
+    version: 'Parts',
+    ipv4: 'Port digits (0 for none)',
+    datetime: 'Parts (date / hh:mm / ss)',
+  },
+  brackets: {
+    title: 'Targets (brackets)',
+    minPairs: 'Pairs (min)',
+    maxPairs: 'Pairs (max)',
+    maxDepth: 'Nesting depth (max)',
+    autoClose: 'Auto-close (closing brackets are inserted as in an editor; type them or skip them with → / Tab)',
+  },
+  symbols: {
+    title: (enabled: number, total: number) => `Symbols to practice (${enabled} / ${total})`,
+    allOn: 'All on',
+    allOff: 'All off',
+    builtin: 'Built-in',
+    source: (name: string, count: number) => `${name} (${count})`,
+    empty: 'No symbols to practice. Check some of them.',
+  },
+  snippetLanguages: {
+    title: (lines: number) => `Languages (${lines} lines)`,
+    language: (name: string, lines: number) => `${name} (${lines})`,
+    empty: 'No languages to practice. Check some of them.',
+  },
+  customSets: {
+    title: (count: number) => `Custom sets (${count})`,
+    create: 'New',
+    export: 'Export',
+    import: 'Import',
+    edit: 'Edit',
+    delete: 'Delete',
+    deleteConfirm: (name: string) => `This deletes "${name}". Continue?`,
+    name: 'Name',
+    items: 'Items (separated by spaces or new lines)',
+    save: 'Save',
+    cancel: 'Cancel',
+  },
+  keymap: {
+    title: (name: string, layers: string) => `Keymap: ${name} (${layers})`,
+    import: 'Import',
+    reset: 'Reset to default',
+  },
+  layout: {
+    title: (name: string) => `OS layout: ${name}`,
+    importCustom: 'Import custom',
+    help: 'Which character the OS types for each physical key (e.code) the keyboard sends (left: unshifted / right: Shift).',
+    customHelp: 'A custom layout replaces only the keys it lists, in this format:',
+  },
+  hostLayouts: {
+    us: 'US',
+    jis: 'JIS',
+    custom: 'Custom',
+  },
+  dataTransfer: {
+    title: 'Export / import',
+    itemsCsv: 'Items CSV',
+    sessionsCsv: 'Sessions CSV',
+    keystrokesCsv: 'Keystrokes CSV',
+    json: 'JSON',
+    import: 'Import',
+    strategies: {
+      merge: {
+        label: 'Add to the current data',
+        description: 'For a file from another profile or device. Lifetime stats are added up.',
+      },
+      update: {
+        label: 'Update from an earlier export',
+        description: 'For an export of this profile, such as the file the terminal version wrote. Lifetime stats keep the side with more attempts per item, so nothing is counted twice, but for items practiced on both sides since the export, the practice on the other side is lost.',
+      },
+      replace: {
+        label: 'Replace the current data',
+        description: 'The stats and history of this profile become the contents of the file.',
+      },
+    },
+    choose: 'Choose JSON',
+    replaceConfirm: 'This replaces the current stats and history with the contents of the file. Continue?',
+    imported: 'Imported',
+  },
+  summary: {
+    title: (configKey: string) => `Result (${configKey})`,
+    again: 'Again (Enter)',
+    close: 'Close',
+    time: 'Time',
+    targetsPerMin: 'Targets/min',
+    keysPerMin: 'Keys/min',
+    accuracy: 'Accuracy',
+    completed: 'Completed',
+    backspace: 'Backspace',
+    best: 'Best:',
+    noBest: 'No earlier sessions with the same settings',
+    previousBest: (targetsPerMin: string, targetsDelta: string, keysPerMin: string, keysDelta: string) => (
+      `Previous best ${targetsPerMin} targets/min (${targetsDelta}) / ${keysPerMin} keys/min (${keysDelta})`
+    ),
+    slowest: 'Slowest items',
+  },
+  stats: {
+    title: 'Stats',
+    attempts: 'Attempts',
+    correct: 'Correct',
+    miss: 'Miss',
+    backspace: 'Backspace',
+    accuracy: 'Accuracy',
+    snippetClasses: 'Character classes in code (slowest first)',
+    charClass: 'Class',
+    digitsFormats: 'By number format (slowest first)',
+    format: 'Format',
+    brackets: 'Brackets (opening / closing)',
+    pair: 'Pair',
+    openAcc: 'Open Acc',
+    openAvg: 'Open Avg',
+    closeAcc: 'Close Acc',
+    closeAvg: 'Close Avg',
+    layers: 'By layer',
+    layer: 'Layer',
+    transitions: 'Layer transitions (slowest first)',
+    transition: 'Transition',
+    bigrams: 'Key to key (slowest first)',
+    firstKey: 'To the first key (average):',
+    recentSessions: (total: number) => `Recent sessions (${total} in total)`,
+    noHistory: 'No history yet',
+    date: 'Date',
+    mode: 'Mode',
+  },
+  charClasses: {
+    symbol: 'Symbols',
+    letter: 'Letters',
+    digit: 'Digits',
+    space: 'Spaces',
+  },
+  itemStats: {
+    title: (shown: number, total: number) => `By item (${shown} / ${total})`,
+    filter: 'Filter',
+    digitsFilter: 'Filter (e.g. digit, position first, length)',
+    noMatch: 'No matching items',
+    positions: { first: 'first', middle: 'middle', last: 'last' },
+    length: (range: string) => `${range} chars`,
+  },
+  digitsStatGroups: {
+    digit: 'Digit',
+    sign: 'Sign',
+    point: 'Decimal point',
+    char: 'Other character',
+    position: 'Position',
+    length: 'Length',
+    format: 'Format',
+  },
+  confusion: {
+    title: 'Mistyped keys (expected → typed)',
+    times: (count: number) => `${count} times`,
+    corner: 'Expected \\ typed',
+  },
+  miss: {
+    title: (layout: string) => `Kinds of misses (judged by the ${layout} layout and the keymap)`,
+    expected: 'Expected',
+    total: 'Total',
+    share: (count: number, percent: string) => `${count} (${percent}%)`,
+  },
+  missKinds: {
+    shift: 'Wrong Shift',
+    layer: 'Wrong layer',
+    adjacent: 'Adjacent key',
+    other: 'Other',
+  },
+  progress: {
+    title: 'Progress',
+    allItems: 'All items',
+    bySession: 'Per session',
+    byDay: 'Per day',
+    days: (days: number) => `${days} days`,
+    allTime: 'All time',
+    accuracy: 'Accuracy',
+    medianTime: 'Completion time (median)',
+  },
+  cli: {
+    usage: (dataPath: string) => [
+      'Usage: pnpm cli [options]',
+      '',
+      '  --mode <single|combo|digits|snippet|brackets>  Mode (default: single)',
+      '  --session <endless|sprint|fixed>               Session type (default: endless)',
+      '  --seconds <30|60|120>                          Time limit of a sprint',
+      '  --targets <1-500>                              Targets of a fixed session',
+      '  --layout <us|jis>                              OS keyboard layout (for the keystroke log)',
+      `  --data <file>                                  Stats file (default: ${dataPath})`,
+      '  --lang <en|ja>                                 Language',
+      '  --help                                         Show this help',
+    ].join('\n'),
+    controls: 'Esc: pause / resume  Ctrl+R: reset session  Ctrl+F: finish and show results  Ctrl+C: save and quit',
+    notTty: 'Run this in an interactive terminal (stdin is not a TTY)',
+    readFailed: (path: string) => `Could not read ${path}; quitting so it is not overwritten:`,
+    saved: (path: string) => `Saved to ${path}`,
+    played: (count: number) => `Sessions this time: ${count}`,
+    noSessions: 'No sessions were recorded',
+  },
+  errorPlace: (at: ErrorPlace) => [
+    at.path,
+    at.name,
+    at.stage == null ? null : `stage ${at.stage}`,
+    at.layer == null ? null : `layer ${at.layer}`,
+  ].filter(Boolean).join(' '),
+  errors,
+}
@@ -0,0 +1,469 @@
+import type { ImportStrategy } from '../backup'
+import type { CommandId } from '../commands'
+import type { DigitsFormat, DigitsPosition, DigitsStatGroup, ExtendedDigitsFormat } from '../digits'
+import type { MissKind } from '../diagnostics'
+import type { ErrorPolicy } from '../errorPolicy'
+import type { HostLayoutId } from '../layout'
+import type { Mode } from '../modes'
+import type { SelectionStrategy } from '../scheduler'
+import type { SessionKind, SessionPhase } from '../session'
+import type { CharClass } from '../snippets'
+import type { ErrorMessages, ErrorPlace } from '../validation'
+
+const errors: ErrorMessages = {
+  invalidJson: () => 'JSONとして読み込めません',
+  notBackup: () => 'エクスポートしたJSONではありません',
+  notDrillCode: () => 'ドリルコードとして読み込めません',
+  unsupportedVersion: e => `対応していないバージョンです: ${e.version}`,
+  missingFields: e => `${e.fields.map(f => `\`${f}\``).join(' / ')} がありません`,
+  missingArray: e => `\`${e.field}\` 配列がありません`,
+  invalidFormat: () => '形式が正しくありません',
+  moreErrors: e => `ほか ${e.count} 件`,
+  nameRequired: () => '名前を入力してください',
+  noName: () => '名前がありません',
+  duplicateSetName: e => `同じ名前のセットがあります: ${e.name}`,
+  duplicateProfileName: e => `同じ名前のプロフィールがあります: ${e.name}`,
+  noItems: () => '項目がありません',
+  emptyItem: () => '空の項目があります',
+  unprintableItem: e => `表示できない文字を含んでいます: ${e.item}`,
+  notSingleItem: e => `1文字セットには1文字の項目だけを入れてください: ${e.item}`,
+  duplicateItem: e => `重複しています: ${e.item}`,
+  stageMode: e => `モードは ${e.modes.join(' / ')} のどれかです: ${e.value}`,
+  stageNotSingle: () => '1文字ではない項目があります',
+  stageDigitsFormat: e => `数字の形式は ${e.formats.join(' / ')} のどれかです`,
+  minAttempts: () => 'mastery.minAttempts は1以上の整数です',
+  minAccuracy: () => 'mastery.minAccuracy は0〜100です',
+  maxAvgMs: () => 'mastery.maxAvgMs は正の数です',
+  noStages: () => 'ステージがありません',
+  invalidMode: e => `モードが正しくありません: ${e.value}`,
+  invalidSeed: () => 'シードが正しくありません',
+  invalidItems: () => '項目が正しくありません',
+  invalidSettings: e => `設定が正しくありません: ${e.mode}`,
+  notKeycodeArray: () => 'キーコードの配列ではありません',
+  unevenLayers: () => 'レイヤーごとのキー数が揃っていません',
+  layoutBase: e => `base は us / jis のどちらかです: ${e.value}`,
+  layoutKey: () => '[通常, Shift] の1文字（またはnull）の配列ではありません',
+  loading: () => '読み込み中です',
+  lastProfile: () => '最後のプロフィールは削除できません',
+  importedWithErrors: () => '形式が正しくない行を除いてインポートしました',
+  noPoolItems: () => '出題する項目がありません',
+  unknownOption: e => `不明なオプションです: --${e.option}`,
+  invalidOption: e => `--${e.option} の値が正しくありません: ${e.value}`,
+}
+
+// The source catalog: every other locale has to provide exactly these keys (see `Messages`).
+export const ja = {
+  app: {
+    title: 'Symbol Typing Trainer',
+    language: '言語',
+    mode: 'Mode',
+    start: 'Start',
+    pause: 'Pause',
+    resume: 'Resume',
+    finish: 'Finish',
+    resetSession: 'Reset session',
+    wipeHistory: 'Wipe history',
+    wipeConfirm: 'このプロフィールの統計と履歴をすべて削除します。よろしいですか？',
+    session: 'Session:',
+    remaining: (clock: string) => `残り ${clock}`,
+    ghost: 'Ghost:',
+    ghostNone: 'この設定で最後まで終えた記録はまだありません',
+    ghostBest: (correct: number, clock: string) => `ベスト: ${correct}問 / ${clock}`,
+    ghostTargets: (diff: number) => `${diff > 0 ? '+' : ''}${diff}問`,
+    ghostEven: '互角',
+    ghostAhead: (time: string) => `${time} リード`,
+    ghostBehind: (time: string) => `${time} 遅れ`,
+    pressEnter: 'Enter で開始',
+    typed: 'Typed:',
+    fix: 'Fix:',
+    fixHint: 'Backspaceで消してください',
+    key: 'Key:',
+    osKey: (layout: string, key: string) => `（${layout}: ${key}）`,
+    hintSeparator: '　',
+    last: 'Last:',
+    splits: (first: string, rest: string) => `（最初のキーまで ${first}、キー間 ${rest}）`,
+    help: '画面をクリックする必要はありません（キー入力は全体で拾います）。',
+    footer: (poolSize: number, mode: string, kind: string, phase: string) => (
+      `Pool size: ${poolSize} / Mode: ${mode} / Session: ${kind} / ${phase}`
+    ),
+  },
+  phases: {
+    idle: 'Idle',
+    countdown: 'Countdown',
+    running: 'Running',
+    paused: 'Paused',
+    finished: 'Finished',
+  } satisfies Record<SessionPhase, string>,
+  modes: {
+    single: '1文字',
+    combo: '2〜3文字',
+    digits: '数字',
+    snippet: 'コード',
+    brackets: '括弧',
+  } satisfies Record<Mode, string>,
+  columns: {
+    item: 'Item',
+    acc: 'Acc',
+    avg: 'Avg',
+    attempts: 'Attempts',
+    keys: 'Keys',
+  },
+  noData: 'まだデータがありません',
+  noMisses: 'まだミスがありません',
+  allModes: '全モード',
+  commands: {
+    openPalette: 'コマンドパレットを開く',
+    togglePause: 'Start / Pause / Resume',
+    resetSession: 'Reset session',
+    finishSession: 'Finish',
+    nextMode: 'つぎのモードへ',
+    startSprint: 'タイムアタックを開始',
+  } satisfies Record<CommandId, string>,
+  palette: {
+    placeholder: 'コマンドを検索（例: mode、sprint、記号の名前）',
+    empty: '一致するコマンドがありません',
+    mode: (label: string) => `モード: ${label}`,
+    selected: '選択中',
+    sprint: (sec: number) => `タイムアタック ${sec}秒を開始`,
+    fixed: (count: number) => `問題数固定（${count}問）を開始`,
+    endless: 'エンドレスに戻す',
+    streamOn: 'ストリームをON',
+    streamOff: 'ストリームをOFF',
+    allItemsOn: '記号: すべてON',
+    allItemsOff: '記号: すべてOFF',
+    toggleItem: (item: string, on: boolean) => `記号 ${item} を${on ? 'ON' : 'OFF'}`,
+  },
+  hotkeys: {
+    title: 'ホットキー',
+    reset: 'デフォルトに戻す',
+    none: 'なし',
+    unbind: '解除',
+    help: '欄を選んでキーを押すと割り当てます（ほかのコマンドと同じキーなら、そちらは解除されます）。ホットキーとして使ったキーは入力として数えません。',
+  },
+  profile: {
+    label: 'Profile',
+    add: 'Add',
+    rename: 'Rename',
+    delete: 'Delete',
+    newName: '新しいプロフィールの名前',
+    name: 'プロフィールの名前',
+    deleteConfirm: (name: string) => `プロフィール「${name}」の設定・統計・履歴を削除します。よろしいですか？`,
+  },
+  sessionConfig: {
+    title: 'セッション',
+    kind: '種類',
+    duration: '制限時間',
+    seconds: (sec: number) => `${sec}秒`,
+    targetCount: '問題数',
+    ghost: 'ベスト記録（ゴースト）と競う',
+  },
+  sessionKinds: {
+    endless: 'エンドレス',
+    sprint: 'タイムアタック',
+    fixed: '問題数固定',
+  } satisfies Record<SessionKind, string>,
+  stream: {
+    title: 'ストリーム（つぎの問題を並べて、続けて打つ）',
+    enabled: 'ストリームで出題',
+    lookAhead: '先読み数',
+    spaces: '問題の間にスペースを打つ',
+  },
+  errorPolicy: {
+    title: 'ミスしたとき（モードごと）',
+    policy: '方式',
+  },
+  errorPolicies: {
+    reset: {
+      label: 'ミスで最初から',
+      description: 'ミスすると入力中の問題を最初からやり直します。',
+    },
+    stop: {
+      label: '正しく打つまで止まる',
+      description: 'ミスしたキーは入力されず、正しいキーを押すまで先に進みません。',
+    },
+    backspace: {
+      label: 'Backspaceで修正',
+      description: 'ミスしたキーも入力され、Backspaceで消すまで先に進めません（消すまでに打ったキーはミスに数えません）。',
+    },
+    skip: {
+      label: 'ミスで次の問題へ',
+      description: 'ミスするとその問題は不正解として次の問題に進みます。',
+    },
+  } satisfies Record<ErrorPolicy, { label: string, description: string }>,
+  scheduler: {
+    title: '出題方式',
+    strategy: '方式',
+    exploration: (percent: number) => `探索率 ${percent}%`,
+  },
+  strategies: {
+    uniform: 'ランダム',
+    weighted: '苦手優先',
+    spaced: '間隔反復',
+  } satisfies Record<SelectionStrategy, string>,
+  drill: {
+    title: 'ドリル（同じコードなら誰でも同じ順番で出題されます）',
+    running: (mode: string, pool: string, seed: number) => `ドリル実行中: ${mode} / ${pool} / seed ${seed}`,
+    items: (count: number) => `${count}項目`,
+    create: '現在の設定で作成',
+    copyUrl: 'URLをコピー',
+    copied: 'コピーしました',
+    exit: '終了',
+    placeholder: 'ドリルコード',
+    start: '開始',
+    code: 'Code:',
+  },
+  curriculum: {
+    title: 'カリキュラム（習熟するとつぎのステージが解放されます）',
+    active: (name: string, stage: number) => `カリキュラム: ${name} / ステージ${stage}`,
+    completed: (name: string) => `カリキュラム: ${name}（修了）`,
+    start: '開始',
+    delete: '削除',
+    deleteConfirm: (name: string) => `カリキュラム「${name}」を削除します。よろしいですか？`,
+    stop: '終了',
+    stage: 'ステージ',
+    items: '項目',
+    status: '状態',
+    mastered: '習熟',
+    practicing: '練習中',
+    locked: '未解放',
+    help: '習熟の条件: Attempts 以上打って、正解率 Acc 以上、正解時の平均 Avg 以下（これまでの累計）。',
+    template: 'テンプレートJSON',
+    exportJson: 'JSONを書き出し',
+    importJson: 'JSONを読み込み',
+    // The built-in curriculum, stage by stage.
+    builtinName: '40%キーボード入門',
+    builtinStages: ['括弧', '演算子', '引用符・句読点', 'その他の記号', 'コンボ', '数字'],
+  },
+  digits: {
+    title: '出題設定（数字）',
+    intMin: '整数 桁数(min)',
+    intMax: '整数 桁数(max)',
+    sign: '符号（+/-）',
+    decimal: '小数（.）',
+    fracMin: '小数 桁数(min)',
+    fracMax: '小数 桁数(max)',
+    formats: 'ほかの形式（選んだ形式から均等に出題。整数/小数を含めて最低1つは選んだままになります）',
+  },
+  digitsFormats: {
+    plain: '整数/小数',
+    hex: '16進数',
+    binary: '2進数',
+    octal: '8進数',
+    scientific: '指数表記',
+    separated: '桁区切り',
+    percent: 'パーセント',
+    version: 'バージョン',
+    ipv4: 'IPv4とポート',
+    datetime: 'ISO日付/時刻',
+  } satisfies Record<DigitsFormat, string>,
+  // What the length range of each format counts.
+  digitsFormatLengths: {
+    hex: '桁数',
+    binary: '桁数',
+    octal: '桁数',
+    scientific: '仮数の桁数',
+    separated: '整数の桁数',
+    percent: '整数の桁数',
+    version: '要素数',
+    ipv4: 'ポートの桁数（0でなし）',
+    datetime: '要素数（日付/時:分/秒）',
+  } satisfies Record<ExtendedDigitsFormat, string>,
+  brackets: {
+    title: '出題設定（括弧）',
+    minPairs: 'ペア数(min)',
+    maxPairs: 'ペア数(max)',
+    maxDepth: 'ネストの深さ(max)',
+    autoClose: '自動で閉じる（エディタのように閉じ括弧を補完。閉じ括弧は打つか → / Tab で飛ばす）',
+  },
+  symbols: {
+    title: (enabled: number, total: number) => `出題する記号（${enabled} / ${total}）`,
+    allOn: '全てON',
+    allOff: '全てOFF',
+    builtin: '組み込み',
+    source: (name: string, count: number) => `${name}（${count}）`,
+    empty: '出題する記号がありません。チェックを入れてください。',
+  },
+  snippetLanguages: {
+    title: (lines: number) => `出題する言語（${lines}行）`,
+    language: (name: string, lines: number) => `${name}（${lines}）`,
+    empty: '出題する言語がありません。チェックを入れてください。',
+  },
+  customSets: {
+    title: (count: number) => `カスタムセット（${count}）`,
+    create: '新規作成',
+    export: 'Export',
+    import: 'Import',
+    edit: '編集',
+    delete: '削除',
+    deleteConfirm: (name: string) => `「${name}」を削除します。よろしいですか？`,
+    name: '名前',
+    items: '項目（空白・改行区切り）',
+    save: '保存',
+    cancel: 'キャンセル',
+  },
+  keymap: {
+    title: (name: string, layers: string) => `キーマップ: ${name}（${layers}）`,
+    import: 'Import',
+    reset: 'デフォルトに戻す',
+  },
+  layout: {
+    title: (name: string) => `OSの配列: ${name}`,
+    importCustom: 'カスタムを読み込み',
+    help: 'キーボードがどの物理キー（e.code）を送ると、OSがどの文字を入力するかの表です（左: 通常 / 右: Shift）。',
+    customHelp: 'カスタム配列は次の形式で、書いたキーだけを置き換えます:',
+  },
+  hostLayouts: {
+    us: 'US',
+    jis: 'JIS',
+    custom: 'カスタム',
+  } satisfies Record<HostLayoutId, string>,
+  dataTransfer: {
+    title: 'エクスポート / インポート',
+    itemsCsv: '項目CSV',
+    sessionsCsv: 'セッションCSV',
+    keystrokesCsv: 'キー入力CSV',
+    json: 'JSON',
+    import: 'インポート',
+    strategies: {
+      merge: {
+        label: '今のデータに追加',
+        description: '別のプロフィールや端末のファイル向け。累計統計を足し合わせます。',
+      },
+      update: {
+        label: '以前のエクスポートで更新',
+        description: 'このプロフィールのエクスポート（ターミナル版で更新したファイルなど）向け。累計統計は項目ごとに試行回数の多い方を残すので、同じ練習を2回数えませんが、エクスポート後に両方で練習した項目は少ない方の練習が反映されません。',
+      },
+      replace: {
+        label: '今のデータと置き換え',
+        description: '現在のプロフィールの統計と履歴をファイルの内容にします。',
+      },
+    } satisfies Record<ImportStrategy, { label: string, description: string }>,
+    choose: 'JSONを選択',
+    replaceConfirm: '現在の統計と履歴をファイルの内容で置き換えます。よろしいですか？',
+    imported: 'インポートしました',
+  },
+  summary: {
+    title: (configKey: string) => `結果（${configKey}）`,
+    again: 'もう一度（Enter）',
+    close: '閉じる',
+    time: 'Time',
+    targetsPerMin: 'Targets/min',
+    keysPerMin: 'Keys/min',
+    accuracy: 'Accuracy',
+    completed: 'Completed',
+    backspace: 'Backspace',
+    best: 'Best:',
+    noBest: '同じ設定の過去セッションはありません',
+    previousBest: (targetsPerMin: string, targetsDelta: string, keysPerMin: string, keysDelta: string) => (
+      `前回までのベスト ${targetsPerMin} targets/min（${targetsDelta}） / ${keysPerMin} keys/min（${keysDelta}）`
+    ),
+    slowest: '遅かった項目',
+  },
+  stats: {
+    title: 'Stats',
+    attempts: 'Attempts',
+    correct: 'Correct',
+    miss: 'Miss',
+    backspace: 'Backspace',
+    accuracy: 'Accuracy',
+    snippetClasses: 'コード内の文字の種類（遅い順）',
+    charClass: 'Class',
+    digitsFormats: '数字の形式別（遅い順）',
+    format: 'Format',
+    brackets: '括弧（開き / 閉じ）',
+    pair: 'Pair',
+    openAcc: 'Open Acc',
+    openAvg: 'Open Avg',
+    closeAcc: 'Close Acc',
+    closeAvg: 'Close Avg',
+    layers: 'レイヤー別',
+    layer: 'Layer',
+    transitions: 'レイヤー遷移（遅い順）',
+    transition: 'Transition',
+    bigrams: 'キー間の遷移（遅い順）',
+    firstKey: '最初のキーまで（平均）:',
+    recentSessions: (total: number) => `直近のセッション（全${total}件）`,
+    noHistory: 'まだ履歴がありません',
+    date: 'Date',
+    mode: 'Mode',
+  },
+  charClasses: {
+    symbol: '記号',
+    letter: '英字',
+    digit: '数字',
+    space: '空白',
+  } satisfies Record<CharClass, string>,
+  itemStats: {
+    title: (shown: number, total: number) => `項目別（${shown} / ${total}件）`,
+    filter: '絞り込み',
+    digitsFilter: '絞り込み（例: 数字、位置 先頭、長さ）',
+    noMatch: '一致する項目がありません',
+    positions: { first: '先頭', middle: '途中', last: '末尾' } satisfies Record<DigitsPosition, string>,
+    length: (range: string) => `${range}文字`,
+  },
+  digitsStatGroups: {
+    digit: '数字',
+    sign: '符号',
+    point: '小数点',
+    char: 'その他の文字',
+    position: '位置',
+    length: '長さ',
+    format: '形式',
+  } satisfies Record<DigitsStatGroup, string>,
+  confusion: {
+    title: '打ち間違い（期待 → 実際）',
+    times: (count: number) => `${count}回`,
+    corner: '期待＼実際',
+  },
+  miss: {
+    title: (layout: string) => `ミスの種類（${layout}配列とキーマップで判定）`,
+    expected: '期待',
+    total: '合計',
+    share: (count: number, percent: string) => `${count}（${percent}%）`,
+  },
+  missKinds: {
+    shift: 'Shiftの押し間違い',
+    layer: 'レイヤー違い',
+    adjacent: '隣のキー',
+    other: 'その他',
+  } satisfies Record<MissKind, string>,
+  progress: {
+    title: '推移',
+    allItems: '全項目',
+    bySession: 'セッションごと',
+    byDay: '日ごと',
+    days: (days: number) => `${days}日`,
+    allTime: '全期間',
+    accuracy: '正答率',
+    medianTime: '完了時間（中央値）',
+  },
+  cli: {
+    usage: (dataPath: string) => [
+      '使い方: pnpm cli [オプション]',
+      '',
+      '  --mode <single|combo|digits|snippet|brackets>  モード（既定: single）',
+      '  --session <endless|sprint|fixed>               セッションの種類（既定: endless）',
+      '  --seconds <30|60|120>                          タイムアタックの制限時間',
+      '  --targets <1-500>                              問題数固定の問題数',
+      '  --layout <us|jis>                              OSのキーボード配列（キー入力ログ用）',
+      `  --data <ファイル>                              統計ファイル（既定: ${dataPath}）`,
+      '  --lang <en|ja>                                 表示言語',
+      '  --help                                         このヘルプを表示',
+    ].join('\n'),
+    controls: 'Esc: 一時停止 / 再開  Ctrl+R: セッションをリセット  Ctrl+F: 終了して結果を表示  Ctrl+C: 保存して終了',
+    notTty: '対話できる端末で実行してください（標準入力がTTYではありません）',
+    readFailed: (path: string) => `${path} を読み込めませんでした。上書きしないように終了します:`,
+    saved: (path: string) => `${path} に保存しました`,
+    played: (count: number) => `今回のセッション: ${count}`,
+    noSessions: '記録されたセッションはありません',
+  },
+  errorPlace: (at: ErrorPlace) => [
+    at.path,
+    at.name,
+    at.stage == null ? null : `ステージ${at.stage}`,
+    at.layer == null ? null : `レイヤー${at.layer}`,
+  ].filter(Boolean).join(' '),
+  errors,
+}
+
+export type Messages = typeof ja
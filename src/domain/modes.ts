@@ -1 +1,78 @@
-export type Mode = 'single' | 'combo' | 'digits'
+import type { PoolInputs } from './customSets'
+import type { TargetGenerator } from './targetGenerator'
+import { isRecord } from './validation'
+
+// The settings type of every mode, by id. Each mode adds itself next to its generator:
+//
+//   declare module '../domain/modes' {
+//     interface ModeSettings { digits: DigitsSettings }
+//   }
+export interface ModeSettings {
+  // Not a mode (see `Mode`): the base shape the modes are merged into.
+  readonly base?: never
+}
+
+export type Mode = Exclude<keyof ModeSettings, 'base'>
+
+export type SettingsOf<M extends Mode> = ModeSettings[M]
+
+// The settings of every mode (null for modes without any).
+export type GeneratorSettings = { [M in Mode]: SettingsOf<M> }
+
+const registered = {} as Record<Mode, TargetGenerator<unknown>>
+const registeredModes: Mode[] = []
+
+// Every mode, in the order they are offered (the order they registered in, see `src/modes`).
+export const MODES: readonly Mode[] = registeredModes
+
+export const GENERATORS: Readonly<Record<Mode, TargetGenerator<unknown>>> = registered
+
+// Adds a mode. `src/modes` registers them all before the app or the terminal version starts.
+export function registerGenerator<S>(generator: TargetGenerator<S>): void {
+  if (!(generator.id in registered)) registeredModes.push(generator.id)
+  // The registry cannot tie a mode to its own settings type; `ModeSettings` does.
+  registered[generator.id] = generator as TargetGenerator<unknown>
+}
+
+export function generatorOf(mode: Mode): TargetGenerator<unknown> {
+  return GENERATORS[mode]
+}
+
+// Modes whose targets are generated from settings instead of drawn from a pool of items.
+export function isGeneratedMode(mode: Mode): boolean {
+  return generatorOf(mode).pool == null
+}
+
+// The items a mode draws its targets from with `settings` (generated modes have none).
+export function buildPool(mode: Mode, settings: unknown, inputs: PoolInputs): string[] {
+  return generatorOf(mode).pool?.(settings, inputs) ?? []
+}
+
+export function defaultGeneratorSettings(): GeneratorSettings {
+  return Object.fromEntries(MODES.map(mode => [mode, generatorOf(mode).settings?.defaults ?? null])) as GeneratorSettings
+}
+
+// Stored or shared settings per mode. Modes missing from `v` keep `fallback`; so do invalid
+// ones, which are also listed in `invalid`.
+export function sanitizeGeneratorSettings(v: unknown, fallback: GeneratorSettings = defaultGeneratorSettings()): {
+  settings: GeneratorSettings
+  invalid: Mode[]
+} {
+  const record = isRecord(v) ? v : {}
+  const invalid: Mode[] = []
+  const settings = Object.fromEntries(MODES.map(mode => {
+    const schema = generatorOf(mode).settings
+    if (!schema) return [mode, null]
+    if (record[mode] === undefined) return [mode, fallback[mode]]
+    const sanitized = schema.sanitize(record[mode])
+    if (sanitized == null) invalid.push(mode)
+    return [mode, sanitized ?? fallback[mode]]
+  })) as GeneratorSettings
+  return { settings, invalid }
+}
+
+// Edits from a settings form; `next` is the mode's own settings type (see `GeneratorView.SettingsForm`).
+export function updateGeneratorSettings(settings: GeneratorSettings, mode: Mode, next: unknown): GeneratorSettings {
+  const schema = generatorOf(mode).settings
+  return { ...settings, [mode]: schema ? schema.normalize(next) : next }
+}
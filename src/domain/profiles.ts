@@ -0,0 +1,128 @@
+import type { Hotkeys } from './commands'
+import { DEFAULT_HOTKEYS, sanitizeHotkeys } from './commands'
+import type { ErrorPolicy } from './errorPolicy'
+import { defaultErrorPolicies, ERROR_POLICIES } from './errorPolicy'
+import type { LayoutSettings } from './layout'
+import { DEFAULT_LAYOUT_SETTINGS, sanitizeLayoutSettings } from './layout'
+import type { GeneratorSettings, Mode } from './modes'
+import { defaultGeneratorSettings, sanitizeGeneratorSettings } from './modes'
+import type { SchedulerSettings } from './scheduler'
+import { DEFAULT_SCHEDULER_SETTINGS, SELECTION_STRATEGIES } from './scheduler'
+import type { SessionConfig } from './session'
+import { DEFAULT_SESSION_CONFIG } from './session'
+import type { StreamSettings } from './stream'
+import { DEFAULT_STREAM_SETTINGS, sanitizeStreamSettings } from './stream'
+import type { ValidationError } from './validation'
+import { isRecord, sanitizeFlags } from './validation'
+
+// Local profiles for shared machines. Stats, history and settings belong to a profile;
+// custom sets and the keymap belong to the machine.
+export type Profile = {
+  id: string
+  name: string
+}
+
+export type ProfileIndex = {
+  profiles: Profile[]
+  activeId: string
+}
+
+// The first profile keeps the storage keys used before profiles existed.
+export const DEFAULT_PROFILE_ID = 'default'
+
+export type ProfileSettings = {
+  // Built-in lists and custom sets, by source id (see `PoolInputs`).
+  enabledSources: Record<string, boolean>
+  // Item and language switches included (see `TargetGenerator.items`).
+  generatorSettings: GeneratorSettings
+  schedulerSettings: SchedulerSettings
+  errorPolicies: Record<Mode, ErrorPolicy>
+  sessionConfig: SessionConfig
+  streamSettings: StreamSettings
+  // The curriculum being followed, if any.
+  curriculumId: string | null
+  // The OS keyboard layout this person types on.
+  layoutSettings: LayoutSettings
+  hotkeys: Hotkeys
+}
+
+export function defaultProfileIndex(): ProfileIndex {
+  return { profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Default' }], activeId: DEFAULT_PROFILE_ID }
+}
+
+export function defaultProfileSettings(): ProfileSettings {
+  return {
+    enabledSources: {},
+    generatorSettings: defaultGeneratorSettings(),
+    schedulerSettings: DEFAULT_SCHEDULER_SETTINGS,
+    errorPolicies: defaultErrorPolicies(),
+    sessionConfig: DEFAULT_SESSION_CONFIG,
+    streamSettings: DEFAULT_STREAM_SETTINGS,
+    curriculumId: null,
+    layoutSettings: DEFAULT_LAYOUT_SETTINGS,
+    hotkeys: DEFAULT_HOTKEYS,
+  }
+}
+
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function validateProfileName(name: string, others: readonly Profile[]): ValidationError[] {
+  const trimmed = name.trim()
+  if (trimmed === '') return [{ code: 'nameRequired' }]
+  if (others.some(p => p.name === trimmed)) return [{ code: 'duplicateProfileName', name: trimmed }]
+  return []
+}
+
+function sameShape<T extends object>(v: unknown, fallback: T): T {
+  if (!isRecord(v)) return fallback
+  const ok = Object.entries(fallback).every(([k, value]) => typeof v[k] === typeof value)
+  return ok ? { ...fallback, ...v } as T : fallback
+}
+
+export function sanitizeProfileIndex(v: unknown): ProfileIndex {
+  if (!isRecord(v) || !Array.isArray(v.profiles)) return defaultProfileIndex()
+  const profiles = v.profiles.filter((p): p is Profile => (
+    isRecord(p) && typeof p.id === 'string' && typeof p.name === 'string'
+  ))
+  if (profiles.length === 0) return defaultProfileIndex()
+  const activeId = profiles.some(p => p.id === v.activeId) ? v.activeId as string : profiles[0].id
+  return { profiles, activeId }
+}
+
+// Stored settings, with anything missing or malformed replaced by the defaults.
+export function sanitizeProfileSettings(v: unknown): ProfileSettings {
+  const defaults = defaultProfileSettings()
+  if (!isRecord(v)) return defaults
+  const scheduler = sameShape(v.schedulerSettings, defaults.schedulerSettings)
+  const policies = isRecord(v.errorPolicies) ? v.errorPolicies : {}
+  // Settings used to be kept per mode (`digitsSettings`, `bracketSettings`), and item and
+  // language switches apart from them.
+  const generators = {
+    single: isRecord(v.enabledSingle) ? { enabled: v.enabledSingle } : undefined,
+    combo: isRecord(v.enabledCombo) ? { enabled: v.enabledCombo } : undefined,
+    snippet: isRecord(v.enabledLanguages) ? { languages: v.enabledLanguages } : undefined,
+    ...(isRecord(v.generatorSettings) ? v.generatorSettings : { digits: v.digitsSettings, brackets: v.bracketSettings }),
+  }
+  // `ghost` was added later; older settings keep the rest of their session config.
+  const session = sameShape(
+    isRecord(v.sessionConfig) ? { ghost: defaults.sessionConfig.ghost, ...v.sessionConfig } : null,
+    defaults.sessionConfig,
+  )
+  return {
+    enabledSources: sanitizeFlags(v.enabledSources) ?? defaults.enabledSources,
+    generatorSettings: sanitizeGeneratorSettings(generators, defaults.generatorSettings).settings,
+    schedulerSettings: SELECTION_STRATEGIES.some(s => s === scheduler.strategy) ? scheduler : defaults.schedulerSettings,
+    // Modes added later fall back to their default.
+    errorPolicies: Object.fromEntries(Object.entries(defaults.errorPolicies).map(([mode, fallback]) => [
+      mode,
+      ERROR_POLICIES.some(e => e === policies[mode]) ? policies[mode] : fallback,
+    ])) as Record<Mode, ErrorPolicy>,
+    sessionConfig: ['endless', 'sprint', 'fixed'].includes(session.kind) ? session : defaults.sessionConfig,
+    streamSettings: sanitizeStreamSettings(v.streamSettings) ?? defaults.streamSettings,
+    curriculumId: typeof v.curriculumId === 'string' ? v.curriculumId : null,
+    layoutSettings: sanitizeLayoutSettings(v.layoutSettings) ?? defaults.layoutSettings,
+    hotkeys: sanitizeHotkeys(v.hotkeys),
+  }
+}
@@ -0,0 +1,102 @@
+import type { SessionRecord } from './history'
+import type { Mode } from './modes'
+import { generatorOf } from './modes'
+import { median } from './stats'
+
+export type ProgressGrouping = 'session' | 'day'
+
+export type ProgressFilter = {
+  mode: Mode | 'all'
+  // Only this item (e.g. `{`); null for everything.
+  item: string | null
+  grouping: ProgressGrouping
+  // Sessions that ended before this (epoch ms) are left out; null for all of them.
+  since: number | null
+}
+
+export type ProgressPoint = {
+  key: string
+  label: string
+  attempts: number
+  // Percent; null when there were no attempts.
+  accuracy: number | null
+  // Median completion time of the targets; null when none was completed.
+  medianMs: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function daysAgo(days: number, now: number = Date.now()): number {
+  return now - days * DAY_MS
+}
+
+function dayKey(at: number): string {
+  const d = new Date(at)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function formatDayLabel(at: number): string {
+  const d = new Date(at)
+  return `${d.getMonth() + 1}/${d.getDate()}`
+}
+
+function formatSessionLabel(at: number): string {
+  const d = new Date(at)
+  return `${formatDayLabel(at)} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`
+}
+
+// Attempts, correct answers and completion times of one session, narrowed to the item if there is one.
+function sessionSample(session: SessionRecord, item: string | null): { attempts: number, correct: number, times: number[] } {
+  if (item == null) {
+    return { attempts: session.attempts, correct: session.correct, times: session.targetTimes.map(t => t.ms) }
+  }
+  const stat = session.itemDeltas[item]
+  const { targetStatKeys } = generatorOf(session.mode)
+  return {
+    attempts: stat?.attempts ?? 0,
+    correct: stat?.correct ?? 0,
+    // Targets are timed as they were typed, the item may be one they count towards (e.g. a length bucket).
+    times: session.targetTimes.filter(t => targetStatKeys?.(t.item).includes(item)).map(t => t.ms),
+  }
+}
+
+// Items seen in the sessions of a mode, for the item filter.
+export function progressItems(sessions: readonly SessionRecord[], mode: Mode | 'all'): string[] {
+  const items = new Set<string>()
+  for (const s of sessions) {
+    if (mode !== 'all' && s.mode !== mode) continue
+    Object.keys(s.itemDeltas).forEach(item => items.add(item))
+  }
+  return [...items].sort()
+}
+
+// One point per session or per day (local time), oldest first. Groups without a single attempt are skipped.
+export function buildProgress(sessions: readonly SessionRecord[], filter: ProgressFilter): ProgressPoint[] {
+  const groups = new Map<string, { label: string, attempts: number, correct: number, times: number[] }>()
+  for (const s of [...sessions].sort((a, b) => a.endedAt - b.endedAt)) {
+    if (filter.mode !== 'all' && s.mode !== filter.mode) continue
+    if (filter.since != null && s.endedAt < filter.since) continue
+    const sample = sessionSample(s, filter.item)
+    if (sample.attempts === 0) continue
+
+    const key = filter.grouping === 'day' ? dayKey(s.endedAt) : s.id
+    const group = groups.get(key) ?? {
+      label: filter.grouping === 'day' ? formatDayLabel(s.endedAt) : formatSessionLabel(s.endedAt),
+      attempts: 0,
+      correct: 0,
+      times: [],
+    }
+    group.attempts += sample.attempts
+    group.correct += sample.correct
+    group.times.push(...sample.times)
+    groups.set(key, group)
+  }
+
+  return [...groups.entries()].map(([key, g]) => ({
+    key,
+    label: g.label,
+    attempts: g.attempts,
+    accuracy: g.attempts === 0 ? null : (g.correct / g.attempts) * 100,
+    medianMs: median(g.times),
+  }))
+}
@@ -1,5 +1,5 @@
-export function pickRandom(list: readonly string[]): string {
-  return list[Math.floor(Math.random() * list.length)]
+export function pickRandom(list: readonly string[], random: () => number = Math.random): string {
+  return list[Math.floor(random() * list.length)]
 }
 
 export function clampInt(n: number, min: number, max: number): number {
@@ -7,8 +7,28 @@ export function clampInt(n: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, Math.trunc(n)))
 }
 
-export function randomInt(min: number, max: number): number {
+export function randomInt(min: number, max: number, random: () => number = Math.random): number {
   const a = Math.min(min, max)
   const b = Math.max(min, max)
-  return a + Math.floor(Math.random() * (b - a + 1))
+  return a + Math.floor(random() * (b - a + 1))
+}
+
+// mulberry32: tiny and fast, and plenty for drawing targets. `state()` is the seed that
+// continues the sequence from where it is now.
+export function createSeededRandom(seed: number): { random: () => number, state: () => number } {
+  let a = seed >>> 0
+  return {
+    random: () => {
+      a = (a + 0x6d2b79f5) >>> 0
+      let t = a
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    },
+    state: () => a,
+  }
+}
+
+export function randomSeed(random: () => number = Math.random): number {
+  return Math.floor(random() * 4294967296)
 }
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { createSeededRandom } from './random'
+import type { SchedulerSettings } from './scheduler'
+import { pickNextItem } from './scheduler'
+import type { Stat } from './stats'
+
+const NOW = 1_000_000
+
+function stat(attempts: number, correct: number, avgMs: number, patch: Partial<Stat> = {}): Stat {
+  return { attempts, correct, totalMs: correct * avgMs, lastSeenAt: NOW - 60_000, streak: 0, ...patch }
+}
+
+// How often each item of `pool` comes up in `draws` picks.
+function counts(pool: string[], stats: Record<string, Stat>, settings: SchedulerSettings, draws = 2000): Record<string, number> {
+  const { random } = createSeededRandom(7)
+  const result: Record<string, number> = Object.fromEntries(pool.map(item => [item, 0]))
+  for (let i = 0; i < draws; i++) result[pickNextItem(pool, stats, settings, { now: NOW, random })]++
+  return result
+}
+
+describe('pickNextItem', () => {
+  it('returns nothing from an empty pool', () => {
+    expect(pickNextItem([], {}, { strategy: 'weighted', exploration: 0 })).toBe('')
+  })
+
+  it('uniform: picks every item about as often', () => {
+    const picked = counts(['a', 'b', 'c', 'd'], {}, { strategy: 'uniform', exploration: 0 })
+    for (const n of Object.values(picked)) expect(n).toBeGreaterThan(400)
+  })
+
+  it('weighted: favors inaccurate and slow items', () => {
+    const stats = {
+      good: stat(20, 20, 500),
+      missed: stat(20, 10, 500),
+      slow: stat(20, 20, 1500),
+    }
+    const picked = counts(['good', 'missed', 'slow'], stats, { strategy: 'weighted', exploration: 0 })
+    expect(picked.missed).toBeGreaterThan(picked.good * 1.5)
+    expect(picked.slow).toBeGreaterThan(picked.good * 1.2)
+  })
+
+  it('weighted: introduces unseen items early', () => {
+    const picked = counts(['known', 'new'], { known: stat(20, 20, 500) }, { strategy: 'weighted', exploration: 0 })
+    expect(picked.new).toBeGreaterThan(picked.known)
+  })
+
+  it('spaced: picks overdue items over the ones not yet due', () => {
+    const stats = {
+      // Due 40 s after being seen (streak 1), seen a minute ago.
+      due: stat(5, 5, 500, { streak: 1 }),
+      // Due after 20 s * 2^10, seen a minute ago.
+      learned: stat(50, 50, 500, { streak: 10 }),
+    }
+    const picked = counts(['due', 'learned'], stats, { strategy: 'spaced', exploration: 0 })
+    expect(picked.due).toBeGreaterThan(picked.learned * 10)
+  })
+
+  it('explores uniformly as often as the settings say', () => {
+    const stats = { due: stat(5, 5, 500, { streak: 1 }), learned: stat(50, 50, 500, { streak: 10 }) }
+    const picked = counts(['due', 'learned'], stats, { strategy: 'spaced', exploration: 1 })
+    expect(picked.learned).toBeGreaterThan(800)
+  })
+
+  it('does not repeat the item just shown', () => {
+    const { random } = createSeededRandom(3)
+    for (let i = 0; i < 100; i++) {
+      expect(pickNextItem(['a', 'b'], {}, { strategy: 'weighted', exploration: 0 }, { avoid: 'a', now: NOW, random })).toBe('b')
+    }
+    expect(pickNextItem(['a'], {}, { strategy: 'weighted', exploration: 0 }, { avoid: 'a', now: NOW })).toBe('a')
+  })
+})
@@ -0,0 +1,91 @@
+import { pickRandom } from './random'
+import type { Stat } from './stats'
+import { median } from './stats'
+
+export type SelectionStrategy = 'uniform' | 'weighted' | 'spaced'
+
+export const SELECTION_STRATEGIES: readonly SelectionStrategy[] = ['uniform', 'weighted', 'spaced']
+
+export type SchedulerSettings = {
+  strategy: SelectionStrategy
+  // Probability (0..1) of ignoring the weights and picking uniformly.
+  exploration: number
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  strategy: 'uniform',
+  exploration: 0.2,
+}
+
+// Items never attempted are treated as moderately weak so they get introduced early.
+const UNSEEN_WEIGHT = 3
+// Spaced repetition: an item answered correctly `streak` times in a row is due after BASE * 2^streak.
+const SPACED_BASE_INTERVAL_MS = 20_000
+const SPACED_MAX_STREAK = 12
+
+function errorRate(s: Stat): number {
+  return s.attempts === 0 ? 0 : 1 - s.correct / s.attempts
+}
+
+function averageMs(s: Stat): number | null {
+  return s.correct === 0 ? null : s.totalMs / s.correct
+}
+
+// Accuracy, latency (relative to the pool median) and time since last seen, combined.
+function weightedWeight(s: Stat | undefined, medianMs: number | null, now: number): number {
+  if (!s || s.attempts === 0) return UNSEEN_WEIGHT
+  const avg = averageMs(s)
+  const slowness = avg == null || medianMs == null || medianMs <= 0 ? 1 : Math.min(3, avg / medianMs)
+  const sinceSec = s.lastSeenAt === 0 ? Infinity : Math.max(0, now - s.lastSeenAt) / 1000
+  const staleness = 0.5 + Math.min(1, sinceSec / 60)
+  return (1 + 4 * errorRate(s) + slowness) * staleness
+}
+
+function spacedWeight(s: Stat | undefined, now: number): number {
+  if (!s || s.attempts === 0) return UNSEEN_WEIGHT
+  const interval = SPACED_BASE_INTERVAL_MS * 2 ** Math.min(s.streak, SPACED_MAX_STREAK)
+  const overdue = Math.max(0, now - s.lastSeenAt) / interval
+  // Not yet due: keep a small weight so the pool never runs dry.
+  if (overdue < 1) return 0.05 + 0.1 * overdue
+  return overdue * (1 + 2 * errorRate(s))
+}
+
+function pickWeighted(items: readonly string[], weights: readonly number[], random: () => number): string {
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  if (!(total > 0)) return pickRandom(items, random)
+  let r = random() * total
+  for (let i = 0; i < items.length; i++) {
+    r -= weights[i]
+    if (r < 0) return items[i]
+  }
+  return items[items.length - 1]
+}
+
+export function pickNextItem(
+  pool: readonly string[],
+  statsByItem: Record<string, Stat>,
+  settings: SchedulerSettings,
+  opts: { avoid?: string, now?: number, random?: () => number } = {},
+): string {
+  if (pool.length === 0) return ''
+  const random = opts.random ?? Math.random
+  if (settings.strategy === 'uniform' || random() < settings.exploration) {
+    return pickRandom(pool, random)
+  }
+
+  // The item just answered has stale stats at this point; skip it to avoid immediate repeats.
+  const candidates = pool.length > 1 && opts.avoid ? pool.filter(item => item !== opts.avoid) : pool
+  const now = opts.now ?? Date.now()
+
+  if (settings.strategy === 'spaced') {
+    return pickWeighted(candidates, candidates.map(item => spacedWeight(statsByItem[item], now)), random)
+  }
+
+  const medianMs = median(
+    candidates
+      .map(item => statsByItem[item])
+      .map(s => (s ? averageMs(s) : null))
+      .filter((v): v is number => v != null),
+  )
+  return pickWeighted(candidates, candidates.map(item => weightedWeight(statsByItem[item], medianMs, now)), random)
+}
@@ -0,0 +1,95 @@
+import type { SessionRecord } from './history'
+import type { Mode } from './modes'
+import type { RankedStat } from './stats'
+import { toRankedStats } from './stats'
+import type { StreamSettings } from './stream'
+import { DEFAULT_STREAM_SETTINGS, streamConfigSuffix } from './stream'
+
+export type SessionKind = 'endless' | 'sprint' | 'fixed'
+
+export const SESSION_KINDS: readonly SessionKind[] = ['endless', 'sprint', 'fixed']
+
+export type SessionConfig = {
+  kind: SessionKind
+  // Sprint: countdown length in seconds.
+  durationSec: number
+  // Fixed: number of targets to complete.
+  targetCount: number
+  // Sprint and fixed: race against the best finished run of the same configuration.
+  ghost: boolean
+}
+
+export type SessionPhase = 'idle' | 'countdown' | 'running' | 'paused' | 'finished'
+
+export const SPRINT_DURATIONS = [30, 60, 120] as const
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  kind: 'endless',
+  durationSec: 60,
+  targetCount: 50,
+  ghost: false,
+}
+
+export const COUNTDOWN_MS = 3000
+
+// Sessions with the same key are compared with each other ("previous best").
+// Drills (seeded sessions) are only compared with runs of the same seed.
+export function sessionConfigKey(
+  mode: Mode,
+  config: SessionConfig,
+  seed: number | null = null,
+  stream: StreamSettings = DEFAULT_STREAM_SETTINGS,
+): string {
+  const suffix = `${seed == null ? '' : `/drill-${seed.toString(36)}`}${streamConfigSuffix(stream)}`
+  if (config.kind === 'sprint') return `${mode}/sprint/${config.durationSec}s${suffix}`
+  if (config.kind === 'fixed') return `${mode}/fixed/${config.targetCount}${suffix}`
+  return `${mode}/endless${suffix}`
+}
+
+export function isSessionComplete(config: SessionConfig, activeMs: number, completed: number): boolean {
+  if (config.kind === 'sprint') return activeMs >= config.durationSec * 1000
+  if (config.kind === 'fixed') return completed >= config.targetCount
+  return false
+}
+
+function perMinute(count: number, activeMs: number): number {
+  return activeMs <= 0 ? 0 : count / (activeMs / 60_000)
+}
+
+export type SessionSummary = {
+  session: SessionRecord
+  targetsPerMin: number
+  keysPerMin: number
+  slowest: RankedStat[]
+  // Best earlier session with the same configuration, by targets per minute. Sprints and fixed
+  // sessions only count when they ran to the end (not reset, finished early or cut by a mode switch).
+  previousBest: { session: SessionRecord, targetsPerMin: number, keysPerMin: number } | null
+}
+
+// `config` is the configuration of `session` (and so of every session with its `configKey`).
+export function summarizeSession(
+  session: SessionRecord,
+  history: readonly SessionRecord[],
+  config: SessionConfig,
+): SessionSummary {
+  const previous = history
+    .filter(s => s.id !== session.id && s.configKey === session.configKey && s.endedAt <= session.endedAt)
+    .filter(s => config.kind === 'endless' || isSessionComplete(config, s.activeMs, s.correct))
+    .map(s => ({
+      session: s,
+      targetsPerMin: perMinute(s.correct, s.activeMs),
+      keysPerMin: perMinute(s.keystrokes, s.activeMs),
+    }))
+    .sort((a, b) => b.targetsPerMin - a.targetsPerMin)
+
+  return {
+    session,
+    targetsPerMin: perMinute(session.correct, session.activeMs),
+    keysPerMin: perMinute(session.keystrokes, session.activeMs),
+    slowest: toRankedStats(session.itemDeltas)
+      .filter(r => r.avg != null)
+      .sort((a, b) => (b.avg ?? 0) - (a.avg ?? 0))
+      .slice(0, 5),
+    previousBest: previous[0] ?? null,
+  }
+}
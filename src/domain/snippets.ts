@@ -0,0 +1,133 @@
+import type { Messages } from './i18n'
+import { initEnabledMap, sameEnabledMap } from './symbols'
+import { isRecord, sanitizeFlags } from './validation'
+
+export const SNIPPET_LANGUAGES = ['typescript', 'rust', 'python', 'shell', 'regex'] as const
+
+export type SnippetLanguage = typeof SNIPPET_LANGUAGES[number]
+
+export const SNIPPET_LANGUAGE_LABELS: Record<SnippetLanguage, string> = {
+  typescript: 'TypeScript',
+  rust: 'Rust',
+  python: 'Python',
+  shell: 'Shell',
+  regex: 'Regex',
+}
+
+// Short, single-line snippets that are dense in symbols.
+export const SNIPPETS: Record<SnippetLanguage, readonly string[]> = {
+  typescript: [
+    'arr?.map((x) => x * 2) ?? []',
+    'fn<T extends K>(key: T): V[T]',
+    'const { a, ...rest } = obj;',
+    'const s = `${foo}-${bar}`;',
+    'if (a !== b && c === d) return;',
+    'type P = Partial<Record<K, T[]>>;',
+    'export default () => ({ ok: true });',
+    'x ??= new Map<string, number[]>();',
+    'const [a, b] = await Promise.all([p, q]);',
+    'items.filter(i => i.id !== id).length',
+    'obj?.["key"]?.(arg) || null',
+    'class A<T> implements B { #x = 0; }',
+  ],
+  rust: [
+    '#[derive(Debug, Clone)]',
+    'fn main() -> Result<(), Box<dyn Error>> {',
+    'let v: Vec<&str> = s.split(\',\').collect();',
+    'impl<T: Display> fmt::Debug for W<T> {',
+    'match x { Some(v) => v, None => 0 }',
+    'let r = &mut *ptr;',
+    'println!("{:?} {}", a, b);',
+    'pub fn get(&self) -> Option<&T> {',
+    'let n = x.iter().map(|v| v * 2).sum::<i32>();',
+    '\'a: loop { break \'a; }',
+    'use std::{io, fs::File};',
+    'if let Ok(n) = s.parse::<u8>() {',
+  ],
+  python: [
+    'def f(*args, **kwargs) -> dict[str, int]:',
+    'xs = [x ** 2 for x in range(10) if x % 2]',
+    'print(f"{name!r}: {value:.2f}")',
+    '@dataclass(frozen=True)',
+    'with open(path, "rb") as fp:',
+    'd = {k: v for k, v in pairs}',
+    'if (n := len(a)) > 10:',
+    'lambda x: x[::-1]',
+    'return a if a is not None else b',
+    'class A(B, metaclass=Meta):',
+    'assert a == b, f"{a} != {b}"',
+    'x, *rest = t[1:-1]',
+  ],
+  shell: [
+    'for f in *.ts; do echo "$f"; done',
+    'grep -rn "TODO" src/ | wc -l',
+    'export PATH="$HOME/bin:$PATH"',
+    'cmd 2>&1 | tee log.txt',
+    '[ -f ~/.bashrc ] && source ~/.bashrc',
+    'echo ${VAR:-default}',
+    'x=$(( a + b * 2 ))',
+    'find . -name "*.log" -exec rm {} \\;',
+    'ls -la | awk \'{print $9}\'',
+    'if [[ $# -lt 1 ]]; then exit 1; fi',
+    'cat <<EOF > out.txt',
+    'git log --oneline @{u}..HEAD',
+  ],
+  regex: [
+    '^\\d{3}-\\d{4}$',
+    '[A-Za-z_][\\w$]*',
+    '(?<year>\\d{4})-(?<mon>\\d{2})',
+    '^(?:https?://)?[^/\\s]+',
+    '\\b(\\w+)\\s+\\1\\b',
+    '[^\\s@]+@[^\\s@]+\\.[^\\s@]+',
+    '(?=.*\\d)(?=.*[a-z]).{8,}',
+    '^\\s*#.*$',
+    '\\$\\{([^}]+)\\}',
+    '(\\[|\\]|\\(|\\))+',
+    '^[+-]?\\d*\\.?\\d+$',
+    '<([a-z]+)[^>]*>.*?</\\1>',
+  ],
+}
+
+// Languages missing from `languages` are on.
+export type SnippetSettings = {
+  languages: Record<string, boolean>
+}
+
+export const DEFAULT_SNIPPET_SETTINGS: SnippetSettings = { languages: initEnabledMap(SNIPPET_LANGUAGES) }
+
+export function sanitizeSnippetSettings(v: unknown): SnippetSettings | null {
+  const languages = isRecord(v) ? sanitizeFlags(v.languages) : null
+  return languages ? { languages } : null
+}
+
+export function sameSnippetSettings(a: SnippetSettings, b: SnippetSettings): boolean {
+  return sameEnabledMap(a.languages, b.languages)
+}
+
+export function snippetPool(enabledLanguages: Record<string, boolean>): string[] {
+  return SNIPPET_LANGUAGES
+    .filter(lang => enabledLanguages[lang] !== false)
+    .flatMap(lang => SNIPPETS[lang])
+}
+
+export type CharClass = 'symbol' | 'letter' | 'digit' | 'space'
+
+export const CHAR_CLASSES: readonly CharClass[] = ['symbol', 'letter', 'digit', 'space']
+
+export function classifyChar(ch: string): CharClass {
+  if (/^\s$/.test(ch)) return 'space'
+  if (/^[0-9]$/.test(ch)) return 'digit'
+  if (/^[A-Za-z]$/.test(ch)) return 'letter'
+  return 'symbol'
+}
+
+// Snippet stats keep symbols by character and every character by its class (`class:letter`).
+export function snippetClassKey(charClass: CharClass): string {
+  return `class:${charClass}`
+}
+
+// Symbols as they are, classes as e.g. `Class: Letters`.
+export function snippetStatLabel(m: Messages, key: string): string {
+  const charClass = CHAR_CLASSES.find(c => snippetClassKey(c) === key)
+  return charClass ? `${m.stats.charClass}: ${m.charClasses[charClass]}` : key
+}
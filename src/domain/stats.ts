@@ -0,0 +1,86 @@
+import { isNonNegativeNumber, isRecord } from './validation'
+
+export type Stat = {
+  attempts: number
+  correct: number
+  totalMs: number
+  // Wall-clock time (epoch ms) of the last attempt; 0 if never attempted.
+  lastSeenAt: number
+  // Consecutive correct answers; reset by a miss.
+  streak: number
+}
+
+export function isStat(v: unknown): v is Stat {
+  if (!isRecord(v)) return false
+  return isNonNegativeNumber(v.attempts)
+    && isNonNegativeNumber(v.correct)
+    && isNonNegativeNumber(v.totalMs)
+    && isNonNegativeNumber(v.lastSeenAt)
+    && isNonNegativeNumber(v.streak)
+    && v.correct <= v.attempts
+}
+
+export function emptyStat(): Stat {
+  return { attempts: 0, correct: 0, totalMs: 0, lastSeenAt: 0, streak: 0 }
+}
+
+export function bumpStatRecord(
+  prev: Record<string, Stat>,
+  item: string,
+  isCorrect: boolean,
+  elapsedMs?: number,
+  at: number = Date.now(),
+): Record<string, Stat> {
+  const current = prev[item] ?? emptyStat()
+  const next: Stat = {
+    attempts: current.attempts + 1,
+    correct: current.correct + (isCorrect ? 1 : 0),
+    totalMs: current.totalMs + (isCorrect && elapsedMs != null ? elapsedMs : 0),
+    lastSeenAt: at,
+    streak: isCorrect ? current.streak + 1 : 0,
+  }
+  return { ...prev, [item]: next }
+}
+
+export function mergeStatRecords(a: Record<string, Stat>, b: Record<string, Stat>): Record<string, Stat> {
+  const merged: Record<string, Stat> = { ...a }
+  for (const [item, s] of Object.entries(b)) {
+    const current = merged[item] ?? emptyStat()
+    // The streak belongs to whichever side saw the item last.
+    const newer = s.lastSeenAt >= current.lastSeenAt ? s : current
+    merged[item] = {
+      attempts: current.attempts + s.attempts,
+      correct: current.correct + s.correct,
+      totalMs: current.totalMs + s.totalMs,
+      lastSeenAt: newer.lastSeenAt,
+      streak: newer.streak,
+    }
+  }
+  return merged
+}
+
+export type RankedStat = Stat & {
+  item: string
+  acc: number
+  avg: number | null
+}
+
+export function toRankedStats(stats: Record<string, Stat>): RankedStat[] {
+  return Object.entries(stats).map(([item, s]) => {
+    const acc = s.attempts === 0 ? 0 : (s.correct / s.attempts) * 100
+    const avg = s.correct === 0 ? null : s.totalMs / s.correct
+    return { item, ...s, acc, avg }
+  })
+}
+
+// Slowest first; rows never typed correctly go to the top.
+export function bySlowest(a: RankedStat, b: RankedStat): number {
+  return (b.avg ?? Infinity) - (a.avg ?? Infinity) || a.acc - b.acc
+}
+
+export function median(values: readonly number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
@@ -0,0 +1,463 @@
+import type { Curriculum } from './curriculum'
+import { sanitizeCurricula } from './curriculum'
+import type { CustomSet } from './customSets'
+import { sanitizeCustomSets } from './customSets'
+import type { DigitsFormat } from './digits'
+import { digitsFormatKey, digitsLengthKey, isDigitsTarget } from './digits'
+import type { LifetimeStats } from './engine'
+import { emptyLifetimeStats } from './engine'
+import type { KeystrokeEvent } from './events'
+import { sanitizeEvents } from './events'
+import type { GhostRun } from './ghost'
+import { sanitizeBestRuns } from './ghost'
+import type { SessionRecord, TargetTime } from './history'
+import type { Locale } from './i18n'
+import { sanitizeLocale } from './i18n'
+import { generatorOf, MODES } from './modes'
+import type { ProfileIndex, ProfileSettings } from './profiles'
+import { DEFAULT_PROFILE_ID, sanitizeProfileIndex, sanitizeProfileSettings } from './profiles'
+import { SESSION_KINDS } from './session'
+import type { CharClass } from './snippets'
+import { snippetClassKey } from './snippets'
+import type { Stat } from './stats'
+import { isStat, mergeStatRecords } from './stats'
+import { isNonNegativeNumber, isRecord } from './validation'
+
+// Bump this whenever the shape of `PersistedData` changes, and add a step to `MIGRATIONS`.
+export const SCHEMA_VERSION = 13
+
+// Lifetime stats (see `LifetimeStats`), with the session history.
+export type PersistedData = LifetimeStats & {
+  sessions: SessionRecord[]
+  // Per session configuration: the best finished run, raced against as a ghost.
+  bestRuns: Record<string, GhostRun>
+  // The session that was in progress when the data was last saved (finished on next load).
+  currentSession: SessionRecord | null
+}
+
+type Envelope = {
+  version: number
+  data: unknown
+}
+
+function mapRecord(v: unknown, fn: (value: Record<string, unknown>) => unknown): Record<string, unknown> {
+  if (!isRecord(v)) return {}
+  return Object.fromEntries(Object.entries(v).map(([k, value]) => [k, isRecord(value) ? fn(value) : value]))
+}
+
+// `MIGRATIONS[n]` upgrades data from schema version `n + 1` to `n + 2`.
+const MIGRATIONS: ReadonlyArray<(data: Record<string, unknown>) => Record<string, unknown>> = [
+  // v1 -> v2: `Stat` gained `lastSeenAt` and `streak` for adaptive selection.
+  (data) => {
+    const upgradeStats = (stats: unknown) => mapRecord(stats, s => ({ lastSeenAt: 0, streak: 0, ...s }))
+    const upgradeSession = (session: unknown) => (
+      isRecord(session) ? { ...session, itemDeltas: upgradeStats(session.itemDeltas) } : session
+    )
+    return {
+      ...data,
+      statsByItem: upgradeStats(data.statsByItem),
+      sessions: Array.isArray(data.sessions) ? data.sessions.map(upgradeSession) : [],
+      currentSession: upgradeSession(data.currentSession),
+    }
+  },
+  // v2 -> v3: snippet mode stats.
+  (data) => ({ ...data, snippetStats: {}, snippetClassStats: {} }),
+  // v3 -> v4: keymap layer stats.
+  (data) => ({ ...data, layerStats: {}, transitionStats: {} }),
+  // v4 -> v5: sessions record their type, configuration and active time. Older sessions were endless.
+  (data) => {
+    const upgradeSession = (session: unknown) => (
+      isRecord(session)
+        ? {
+          kind: 'endless',
+          configKey: `${String(session.mode)}/endless`,
+          activeMs: Number(session.endedAt) - Number(session.startedAt),
+          keystrokes: 0,
+          ...session,
+        }
+        : session
+    )
+    return {
+      ...data,
+      sessions: Array.isArray(data.sessions) ? data.sessions.map(upgradeSession) : [],
+      currentSession: upgradeSession(data.currentSession),
+    }
+  },
+  // v5 -> v6: inter-key timing stats.
+  (data) => ({ ...data, firstKeyStats: {}, bigramStats: {} }),
+  // v6 -> v7: sessions record the completion time of each target (not available for older ones).
+  (data) => {
+    const upgradeSession = (session: unknown) => (isRecord(session) ? { targetTimes: [], ...session } : session)
+    return {
+      ...data,
+      sessions: Array.isArray(data.sessions) ? data.sessions.map(upgradeSession) : [],
+      currentSession: upgradeSession(data.currentSession),
+    }
+  },
+  // v7 -> v8: digits mode stats per number format.
+  (data) => ({ ...data, digitsFormatStats: {} }),
+  // v8 -> v9: brackets mode stats.
+  (data) => ({ ...data, bracketStats: {} }),
+  // v9 -> v10: item stats are kept per mode.
+  (data) => {
+    const { statsByItem, ...rest } = data
+    return { ...rest, ...splitLegacyItemStats(sanitizeStats(statsByItem)) }
+  },
+  // v10 -> v11: best runs per configuration (ghosts); earlier sessions do not count.
+  (data) => ({ ...data, bestRuns: {} }),
+  // v11 -> v12: each mode keeps its stats under its own keys.
+  (data) => ({ ...data, modeStats: legacyModeStats(data) }),
+  // v12 -> v13: sessions keep their targets under the mode's stats keys.
+  (data) => ({
+    ...data,
+    sessions: Array.isArray(data.sessions) ? data.sessions.map(legacySession) : [],
+    currentSession: legacySession(data.currentSession),
+  }),
+]
+
+// Item stats used to be one record for every mode: digits targets are told apart by their
+// shape (and folded into their length bucket), single items by being one character.
+export function splitLegacyItemStats(statsByItem: Record<string, Stat>): {
+  singleStats: Record<string, Stat>
+  comboStats: Record<string, Stat>
+  digitsStats: Record<string, Stat>
+} {
+  const singleStats: Record<string, Stat> = {}
+  const comboStats: Record<string, Stat> = {}
+  let digitsStats: Record<string, Stat> = {}
+  for (const [item, s] of Object.entries(statsByItem)) {
+    if (isDigitsTarget(item)) digitsStats = mergeStatRecords(digitsStats, { [digitsLengthKey(item)]: s })
+    else if (Array.from(item).length === 1) singleStats[item] = s
+    else comboStats[item] = s
+  }
+  return { singleStats, comboStats, digitsStats }
+}
+
+function rekeyed(v: unknown, key: (k: string) => string): Record<string, unknown> {
+  return isRecord(v) ? Object.fromEntries(Object.entries(v).map(([k, s]) => [key(k), s])) : {}
+}
+
+// Stats used to be one field per mode, plus separate fields for digits formats, snippet
+// classes and brackets (schema v11, backup v1). Values are passed through as they are.
+export function legacyModeStats(stats: Record<string, unknown>): Record<string, unknown> {
+  return {
+    single: stats.singleStats,
+    combo: stats.comboStats,
+    digits: {
+      ...rekeyed(stats.digitsStats, k => k),
+      ...rekeyed(stats.digitsFormatStats, k => digitsFormatKey(k as DigitsFormat)),
+    },
+    snippet: {
+      ...rekeyed(stats.snippetStats, k => k),
+      ...rekeyed(stats.snippetClassStats, k => snippetClassKey(k as CharClass)),
+    },
+    brackets: stats.bracketStats,
+  }
+}
+
+// Sessions used to keep every target as an item, so each digits target was a row of its own.
+// They now use the keys the mode's own stats do (see `TargetGenerator.targetStatKeys`).
+export function legacySession(session: unknown): unknown {
+  const mode = isRecord(session) ? MODES.find(m => m === session.mode) : undefined
+  const targetStatKeys = mode && generatorOf(mode).targetStatKeys
+  if (!isRecord(session) || !targetStatKeys) return session
+  const itemDeltas = Object.entries(sanitizeStats(session.itemDeltas)).reduce(
+    (acc, [target, s]) => mergeStatRecords(acc, Object.fromEntries(targetStatKeys(target).map(key => [key, s]))),
+    {} as Record<string, Stat>,
+  )
+  return { ...session, itemDeltas }
+}
+
+export type StorageBackend = {
+  kind: 'indexeddb' | 'localstorage' | 'memory'
+  load: (key: string) => Promise<unknown>
+  save: (key: string, value: unknown) => Promise<void>
+  remove: (key: string) => Promise<void>
+}
+
+const DB_NAME = 'symbol-typing-trainer'
+const STORE_NAME = 'kv'
+const LOCAL_STORAGE_PREFIX = 'symbol-typing-trainer:'
+const DATA_KEY = 'data'
+// Custom sets are kept apart from stats so that wiping history leaves them alone.
+const CUSTOM_SETS_KEY = 'customSets'
+// Custom curricula belong to the machine like custom sets; progress comes from each profile's stats.
+const CURRICULA_KEY = 'curricula'
+// The keymap is stored as the JSON the user imported and parsed again on load.
+const KEYMAP_KEY = 'keymap'
+// The UI language belongs to the machine like the keymap.
+const LOCALE_KEY = 'locale'
+// The keystroke log is large and written separately from the rest of the stats.
+const EVENTS_KEY = 'events'
+const SETTINGS_KEY = 'settings'
+const PROFILES_KEY = 'profiles'
+
+// Data, events and settings are stored per profile.
+function profileKey(profileId: string, key: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `profile:${profileId}:${key}`
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1)
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE_NAME)) {
+        req.result.createObjectStore(STORE_NAME)
+      }
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => reject(new Error('IndexedDB open was blocked'))
+  })
+}
+
+function createIndexedDbBackend(db: IDBDatabase): StorageBackend {
+  const withStore = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const tx = db.transaction(STORE_NAME, mode)
+    return requestToPromise(fn(tx.objectStore(STORE_NAME)))
+  }
+  return {
+    kind: 'indexeddb',
+    load: (key) => withStore('readonly', store => store.get(key)),
+    save: async (key, value) => {
+      await withStore('readwrite', store => store.put(value, key))
+    },
+    remove: async (key) => {
+      await withStore('readwrite', store => store.delete(key))
+    },
+  }
+}
+
+function createLocalStorageBackend(storage: Storage): StorageBackend {
+  return {
+    kind: 'localstorage',
+    load: async (key) => {
+      const raw = storage.getItem(LOCAL_STORAGE_PREFIX + key)
+      return raw == null ? undefined : JSON.parse(raw)
+    },
+    save: async (key, value) => {
+      storage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value))
+    },
+    remove: async (key) => {
+      storage.removeItem(LOCAL_STORAGE_PREFIX + key)
+    },
+  }
+}
+
+function createMemoryBackend(): StorageBackend {
+  const map = new Map<string, unknown>()
+  return {
+    kind: 'memory',
+    load: async (key) => map.get(key),
+    save: async (key, value) => {
+      map.set(key, value)
+    },
+    remove: async (key) => {
+      map.delete(key)
+    },
+  }
+}
+
+// Prefer IndexedDB; fall back to localStorage (e.g. private mode), then to memory only.
+export async function openStorage(): Promise<StorageBackend> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return createIndexedDbBackend(await openDb())
+    } catch {
+      // Fall through to localStorage.
+    }
+  }
+  if (typeof localStorage !== 'undefined') {
+    try {
+      const probe = LOCAL_STORAGE_PREFIX + '__probe__'
+      localStorage.setItem(probe, '1')
+      localStorage.removeItem(probe)
+      return createLocalStorageBackend(localStorage)
+    } catch {
+      // Fall through to memory.
+    }
+  }
+  return createMemoryBackend()
+}
+
+export function emptyData(): PersistedData {
+  return {
+    ...emptyLifetimeStats(),
+    sessions: [],
+    bestRuns: {},
+    currentSession: null,
+  }
+}
+
+export function sanitizeStats(v: unknown): Record<string, Stat> {
+  if (!isRecord(v)) return {}
+  return Object.fromEntries(Object.entries(v).filter(([, s]) => isStat(s))) as Record<string, Stat>
+}
+
+// Stats of modes that are not registered (any more) are dropped.
+function sanitizeModeStats(v: unknown): LifetimeStats['modeStats'] {
+  const record = isRecord(v) ? v : {}
+  return Object.fromEntries(MODES.map(mode => [mode, sanitizeStats(record[mode])])) as LifetimeStats['modeStats']
+}
+
+function isTargetTime(v: unknown): v is Omit<TargetTime, 'atMs'> & { atMs?: unknown } {
+  return isRecord(v) && typeof v.item === 'string' && isNonNegativeNumber(v.ms)
+}
+
+// Sessions saved before v11 (or exported from them) did not record when each target was
+// completed; the running sum of the target times stands in for it.
+function sanitizeTargetTimes(v: unknown[]): TargetTime[] {
+  let sum = 0
+  return v.filter(isTargetTime).map(t => {
+    sum += t.ms
+    return { item: t.item, ms: t.ms, atMs: isNonNegativeNumber(t.atMs) ? t.atMs : sum }
+  })
+}
+
+const SESSION_NUMBER_FIELDS = [
+  'startedAt',
+  'endedAt',
+  'activeMs',
+  'keystrokes',
+  'attempts',
+  'correct',
+  'miss',
+  'backspace',
+  'accuracy',
+] as const
+
+export function sanitizeSession(v: unknown): SessionRecord | null {
+  if (!isRecord(v)) return null
+  if (typeof v.id !== 'string' || typeof v.configKey !== 'string') return null
+  if (!MODES.some(mode => mode === v.mode) || !SESSION_KINDS.some(kind => kind === v.kind)) return null
+  if (!SESSION_NUMBER_FIELDS.every(field => isNonNegativeNumber(v[field]))) return null
+  if ((v.correct as number) > (v.attempts as number)) return null
+  if (!Array.isArray(v.targetTimes)) return null
+  return {
+    ...(v as SessionRecord),
+    itemDeltas: sanitizeStats(v.itemDeltas),
+    targetTimes: sanitizeTargetTimes(v.targetTimes),
+  }
+}
+
+export function migrate(raw: unknown): PersistedData {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || !isRecord(raw.data)) return emptyData()
+  const envelope = raw as Envelope
+  // Data written by a newer version of the app cannot be read safely.
+  if (envelope.version > SCHEMA_VERSION || envelope.version < 1) return emptyData()
+
+  let data = envelope.data as Record<string, unknown>
+  for (let v = envelope.version; v < SCHEMA_VERSION; v++) {
+    data = MIGRATIONS[v - 1](data)
+  }
+
+  return {
+    modeStats: sanitizeModeStats(data.modeStats),
+    layerStats: sanitizeStats(data.layerStats),
+    transitionStats: sanitizeStats(data.transitionStats),
+    firstKeyStats: sanitizeStats(data.firstKeyStats),
+    bigramStats: sanitizeStats(data.bigramStats),
+    sessions: Array.isArray(data.sessions)
+      ? data.sessions.map(sanitizeSession).filter((s): s is SessionRecord => s !== null)
+      : [],
+    bestRuns: sanitizeBestRuns(data.bestRuns),
+    currentSession: sanitizeSession(data.currentSession),
+  }
+}
+
+export async function loadData(backend: StorageBackend, profileId: string = DEFAULT_PROFILE_ID): Promise<PersistedData> {
+  return migrate(await backend.load(profileKey(profileId, DATA_KEY)))
+}
+
+export async function saveData(
+  backend: StorageBackend,
+  data: PersistedData,
+  profileId: string = DEFAULT_PROFILE_ID,
+): Promise<void> {
+  const envelope: Envelope = { version: SCHEMA_VERSION, data }
+  await backend.save(profileKey(profileId, DATA_KEY), envelope)
+}
+
+// Stats, history and the keystroke log; settings stay.
+export async function clearData(backend: StorageBackend, profileId: string = DEFAULT_PROFILE_ID): Promise<void> {
+  await backend.remove(profileKey(profileId, DATA_KEY))
+  await backend.remove(profileKey(profileId, EVENTS_KEY))
+}
+
+export async function loadEvents(backend: StorageBackend, profileId: string = DEFAULT_PROFILE_ID): Promise<KeystrokeEvent[]> {
+  return sanitizeEvents(await backend.load(profileKey(profileId, EVENTS_KEY)))
+}
+
+export async function saveEvents(
+  backend: StorageBackend,
+  events: KeystrokeEvent[],
+  profileId: string = DEFAULT_PROFILE_ID,
+): Promise<void> {
+  await backend.save(profileKey(profileId, EVENTS_KEY), events)
+}
+
+export async function loadSettings(backend: StorageBackend, profileId: string): Promise<ProfileSettings> {
+  return sanitizeProfileSettings(await backend.load(profileKey(profileId, SETTINGS_KEY)))
+}
+
+export async function saveSettings(backend: StorageBackend, settings: ProfileSettings, profileId: string): Promise<void> {
+  await backend.save(profileKey(profileId, SETTINGS_KEY), settings)
+}
+
+// Everything stored for a profile (used when the profile is deleted).
+export async function removeProfileData(backend: StorageBackend, profileId: string): Promise<void> {
+  await clearData(backend, profileId)
+  await backend.remove(profileKey(profileId, SETTINGS_KEY))
+}
+
+export async function loadProfileIndex(backend: StorageBackend): Promise<ProfileIndex> {
+  return sanitizeProfileIndex(await backend.load(PROFILES_KEY))
+}
+
+export async function saveProfileIndex(backend: StorageBackend, index: ProfileIndex): Promise<void> {
+  await backend.save(PROFILES_KEY, index)
+}
+
+export async function loadCustomSets(backend: StorageBackend): Promise<CustomSet[]> {
+  return sanitizeCustomSets(await backend.load(CUSTOM_SETS_KEY))
+}
+
+export async function saveCustomSets(backend: StorageBackend, sets: CustomSet[]): Promise<void> {
+  await backend.save(CUSTOM_SETS_KEY, sets)
+}
+
+export async function loadCurricula(backend: StorageBackend): Promise<Curriculum[]> {
+  return sanitizeCurricula(await backend.load(CURRICULA_KEY))
+}
+
+export async function saveCurricula(backend: StorageBackend, curricula: Curriculum[]): Promise<void> {
+  await backend.save(CURRICULA_KEY, curricula)
+}
+
+export async function loadKeymapSource(backend: StorageBackend): Promise<string | null> {
+  const v = await backend.load(KEYMAP_KEY)
+  return typeof v === 'string' ? v : null
+}
+
+export async function saveKeymapSource(backend: StorageBackend, source: string | null): Promise<void> {
+  if (source == null) {
+    await backend.remove(KEYMAP_KEY)
+    return
+  }
+  await backend.save(KEYMAP_KEY, source)
+}
+
+export async function loadLocale(backend: StorageBackend): Promise<Locale | null> {
+  return sanitizeLocale(await backend.load(LOCALE_KEY))
+}
+
+export async function saveLocale(backend: StorageBackend, locale: Locale): Promise<void> {
+  await backend.save(LOCALE_KEY, locale)
+}
@@ -0,0 +1,47 @@
+import { clampInt } from './random'
+import { isRecord } from './validation'
+
+// Stream mode: upcoming targets are drawn ahead of time and shown in a queue, and each one is
+// typed right after the previous one instead of after a reset.
+export type StreamSettings = {
+  enabled: boolean
+  // How many upcoming targets are visible behind the current one.
+  lookAhead: number
+  // Targets are separated by a space that has to be typed as well.
+  spaces: boolean
+}
+
+export const STREAM_LIMITS = { minLookAhead: 1, maxLookAhead: 10 }
+
+export const DEFAULT_STREAM_SETTINGS: StreamSettings = {
+  enabled: false,
+  lookAhead: 4,
+  spaces: true,
+}
+
+export const STREAM_SEPARATOR = ' '
+
+// Size of the look-ahead queue (0 outside stream mode).
+export function streamQueueLength(settings: StreamSettings): number {
+  return settings.enabled ? clampInt(settings.lookAhead, STREAM_LIMITS.minLookAhead, STREAM_LIMITS.maxLookAhead) : 0
+}
+
+// Part of the session config key, so stream sessions are compared with each other only.
+export function streamConfigSuffix(settings: StreamSettings): string {
+  if (!settings.enabled) return ''
+  return settings.spaces ? '/stream-spaced' : '/stream'
+}
+
+export function sameStreamSettings(a: StreamSettings, b: StreamSettings): boolean {
+  return a.enabled === b.enabled && a.lookAhead === b.lookAhead && a.spaces === b.spaces
+}
+
+export function sanitizeStreamSettings(v: unknown): StreamSettings | null {
+  if (!isRecord(v)) return null
+  if (typeof v.enabled !== 'boolean' || typeof v.spaces !== 'boolean' || !Number.isInteger(v.lookAhead)) return null
+  return {
+    enabled: v.enabled,
+    lookAhead: clampInt(v.lookAhead as number, STREAM_LIMITS.minLookAhead, STREAM_LIMITS.maxLookAhead),
+    spaces: v.spaces,
+  }
+}
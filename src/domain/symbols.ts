@@ -29,3 +29,9 @@ export const COMBOS = [
 export function initEnabledMap(list: readonly string[]): Record<string, boolean> {
   return Object.fromEntries(list.map(item => [item, true]))
 }
+
+// Whether two switch maps enable the same items (missing items count as enabled).
+export function sameEnabledMap(a: Record<string, boolean>, b: Record<string, boolean>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return [...keys].every(k => (a[k] !== false) === (b[k] !== false))
+}
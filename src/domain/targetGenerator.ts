@@ -0,0 +1,120 @@
+import type { ComponentType } from 'react'
+import type { CustomSetKind, PoolInputs } from './customSets'
+import type { ErrorPolicy } from './errorPolicy'
+import type { Messages } from './i18n'
+import type { Mode } from './modes'
+import type { SchedulerSettings } from './scheduler'
+import type { Stat } from './stats'
+import type { ValidationError } from './validation'
+
+// Everything that makes a mode: where its targets come from, how keys are matched, which
+// stats they feed and how the mode looks. Each one registers itself (see `registerGenerator`);
+// the engine and the UI only go through this interface.
+
+// How a generator's settings are kept. Stored, shared (drill codes) and edited settings all
+// pass through here.
+export type SettingsSchema<S> = {
+  defaults: S
+  // null when `v` cannot be used.
+  sanitize: (v: unknown) => S | null
+  // Applied to every edit from the settings form.
+  normalize: (next: S) => S
+  // Changing settings draws a new target; equal settings keep the current one.
+  same: (a: S, b: S) => boolean
+}
+
+export type TargetContext<S> = {
+  settings: S
+  // Items of the pool (empty for generated targets).
+  pool: readonly string[]
+  // The mode's own stats (see `LifetimeStats.modeStats`).
+  stats: Record<string, Stat>
+  schedulerSettings: SchedulerSettings
+  // The target just shown, so it does not come up twice in a row.
+  avoid?: string
+  // Wall clock (epoch ms), for spaced repetition.
+  now: number
+  random: () => number
+}
+
+export type MatchingPolicy<S> = {
+  // What a wrong key does until the user picks a policy for the mode.
+  errorPolicy: ErrorPolicy
+  // Show the input buffer (solved part and uncorrected keys) instead of every key typed.
+  showsInput: boolean
+  // A non-character key that counts as typing `expected` (e.g. stepping over an auto-closed bracket).
+  stepsOver: ((settings: S, key: string, expected: string) => boolean) | null
+  // What an editor would have added after the input (e.g. auto-closed brackets), shown next to it.
+  autoInserted: ((settings: S, progress: string) => string) | null
+}
+
+// How curriculum stages practice the mode. Stage items are the mode's items, or whatever its
+// settings can be narrowed down to (e.g. number formats).
+export type LessonPolicy<S> = {
+  // What is wrong with a stage's items (null: they can be practiced).
+  checkItems: (items: readonly string[]) => ValidationError | null
+  // The stats key a stage item is judged on (see `LifetimeStats.modeStats`).
+  statKey: (item: string) => string
+  // How a stage item reads in the curriculum panel (null: the item itself).
+  itemLabel: ((m: Messages, item: string) => string) | null
+  // Settings that practice only `items`, for generated modes (null: the items are the pool).
+  settings: ((base: S, items: readonly string[]) => S) | null
+}
+
+// Modes whose items are switched on and off one by one, from the built-in list and the custom
+// sets of `kind`. The switches are part of the mode's settings.
+export type ItemPicker<S> = {
+  kind: CustomSetKind
+  // By item; items missing from the map are on.
+  enabled: (settings: S) => Record<string, boolean>
+  withEnabled: (settings: S, enabled: Record<string, boolean>) => S
+}
+
+export type SettingsFormProps<S> = {
+  settings: S
+  onChange: (next: S) => void
+}
+
+export type TargetViewProps = {
+  target: string
+  // The solved part of `target`, and wrong keys typed after it that still have to be deleted.
+  progress: string
+  pendingErrors: string
+}
+
+export type GeneratorView<S> = {
+  // null for modes without settings of their own.
+  SettingsForm: ComponentType<SettingsFormProps<S>> | null
+  // The current target (stream mode shows every mode the same way).
+  Target: ComponentType<TargetViewProps>
+  // Tables of the mode's own stats, under the item table (null: the item table says it all).
+  Stats: ComponentType<{ stats: Record<string, Stat> }> | null
+  // How a stats key reads in the item table (null: the key itself, in monospace).
+  statLabel: ((m: Messages, key: string) => string) | null
+  // Placeholder of the item table's filter (null: the generic one).
+  filterHint: ((m: Messages) => string) | null
+  // Long targets (lines of code) wrap, and only their next key gets a hint.
+  longTargets: boolean
+}
+
+export type TargetGenerator<S> = {
+  // Stored with sessions, events and settings.
+  id: Mode
+  label: (m: Messages) => string
+  // null for modes without settings of their own.
+  settings: SettingsSchema<S> | null
+  // Items to draw from; null for modes whose targets are generated from settings.
+  pool: ((settings: S, inputs: PoolInputs) => string[]) | null
+  // null for modes without item switches (their settings form picks what they draw from, if anything).
+  items: ItemPicker<S> | null
+  nextTarget: (context: TargetContext<S>) => string
+  matching: MatchingPolicy<S>
+  // Keys of the mode's own stats that a completed or missed target counts towards (null: targets
+  // are not scored as a whole)...
+  targetStatKeys: ((target: string) => string[]) | null
+  // ...and the character at `index`, on top of the layer and timing stats every mode keeps.
+  keyStatKeys: ((target: string, index: number) => string[]) | null
+  // null for modes curricula cannot use.
+  lesson: LessonPolicy<S> | null
+  view: GeneratorView<S>
+}
@@ -6,3 +6,11 @@ export function formatMs(ms: number): string {
   if (!Number.isFinite(ms) || ms <= 0) return '-'
   return `${Math.round(ms)} ms`
 }
+
+// m:ss, for session clocks.
+export function formatClock(ms: number): string {
+  const totalSec = Math.max(0, Math.ceil(ms / 1000))
+  const min = Math.floor(totalSec / 60)
+  const sec = totalSec % 60
+  return `${min}:${String(sec).padStart(2, '0')}`
+}
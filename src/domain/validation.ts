@@ -0,0 +1,75 @@
+// Where in an imported file (or code) a problem was found, e.g. `#2 Basics`, stage 3.
+export type ErrorPlace = {
+  // A path within the file, e.g. `#2`, `stats.layerStats` or a key code.
+  path?: string
+  name?: string
+  stage?: number
+  layer?: number
+}
+
+// Problems found when validating user input or imported files. They carry no text: the UI
+// words them in the current language (see `formatError`).
+export type ValidationError = { at?: ErrorPlace } & (
+  | { code: 'invalidJson' }
+  | { code: 'notBackup' }
+  | { code: 'notDrillCode' }
+  | { code: 'unsupportedVersion', version: string }
+  | { code: 'missingFields', fields: string[] }
+  | { code: 'missingArray', field: string }
+  | { code: 'invalidFormat' }
+  | { code: 'moreErrors', count: number }
+  | { code: 'nameRequired' }
+  | { code: 'noName' }
+  | { code: 'duplicateSetName', name: string }
+  | { code: 'duplicateProfileName', name: string }
+  | { code: 'noItems' }
+  | { code: 'emptyItem' }
+  | { code: 'unprintableItem', item: string }
+  | { code: 'notSingleItem', item: string }
+  | { code: 'duplicateItem', item: string }
+  | { code: 'stageMode', value: string, modes: string[] }
+  | { code: 'stageNotSingle' }
+  | { code: 'stageDigitsFormat', formats: string[] }
+  | { code: 'minAttempts' }
+  | { code: 'minAccuracy' }
+  | { code: 'maxAvgMs' }
+  | { code: 'noStages' }
+  | { code: 'invalidMode', value: string }
+  | { code: 'invalidSeed' }
+  | { code: 'invalidItems' }
+  | { code: 'invalidSettings', mode: string }
+  | { code: 'notKeycodeArray' }
+  | { code: 'unevenLayers' }
+  | { code: 'layoutBase', value: string }
+  | { code: 'layoutKey' }
+  | { code: 'loading' }
+  | { code: 'lastProfile' }
+  | { code: 'importedWithErrors' }
+  | { code: 'noPoolItems' }
+  | { code: 'unknownOption', option: string }
+  | { code: 'invalidOption', option: string, value: string }
+)
+
+export type ValidationErrorCode = ValidationError['code']
+
+// One message per error code, given the error's own fields.
+export type ErrorMessages = {
+  [C in ValidationErrorCode]: (error: Extract<ValidationError, { code: C }>) => string
+}
+
+// A count, duration or timestamp read from stored or imported data: NaN, Infinity and
+// negative values would poison every total they are added to.
+export function isNonNegativeNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v) && v >= 0
+}
+
+// A plain JSON object, as found in stored settings and imported files.
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+// On/off switches by item, language or source id; entries that are not booleans are dropped.
+export function sanitizeFlags(v: unknown): Record<string, boolean> | null {
+  if (!isRecord(v)) return null
+  return Object.fromEntries(Object.entries(v).filter(([, flag]) => typeof flag === 'boolean')) as Record<string, boolean>
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react'
+import type { CommandId, Hotkeys } from '../domain/commands'
+import { chordOf, commandForChord } from '../domain/commands'
+import { isEditableTarget } from '../domain/keyboard'
+
+// Runs the command bound to a pressed chord. Listens in the capture phase and marks the event
+// as handled, so the trainer (which skips handled events) never sees the key.
+export function useHotkeys(hotkeys: Hotkeys, handlers: Record<CommandId, () => void>, enabled: boolean = true) {
+  // Handlers are usually new on every render; reading them through a ref keeps the listener in place.
+  const handlersRef = useRef(handlers)
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return
+      if (isEditableTarget(e.target)) return
+      const chord = chordOf(e)
+      if (chord == null) return
+      const id = commandForChord(hotkeys, chord)
+      if (id == null) return
+      e.preventDefault()
+      // Holding the chord runs the command once.
+      if (!e.repeat) handlersRef.current[id]()
+    }
+
+    window.addEventListener('keydown', onKeyDown, { capture: true })
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true })
+  }, [enabled, hotkeys])
+}
@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react'
+import type { Messages } from '../domain/i18n'
+import { DEFAULT_LOCALE, MESSAGES } from '../domain/i18n'
+
+// The catalog of the current language; App provides it from the trainer's locale.
+export const MessagesContext = createContext<Messages>(MESSAGES[DEFAULT_LOCALE])
+
+export function useMessages(): Messages {
+  return useContext(MessagesContext)
+}
@@ -1,369 +1,932 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import type { DigitsSettings } from '../domain/digits'
-import { generateDigitsTarget } from '../domain/digits'
-import type { Mode } from '../domain/modes'
-import { normalizeKey } from '../domain/keyboard'
-import { pickRandom, clampInt } from '../domain/random'
-import { nowMs } from '../domain/time'
-import { COMBOS, initEnabledMap, SINGLE_SYMBOLS } from '../domain/symbols'
-
-type Stat = {
-  attempts: number
-  correct: number
-  totalMs: number
-}
-
-type RankedStat = {
-  item: string
-  attempts: number
-  correct: number
-  totalMs: number
-  acc: number
-  avg: number | null
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
+import type { GeneratorSettings, Mode } from '../domain/modes'
+import { buildPool, generatorOf, isGeneratedMode, MODES, updateGeneratorSettings } from '../domain/modes'
+import type { CommandId, Hotkeys } from '../domain/commands'
+import { bindHotkey, DEFAULT_HOTKEYS } from '../domain/commands'
+import type { Curriculum, CurriculumProgress } from '../domain/curriculum'
+import type { MissBreakdown } from '../domain/diagnostics'
+import { buildMissBreakdown } from '../domain/diagnostics'
+import type { StreamSettings } from '../domain/stream'
+import { sanitizeStreamSettings } from '../domain/stream'
+import type { HostLayout, HostLayoutId, LayoutSettings, PhysicalKey } from '../domain/layout'
+import { parseCustomLayoutJson, physicalKeyOf, resolveHostLayout } from '../domain/layout'
+import {
+  BUILTIN_CURRICULUM,
+  curriculumLesson,
+  evaluateCurriculum,
+  importCurricula,
+  lessonConfig,
+} from '../domain/curriculum'
+import { isEditableTarget } from '../domain/keyboard'
+import { randomSeed } from '../domain/random'
+import type { DrillSpec } from '../domain/drill'
+import { decodeDrillCode, DRILL_URL_PARAM, encodeDrillCode } from '../domain/drill'
+import { initEnabledMap } from '../domain/symbols'
+import type { Stat } from '../domain/stats'
+import type { SessionRecord } from '../domain/history'
+import { appendSession } from '../domain/history'
+import type { SessionConfig, SessionPhase, SessionSummary } from '../domain/session'
+import { sessionConfigKey } from '../domain/session'
+import type { GhostDelta, GhostRun } from '../domain/ghost'
+import { ghostDelta } from '../domain/ghost'
+import type { ErrorPolicy } from '../domain/errorPolicy'
+import type { SchedulerSettings } from '../domain/scheduler'
+import type { Profile, ProfileIndex, ProfileSettings } from '../domain/profiles'
+import { createProfileId, defaultProfileIndex, defaultProfileSettings, validateProfileName } from '../domain/profiles'
+import type { ImportStrategy } from '../domain/backup'
+import { mergeBackup, parseBackupJson } from '../domain/backup'
+import type { Locale, Messages } from '../domain/i18n'
+import { detectLocale, MESSAGES } from '../domain/i18n'
+import type { EngineConfig, LifetimeStats } from '../domain/engine'
+import { createTrainerEngine, sessionAccuracy } from '../domain/engine'
+import type { StorageBackend } from '../domain/storage'
+import {
+  clearData,
+  loadCurricula,
+  loadCustomSets,
+  loadData,
+  loadEvents,
+  loadKeymapSource,
+  loadLocale,
+  loadProfileIndex,
+  loadSettings,
+  openStorage,
+  removeProfileData,
+  saveCurricula,
+  saveCustomSets,
+  saveData,
+  saveEvents,
+  saveKeymapSource,
+  saveLocale,
+  saveProfileIndex,
+  saveSettings,
+} from '../domain/storage'
+import type { KeyBinding, Keymap } from '../domain/keymap'
+import { buildCharIndex, DEFAULT_KEYMAP_JSON, parseKeymapJson } from '../domain/keymap'
+import type { KeystrokeEvent } from '../domain/events'
+import type { ValidationError } from '../domain/validation'
+import type { CustomSet, CustomSetDraft, PoolSource } from '../domain/customSets'
+import {
+  createCustomSetId,
+  importCustomSets,
+  poolSourcesFor,
+  validateCustomSet,
+} from '../domain/customSets'
+
+// A drill shared through the URL (`?drill=<code>`) starts right away.
+function drillFromUrl(): DrillSpec | null {
+  const code = new URLSearchParams(window.location.search).get(DRILL_URL_PARAM)
+  return code == null ? null : decodeDrillCode(code).drill
 }
 
 export type TrainerState = {
   mode: Mode
   isRunning: boolean
 
-  enabledSingle: Record<string, boolean>
-  enabledCombo: Record<string, boolean>
-
+  profiles: Profile[]
+  activeProfileId: string
+
+  // The UI language (shared by all profiles) and its catalog.
+  locale: Locale
+  messages: Messages
+
+  // While a drill is active, its mode, items and digits settings replace the pickers.
+  drill: DrillSpec | null
+  drillCode: string | null
+
+  // The built-in curriculum followed by the custom ones.
+  curricula: Curriculum[]
+  // While a curriculum is followed (and no drill is active), its current lesson replaces the pickers.
+  activeCurriculum: Curriculum | null
+  curriculumProgress: CurriculumProgress | null
+
+  sessionConfig: SessionConfig
+  phase: SessionPhase
+  // Remaining countdown before the session starts.
+  countdownMs: number
+  // Time spent practicing in the current session (pauses excluded).
+  activeMs: number
+  // Set when a session has just finished, until the results screen is dismissed.
+  finishedSummary: SessionSummary | null
+  // Best finished run of the configuration being played, when the ghost pacer is on.
+  ghost: GhostRun | null
+  // Where the running session stands against the ghost.
+  ghostDelta: GhostDelta | null
+
+  customSets: CustomSet[]
+  // Built-in list and custom sets for the current mode (modes with item switches only).
+  poolSources: PoolSource[]
+  // The pool with the mode's default settings, i.e. every item on.
   basePool: string[]
   pool: string[]
 
-  digitsSettings: DigitsSettings
+  // Settings of every mode that has some (see `TargetGenerator.settings`), item switches included.
+  generatorSettings: GeneratorSettings
+  schedulerSettings: SchedulerSettings
+  // Error policy of the current mode.
+  errorPolicy: ErrorPolicy
 
   target: string
   typed: string
   progress: string
+  pendingErrors: string
+  // What an editor would have added after the cursor, e.g. auto-closed brackets (see `MatchingPolicy.autoInserted`).
+  autoInserted: string
+  streamSettings: StreamSettings
+  // Stream mode: the upcoming targets, and whether the space before the current one is still due.
+  queue: string[]
+  separatorPending: boolean
 
   totalAttempts: number
   totalCorrect: number
   totalMiss: number
   totalBackspace: number
+  totalKeystrokes: number
   lastTimeMs: number | null
+  // Time to the first key of the last target, then each interval between its keys.
+  lastSplits: number[]
 
   accuracy: number
-  ranked: RankedStat[]
+  // Kept apart per mode, under the keys its generator scores (see `LifetimeStats.modeStats`).
+  modeStats: Record<Mode, Record<string, Stat>>
+
+  keymap: Keymap
+  isDefaultKeymap: boolean
+  // Where each character of the target lives on the keymap (null if it is not on it).
+  keyHints: (KeyBinding | null)[]
+  hotkeys: Hotkeys
+  layoutSettings: LayoutSettings
+  hostLayout: HostLayout
+  // Which physical key (and Shift) types each character of the target on the OS layout.
+  layoutHints: (PhysicalKey | null)[]
+  missBreakdown: MissBreakdown
+  layerStats: Record<string, Stat>
+  transitionStats: Record<string, Stat>
+  firstKeyStats: Record<string, Stat>
+  bigramStats: Record<string, Stat>
+  // All of the above and the per-item stats, for export.
+  lifetimeStats: LifetimeStats
+
+  events: KeystrokeEvent[]
+
+  sessionStartedAt: number
+  sessions: SessionRecord[]
+  isLoaded: boolean
 }
 
 export type TrainerActions = {
   setModeAndReset: (mode: Mode) => void
-  toggleRunning: () => void
-  resetAll: () => void
-
-  setDigitsSettingsAndReset: (next: DigitsSettings) => void
 
+  // Switching finishes the current session and records it under the profile it was typed in.
+  switchProfile: (id: string) => void
+  setLocale: (locale: Locale) => void
+  // These return validation errors; an empty list means the change was applied.
+  createProfile: (name: string) => ValidationError[]
+  renameProfile: (id: string, name: string) => ValidationError[]
+  deleteProfile: (id: string) => ValidationError[]
+
+  setSessionConfig: (config: SessionConfig) => void
+  startSession: () => void
+  // Switches to the given session type (if needed) and starts it right away.
+  startSessionWith: (config: SessionConfig) => void
+  togglePause: () => void
+  completeSession: () => void
+  dismissSummary: () => void
+  resetSession: () => void
+  wipeAllHistory: () => void
+  // Returns the problems found in the file; valid rows are imported even when some are bad.
+  importBackup: (json: string, strategy: ImportStrategy) => ValidationError[]
+
+  setGeneratorSettings: (mode: Mode, next: unknown) => void
+  setStreamSettings: (next: StreamSettings) => void
+  setSchedulerSettings: (next: SchedulerSettings) => void
+  setErrorPolicy: (next: ErrorPolicy) => void
+
+  // Item switches of the current mode (see `TargetGenerator.items`).
   enableAllInCurrentMode: () => void
   disableAllInCurrentMode: () => void
   setEnabledForItemInCurrentMode: (item: string, enabled: boolean) => void
+  setEnabledForSource: (sourceId: string, enabled: boolean) => void
+
+  // These return validation errors; an empty list means the change was applied.
+  addCustomSet: (draft: CustomSetDraft) => ValidationError[]
+  updateCustomSet: (id: string, draft: CustomSetDraft) => ValidationError[]
+  deleteCustomSet: (id: string) => void
+  importCustomSetsJson: (json: string) => ValidationError[]
+
+  importKeymapJson: (json: string) => ValidationError[]
+  resetKeymap: () => void
+  setHotkey: (id: CommandId, chord: string | null) => void
+  resetHotkeys: () => void
+  setLayoutId: (id: HostLayoutId) => void
+  importCustomLayoutJson: (json: string) => ValidationError[]
+
+  // Starts a drill from the current mode and pool with a fresh seed.
+  createDrill: () => ValidationError[]
+  applyDrillCode: (code: string) => ValidationError[]
+  exitDrill: () => void
+
+  startCurriculum: (id: string) => void
+  stopCurriculum: () => void
+  importCurriculaJson: (json: string) => ValidationError[]
+  deleteCurriculum: (id: string) => void
 }
 
 export function useTrainer(): { state: TrainerState, actions: TrainerActions } {
-  const [mode, setMode] = useState<Mode>('single')
-  const [isRunning, setIsRunning] = useState(true)
+  const [drill, setDrill] = useState<DrillSpec | null>(drillFromUrl)
+  // The first mode offered (see `MODES`) unless a drill says otherwise.
+  const [mode, setMode] = useState<Mode>(() => drill?.mode ?? MODES[0])
+
+  // Settings below are per profile; they start from the defaults until the active profile is loaded.
+  const [initialSettings] = useState(defaultProfileSettings)
+  const [sessionConfig, setSessionConfigState] = useState<SessionConfig>(initialSettings.sessionConfig)
+
+  const [customSets, setCustomSets] = useState<CustomSet[]>([])
+  const [enabledSources, setEnabledSources] = useState<Record<string, boolean>>(initialSettings.enabledSources)
+  const [generatorSettings, setGeneratorSettingsState] = useState<GeneratorSettings>(initialSettings.generatorSettings)
+
+  const poolSources = useMemo(() => {
+    const picker = generatorOf(mode).items
+    return picker ? poolSourcesFor(picker.kind, customSets, enabledSources) : []
+  }, [customSets, enabledSources, mode])
+
+  const basePool = useMemo(() => (
+    buildPool(mode, generatorOf(mode).settings?.defaults ?? null, { customSets, sources: enabledSources })
+  ), [customSets, enabledSources, mode])
+
+  const pool = useMemo(() => (
+    buildPool(mode, generatorSettings[mode], { customSets, sources: enabledSources })
+  ), [customSets, enabledSources, generatorSettings, mode])
+
+  const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(initialSettings.schedulerSettings)
+  const [errorPolicies, setErrorPolicies] = useState<Record<Mode, ErrorPolicy>>(initialSettings.errorPolicies)
+  const [curriculumId, setCurriculumId] = useState<string | null>(initialSettings.curriculumId)
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(initialSettings.layoutSettings)
+  const [streamSettings, setStreamSettingsState] = useState<StreamSettings>(initialSettings.streamSettings)
+  const [hotkeys, setHotkeys] = useState<Hotkeys>(initialSettings.hotkeys)
+
+  const settings = useMemo((): ProfileSettings => ({
+    enabledSources,
+    generatorSettings,
+    schedulerSettings,
+    errorPolicies,
+    sessionConfig,
+    streamSettings,
+    curriculumId,
+    layoutSettings,
+    hotkeys,
+  }), [
+    curriculumId,
+    enabledSources,
+    errorPolicies,
+    generatorSettings,
+    hotkeys,
+    layoutSettings,
+    schedulerSettings,
+    sessionConfig,
+    streamSettings,
+  ])
+
+  const applySettings = useCallback((next: ProfileSettings) => {
+    setEnabledSources(next.enabledSources)
+    setGeneratorSettingsState(next.generatorSettings)
+    setSchedulerSettings(next.schedulerSettings)
+    setErrorPolicies(next.errorPolicies)
+    setSessionConfigState(next.sessionConfig)
+    setStreamSettingsState(next.streamSettings)
+    setCurriculumId(next.curriculumId)
+    setLayoutSettings(next.layoutSettings)
+    setHotkeys(next.hotkeys)
+  }, [])
 
-  const [enabledSingle, setEnabledSingle] = useState<Record<string, boolean>>(() => initEnabledMap(SINGLE_SYMBOLS))
-  const [enabledCombo, setEnabledCombo] = useState<Record<string, boolean>>(() => initEnabledMap(COMBOS))
+  // `null` means the built-in default keymap.
+  const [keymapSource, setKeymapSource] = useState<string | null>(null)
+  // The browser language until the saved choice is loaded.
+  const [locale, setLocaleState] = useState<Locale>(() => detectLocale(navigator.languages))
+  const keymap = useMemo(() => {
+    const parsed = keymapSource == null ? null : parseKeymapJson(keymapSource).keymap
+    return parsed ?? parseKeymapJson(DEFAULT_KEYMAP_JSON).keymap as Keymap
+  }, [keymapSource])
+  const charIndex = useMemo(() => buildCharIndex(keymap), [keymap])
+  const hostLayout = useMemo(() => resolveHostLayout(layoutSettings), [layoutSettings])
+
+  // The configuration picked by hand or by a drill; a curriculum lesson may replace it below.
+  const baseConfig = useMemo((): EngineConfig => (drill ? {
+    mode: drill.mode,
+    pool: drill.items,
+    generatorSettings: drill.generatorSettings,
+    // Weighting depends on personal stats; drills must not.
+    schedulerSettings: { ...schedulerSettings, strategy: 'uniform' },
+    sessionConfig,
+    errorPolicy: errorPolicies[drill.mode],
+    streamSettings,
+    charIndex,
+    seed: drill.seed,
+  } : {
+    mode,
+    pool,
+    generatorSettings,
+    schedulerSettings,
+    sessionConfig,
+    errorPolicy: errorPolicies[mode],
+    streamSettings,
+    charIndex,
+    seed: null,
+  }), [
+    charIndex,
+    drill,
+    errorPolicies,
+    generatorSettings,
+    mode,
+    pool,
+    schedulerSettings,
+    sessionConfig,
+    streamSettings,
+  ])
+
+  const drillCode = useMemo(() => (drill ? encodeDrillCode(drill) : null), [drill])
+
+  // Keep the address bar shareable while a drill is active.
+  useEffect(() => {
+    const url = new URL(window.location.href)
+    if (drillCode == null) url.searchParams.delete(DRILL_URL_PARAM)
+    else url.searchParams.set(DRILL_URL_PARAM, drillCode)
+    if (url.href !== window.location.href) window.history.replaceState(null, '', url)
+  }, [drillCode])
+
+  // Targets, scoring, session timing and stats live in the engine; this hook wires it to React and the DOM.
+  const [engine] = useState(() => createTrainerEngine(baseConfig))
+  const engineState = useSyncExternalStore(engine.subscribe, engine.getState)
+  const { phase, target, queue, separatorPending, typed, progress, pendingErrors, session, stats, events, sessions, bestRuns } = engineState
+  const isRunning = phase === 'running'
+
+  const [customCurricula, setCustomCurricula] = useState<Curriculum[]>([])
+  const curricula = useMemo(() => [BUILTIN_CURRICULUM, ...customCurricula], [customCurricula])
+  const activeCurriculum = curricula.find(c => c.id === curriculumId) ?? null
+  const curriculumProgress = useMemo(
+    () => (activeCurriculum ? evaluateCurriculum(activeCurriculum, stats.modeStats) : null),
+    [activeCurriculum, stats.modeStats],
+  )
+  // Mastering a stage moves the lesson on, which reaches the engine as a new mode or pool.
+  const lessonIndex = curriculumProgress?.currentIndex ?? null
+  const lesson = useMemo(
+    () => (activeCurriculum && lessonIndex != null ? curriculumLesson(activeCurriculum, lessonIndex) : null),
+    [activeCurriculum, lessonIndex],
+  )
+
+  const engineConfig = useMemo((): EngineConfig => (drill || !lesson ? baseConfig : {
+    ...baseConfig,
+    mode: lesson.mode,
+    ...lessonConfig(lesson, generatorSettings),
+    errorPolicy: errorPolicies[lesson.mode],
+  }), [baseConfig, drill, errorPolicies, generatorSettings, lesson])
+  const errorPolicy = engineConfig.errorPolicy
 
-  const basePool = useMemo(() => {
-    if (mode === 'digits') return []
-    return mode === 'single' ? [...SINGLE_SYMBOLS] : [...COMBOS]
-  }, [mode])
+  useEffect(() => {
+    engine.dispatch({ type: 'configure', config: engineConfig })
+  }, [engine, engineConfig])
+
+  const storageRef = useRef<StorageBackend | null>(null)
+  const [profileIndex, setProfileIndex] = useState<ProfileIndex>(defaultProfileIndex)
+  // The profile whose data is in the engine; null while it is loading, so nothing is written to the wrong one.
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null)
+  const isLoaded = loadedProfileId != null
+
+  const keyHints = useMemo(() => [...target].map(ch => charIndex.get(ch) ?? null), [charIndex, target])
+  const layoutHints = useMemo(() => [...target].map(ch => physicalKeyOf(hostLayout, ch)), [hostLayout, target])
+  const missBreakdown = useMemo(
+    () => buildMissBreakdown(events, hostLayout, keymap, charIndex),
+    [charIndex, events, hostLayout, keymap],
+  )
+
+  // The best finished run of the configuration being played, when racing against it is on.
+  const playing = engineState.config
+  const ghost = playing.sessionConfig.ghost
+    ? bestRuns[sessionConfigKey(playing.mode, playing.sessionConfig, playing.seed, playing.streamSettings)] ?? null
+    : null
+  const standing = ghost && (phase === 'running' || phase === 'paused')
+    ? ghostDelta(ghost, session.targetTimes, engineState.activeMs)
+    : null
+
+  const accuracy = sessionAccuracy(session)
+
+  // Reads a profile's stats, history, keystroke log and settings into the engine and the settings state.
+  const loadProfile = useCallback(async (backend: StorageBackend, profileId: string, isCancelled: () => boolean) => {
+    const [data, storedEvents, storedSettings] = await Promise.all([
+      loadData(backend, profileId),
+      loadEvents(backend, profileId),
+      loadSettings(backend, profileId),
+    ])
+    if (isCancelled()) return
+    // Anything typed while loading is added on top of the stored stats.
+    engine.dispatch({
+      type: 'load',
+      stats: {
+        modeStats: data.modeStats,
+        layerStats: data.layerStats,
+        transitionStats: data.transitionStats,
+        firstKeyStats: data.firstKeyStats,
+        bigramStats: data.bigramStats,
+      },
+      sessions: data.currentSession ? appendSession(data.sessions, data.currentSession) : data.sessions,
+      bestRuns: data.bestRuns,
+      events: storedEvents,
+    })
+    applySettings(storedSettings)
+    setLoadedProfileId(profileId)
+  }, [applySettings, engine])
 
-  const enabledMap = mode === 'single' ? enabledSingle : enabledCombo
-
-  const pool = useMemo(() => {
-    return basePool.filter(item => enabledMap[item] !== false)
-  }, [basePool, enabledMap])
-
-  const [digitsSettings, setDigitsSettings] = useState<DigitsSettings>(() => ({
-    minIntDigits: 3,
-    maxIntDigits: 7,
-    enableSign: false,
-    enableDecimal: false,
-    minFracDigits: 1,
-    maxFracDigits: 4,
-  }))
-
-  const [target, setTarget] = useState<string>(() => pickRandom(SINGLE_SYMBOLS))
-  // `typed` is what we show to the user: everything they typed until they solve the current target.
-  const [typed, setTyped] = useState<string>('')
-  // `progress` is the current matching buffer (resets on mismatch).
-  const [progress, setProgress] = useState<string>('')
-
-  const [totalAttempts, setTotalAttempts] = useState(0)
-  const [totalCorrect, setTotalCorrect] = useState(0)
-  const [totalMiss, setTotalMiss] = useState(0)
-  const [totalBackspace, setTotalBackspace] = useState(0)
-  const [lastTimeMs, setLastTimeMs] = useState<number | null>(null)
-
-  const [statsByItem, setStatsByItem] = useState<Record<string, Stat>>({})
-
-  const shownAtRef = useRef<number>(nowMs())
-
-  const resetQuestion = useCallback((nextMode: Mode, overrides?: {
-    enabledSingle?: Record<string, boolean>
-    enabledCombo?: Record<string, boolean>
-    digitsSettings?: DigitsSettings
-  }) => {
-    const effectiveDigitsSettings = overrides?.digitsSettings ?? digitsSettings
-    const effectiveEnabledSingle = overrides?.enabledSingle ?? enabledSingle
-    const effectiveEnabledCombo = overrides?.enabledCombo ?? enabledCombo
-
-    if (nextMode === 'digits') {
-      setTarget(generateDigitsTarget(effectiveDigitsSettings))
-      setTyped('')
-      setProgress('')
-      shownAtRef.current = nowMs()
-      return
+  useEffect(() => {
+    let cancelled = false
+    void (async () => {
+      const backend = await openStorage()
+      const [index, storedCustomSets, storedKeymapSource, storedCurricula, storedLocale] = await Promise.all([
+        loadProfileIndex(backend),
+        loadCustomSets(backend),
+        loadKeymapSource(backend),
+        loadCurricula(backend),
+        loadLocale(backend),
+      ])
+      if (cancelled) return
+      storageRef.current = backend
+      setProfileIndex(index)
+      setCustomSets(storedCustomSets)
+      setCustomCurricula(storedCurricula)
+      setKeymapSource(storedKeymapSource)
+      if (storedLocale) setLocaleState(storedLocale)
+      await loadProfile(backend, index.activeId, () => cancelled)
+    })()
+    return () => {
+      cancelled = true
     }
+  }, [engine, loadProfile])
 
-    const list = nextMode === 'single' ? [...SINGLE_SYMBOLS] : [...COMBOS]
-    const enabled = nextMode === 'single' ? effectiveEnabledSingle : effectiveEnabledCombo
-    const nextPool = list.filter(item => enabled[item] !== false)
-    setTarget(nextPool.length === 0 ? '' : pickRandom(nextPool))
-    setTyped('')
-    setProgress('')
-    shownAtRef.current = nowMs()
-  }, [digitsSettings, enabledCombo, enabledSingle])
-
-  const nextQuestion = useCallback(() => {
-    if (mode === 'digits') {
-      resetQuestion('digits')
-      return
+  useEffect(() => {
+    const backend = storageRef.current
+    if (!backend || loadedProfileId == null) return
+    const save = () => {
+      void saveData(backend, {
+        ...stats,
+        sessions,
+        bestRuns,
+        currentSession: engine.currentSession(),
+      }, loadedProfileId)
     }
-    if (pool.length === 0) return
-    const next = pickRandom(pool)
-    setTarget(next)
-    setTyped('')
-    setProgress('')
-    shownAtRef.current = nowMs()
-  }, [mode, pool, resetQuestion])
-
-  const bumpStat = useCallback((item: string, isCorrect: boolean, elapsedMs?: number) => {
-    setStatsByItem(prev => {
-      const current = prev[item] ?? { attempts: 0, correct: 0, totalMs: 0 }
-      const next: Stat = {
-        attempts: current.attempts + 1,
-        correct: current.correct + (isCorrect ? 1 : 0),
-        totalMs: current.totalMs + (isCorrect && elapsedMs != null ? elapsedMs : 0),
-      }
-      return { ...prev, [item]: next }
-    })
-  }, [])
-
-  const accuracy = totalAttempts === 0 ? 0 : (totalCorrect / totalAttempts) * 100
+    // Debounce: a burst of keystrokes results in a single write. Flush right away when the page goes away.
+    const handle = window.setTimeout(save, 300)
+    window.addEventListener('pagehide', save)
+    return () => {
+      window.clearTimeout(handle)
+      window.removeEventListener('pagehide', save)
+    }
+  }, [bestRuns, engine, loadedProfileId, session, sessions, stats])
 
-  const ranked = useMemo(() => {
-    const entries = Object.entries(statsByItem)
-    // Rank by (lowest accuracy, then most attempts)
-    return entries
-      .map(([item, s]) => {
-        const acc = s.attempts === 0 ? 0 : (s.correct / s.attempts) * 100
-        const avg = s.correct === 0 ? null : s.totalMs / s.correct
-        return { item, ...s, acc, avg }
-      })
-      .sort((a, b) => {
-        if (a.acc !== b.acc) return a.acc - b.acc
-        return b.attempts - a.attempts
-      })
-      .slice(0, 10)
-  }, [statsByItem])
+  useEffect(() => {
+    const backend = storageRef.current
+    if (!backend || loadedProfileId == null) return
+    const save = () => {
+      void saveEvents(backend, events, loadedProfileId)
+    }
+    // The log is bigger than the stats, so it is written less eagerly.
+    const handle = window.setTimeout(save, 1000)
+    window.addEventListener('pagehide', save)
+    return () => {
+      window.clearTimeout(handle)
+      window.removeEventListener('pagehide', save)
+    }
+  }, [events, loadedProfileId])
 
+  useEffect(() => {
+    const backend = storageRef.current
+    if (!backend || loadedProfileId == null) return
+    const handle = window.setTimeout(() => {
+      void saveSettings(backend, settings, loadedProfileId)
+    }, 300)
+    return () => window.clearTimeout(handle)
+  }, [loadedProfileId, settings])
+
+  // Switching the mode or the session type starts a new session (see the engine's `configure`).
   const setModeAndReset = useCallback((nextMode: Mode) => {
+    setDrill(null)
+    setCurriculumId(null)
     setMode(nextMode)
-    resetQuestion(nextMode)
-  }, [resetQuestion])
+  }, [])
 
-  const toggleRunning = useCallback(() => {
-    setIsRunning(v => !v)
+  const applyProfileIndex = useCallback((next: ProfileIndex) => {
+    setProfileIndex(next)
+    const backend = storageRef.current
+    if (backend) void saveProfileIndex(backend, next)
   }, [])
 
-  const resetAll = useCallback(() => {
-    setTotalAttempts(0)
-    setTotalCorrect(0)
-    setTotalMiss(0)
-    setTotalBackspace(0)
-    setLastTimeMs(null)
-    setStatsByItem({})
-    resetQuestion(mode)
-  }, [mode, resetQuestion])
-
-  const setDigitsSettingsAndReset = useCallback((next: DigitsSettings) => {
-    const normalized: DigitsSettings = {
-      ...next,
-      minIntDigits: clampInt(next.minIntDigits, 1, 50),
-      maxIntDigits: clampInt(next.maxIntDigits, 1, 50),
-      minFracDigits: clampInt(next.minFracDigits, 1, 50),
-      maxFracDigits: clampInt(next.maxFracDigits, 1, 50),
+  // Leaves the loaded profile and loads `id`; `nextIndex` is the profile list to store along with it.
+  const changeProfile = useCallback(async (id: string, nextIndex: ProfileIndex) => {
+    const backend = storageRef.current
+    const from = loadedProfileId
+    if (!backend || from == null) return
+    setLoadedProfileId(null)
+    // Finish the session in progress so it lands in the history of the profile it was typed in.
+    engine.dispatch({ type: 'reset' })
+    const { stats: fromStats, sessions: fromSessions, bestRuns: fromBestRuns, events: fromEvents } = engine.getState()
+    applyProfileIndex(nextIndex)
+    await Promise.all([
+      saveData(backend, { ...fromStats, sessions: fromSessions, bestRuns: fromBestRuns, currentSession: null }, from),
+      saveEvents(backend, fromEvents, from),
+      saveSettings(backend, settings, from),
+    ])
+    engine.dispatch({ type: 'wipe' })
+    await loadProfile(backend, id, () => false)
+  }, [applyProfileIndex, engine, loadProfile, loadedProfileId, settings])
+
+  const switchProfile = useCallback((id: string) => {
+    if (id === loadedProfileId || !profileIndex.profiles.some(p => p.id === id)) return
+    void changeProfile(id, { ...profileIndex, activeId: id })
+  }, [changeProfile, loadedProfileId, profileIndex])
+
+  // A new profile starts with the default settings and becomes the active one.
+  const createProfile = useCallback((name: string): ValidationError[] => {
+    const errors = validateProfileName(name, profileIndex.profiles)
+    if (errors.length > 0) return errors
+    if (loadedProfileId == null) return [{ code: 'loading' }]
+    const profile: Profile = { id: createProfileId(), name: name.trim() }
+    void changeProfile(profile.id, { profiles: [...profileIndex.profiles, profile], activeId: profile.id })
+    return []
+  }, [changeProfile, loadedProfileId, profileIndex])
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    const errors = validateProfileName(name, profileIndex.profiles.filter(p => p.id !== id))
+    if (errors.length > 0) return errors
+    applyProfileIndex({
+      ...profileIndex,
+      profiles: profileIndex.profiles.map(p => (p.id === id ? { ...p, name: name.trim() } : p)),
+    })
+    return []
+  }, [applyProfileIndex, profileIndex])
+
+  // Deleting the active profile switches to another one first; the data goes once nothing writes to it anymore.
+  const deleteProfile = useCallback((id: string): ValidationError[] => {
+    const backend = storageRef.current
+    const rest = profileIndex.profiles.filter(p => p.id !== id)
+    if (rest.length === 0) return [{ code: 'lastProfile' }]
+    if (!backend || loadedProfileId == null) return [{ code: 'loading' }]
+    if (id === loadedProfileId) {
+      void changeProfile(rest[0].id, { profiles: rest, activeId: rest[0].id })
+        .then(() => removeProfileData(backend, id))
+    } else {
+      applyProfileIndex({ ...profileIndex, profiles: rest })
+      void removeProfileData(backend, id)
     }
-    normalized.minIntDigits = Math.min(normalized.minIntDigits, normalized.maxIntDigits)
-    normalized.maxIntDigits = Math.max(normalized.maxIntDigits, normalized.minIntDigits)
-    normalized.minFracDigits = Math.min(normalized.minFracDigits, normalized.maxFracDigits)
-    normalized.maxFracDigits = Math.max(normalized.maxFracDigits, normalized.minFracDigits)
-    setDigitsSettings(normalized)
-    resetQuestion('digits', { digitsSettings: normalized })
-  }, [resetQuestion])
+    return []
+  }, [applyProfileIndex, changeProfile, loadedProfileId, profileIndex])
+
+  const setSessionConfig = useCallback((config: SessionConfig) => {
+    setSessionConfigState(config)
+  }, [])
+
+  const startSession = useCallback(() => {
+    engine.dispatch({ type: 'start' })
+  }, [engine])
+
+  const startSessionWith = useCallback((config: SessionConfig) => {
+    setSessionConfigState(config)
+    // Configured here rather than by the config effect, so the start below is not undone by it.
+    engine.dispatch({ type: 'configure', config: { sessionConfig: config } })
+    engine.dispatch({ type: 'start' })
+  }, [engine])
+
+  const togglePause = useCallback(() => {
+    engine.dispatch({ type: 'togglePause' })
+  }, [engine])
+
+  const completeSession = useCallback(() => {
+    engine.dispatch({ type: 'finish' })
+  }, [engine])
+
+  const dismissSummary = useCallback(() => {
+    engine.dispatch({ type: 'dismiss' })
+  }, [engine])
+
+  const resetSession = useCallback(() => {
+    engine.dispatch({ type: 'reset' })
+  }, [engine])
+
+  useEffect(() => {
+    if (phase !== 'countdown' && phase !== 'running') return
+    const handle = window.setInterval(() => engine.dispatch({ type: 'tick' }), 100)
+    return () => window.clearInterval(handle)
+  }, [engine, phase])
+
+  // Only the active profile's stats and history.
+  const wipeAllHistory = useCallback(() => {
+    const backend = storageRef.current
+    if (!backend || loadedProfileId == null) return
+    engine.dispatch({ type: 'wipe' })
+    void clearData(backend, loadedProfileId)
+  }, [engine, loadedProfileId])
+
+  const importBackup = useCallback((json: string, strategy: ImportStrategy): ValidationError[] => {
+    const { data, errors } = parseBackupJson(json)
+    if (!data) return errors
+    const current = engine.getState()
+    const next = strategy === 'replace' ? data : mergeBackup(current, data, strategy)
+    // Backups carry no best runs: merging keeps the current ones, replacing drops them with the history.
+    engine.dispatch({ type: 'restore', ...next, bestRuns: strategy === 'replace' ? {} : current.bestRuns })
+    return errors.length === 0 ? [] : [{ code: 'importedWithErrors' }, ...errors]
+  }, [engine])
+
+  const setGeneratorSettings = useCallback((mode: Mode, next: unknown) => {
+    setGeneratorSettingsState(prev => updateGeneratorSettings(prev, mode, next))
+  }, [])
+
+  const setStreamSettings = useCallback((next: StreamSettings) => {
+    setStreamSettingsState(sanitizeStreamSettings(next) ?? next)
+  }, [])
+
+  const setErrorPolicy = useCallback((next: ErrorPolicy) => {
+    setErrorPolicies(prev => ({ ...prev, [engineConfig.mode]: next }))
+  }, [engineConfig.mode])
+
+  // Item switches are part of the mode's settings; pool changes reach the engine through
+  // `engineConfig`, which draws a new target.
+  const updateEnabledItems = useCallback((update: (prev: Record<string, boolean>) => Record<string, boolean>) => {
+    const picker = generatorOf(mode).items
+    if (!picker) return
+    setGeneratorSettingsState(prev => (
+      updateGeneratorSettings(prev, mode, picker.withEnabled(prev[mode], update(picker.enabled(prev[mode]))))
+    ))
+  }, [mode])
 
   const enableAllInCurrentMode = useCallback(() => {
-    if (mode === 'digits') return
-    if (mode === 'single') {
-      const next = initEnabledMap(SINGLE_SYMBOLS)
-      setEnabledSingle(next)
-      resetQuestion('single', { enabledSingle: next })
-    } else {
-      const next = initEnabledMap(COMBOS)
-      setEnabledCombo(next)
-      resetQuestion('combo', { enabledCombo: next })
-    }
-  }, [mode, resetQuestion])
+    updateEnabledItems(prev => ({ ...prev, ...initEnabledMap(basePool) }))
+  }, [basePool, updateEnabledItems])
 
   const disableAllInCurrentMode = useCallback(() => {
-    if (mode === 'digits') return
-    const next = Object.fromEntries(basePool.map(item => [item, false]))
-    if (mode === 'single') {
-      setEnabledSingle(next)
-      resetQuestion('single', { enabledSingle: next })
-    } else {
-      setEnabledCombo(next)
-      resetQuestion('combo', { enabledCombo: next })
-    }
-  }, [basePool, mode, resetQuestion])
+    updateEnabledItems(() => Object.fromEntries(basePool.map(item => [item, false])))
+  }, [basePool, updateEnabledItems])
 
   const setEnabledForItemInCurrentMode = useCallback((item: string, enabled: boolean) => {
-    if (mode === 'digits') return
-    if (mode === 'single') {
-      const next = { ...enabledSingle, [item]: enabled }
-      setEnabledSingle(next)
-      resetQuestion('single', { enabledSingle: next })
-    } else {
-      const next = { ...enabledCombo, [item]: enabled }
-      setEnabledCombo(next)
-      resetQuestion('combo', { enabledCombo: next })
-    }
-  }, [enabledCombo, enabledSingle, mode, resetQuestion])
+    updateEnabledItems(prev => ({ ...prev, [item]: enabled }))
+  }, [updateEnabledItems])
+
+  const setEnabledForSource = useCallback((sourceId: string, enabled: boolean) => {
+    setEnabledSources(prev => ({ ...prev, [sourceId]: enabled }))
+  }, [])
+
+  const applyCustomSets = useCallback((next: CustomSet[]) => {
+    setCustomSets(next)
+    const backend = storageRef.current
+    if (backend) void saveCustomSets(backend, next)
+  }, [])
+
+  const addCustomSet = useCallback((draft: CustomSetDraft) => {
+    const errors = validateCustomSet(draft, customSets)
+    if (errors.length > 0) return errors
+    applyCustomSets([...customSets, { id: createCustomSetId(), ...draft, name: draft.name.trim() }])
+    return []
+  }, [applyCustomSets, customSets])
+
+  const updateCustomSet = useCallback((id: string, draft: CustomSetDraft) => {
+    const errors = validateCustomSet(draft, customSets.filter(set => set.id !== id))
+    if (errors.length > 0) return errors
+    applyCustomSets(customSets.map(set => (set.id === id ? { id, ...draft, name: draft.name.trim() } : set)))
+    return []
+  }, [applyCustomSets, customSets])
+
+  const deleteCustomSet = useCallback((id: string) => {
+    applyCustomSets(customSets.filter(set => set.id !== id))
+    setEnabledSources(prev => Object.fromEntries(Object.entries(prev).filter(([sourceId]) => sourceId !== id)))
+  }, [applyCustomSets, customSets])
+
+  const importCustomSetsJson = useCallback((json: string) => {
+    const result = importCustomSets(json, customSets)
+    applyCustomSets(result.sets)
+    return result.errors
+  }, [applyCustomSets, customSets])
+
+  const applyKeymapSource = useCallback((source: string | null) => {
+    setKeymapSource(source)
+    const backend = storageRef.current
+    if (backend) void saveKeymapSource(backend, source)
+  }, [])
+
+  const importKeymapJson = useCallback((json: string) => {
+    const { errors } = parseKeymapJson(json)
+    if (errors.length === 0) applyKeymapSource(json)
+    return errors
+  }, [applyKeymapSource])
+
+  const resetKeymap = useCallback(() => {
+    applyKeymapSource(null)
+  }, [applyKeymapSource])
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    const backend = storageRef.current
+    if (backend) void saveLocale(backend, next)
+  }, [])
 
   useEffect(() => {
-    const onKeyDown = (e: KeyboardEvent) => {
-      if (!isRunning) return
-      if (!target) return
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setHotkey = useCallback((id: CommandId, chord: string | null) => {
+    setHotkeys(prev => bindHotkey(prev, id, chord))
+  }, [])
+
+  const resetHotkeys = useCallback(() => {
+    setHotkeys(DEFAULT_HOTKEYS)
+  }, [])
+
+  const setLayoutId = useCallback((id: HostLayoutId) => {
+    setLayoutSettings(prev => ({ ...prev, id }))
+  }, [])
+
+  const importCustomLayoutJson = useCallback((json: string) => {
+    const { errors } = parseCustomLayoutJson(json)
+    if (errors.length === 0) setLayoutSettings({ id: 'custom', customSource: json })
+    return errors
+  }, [])
+
+  const createDrill = useCallback((): ValidationError[] => {
+    const { mode: drillMode, pool: drillPool } = engineConfig
+    if (!isGeneratedMode(drillMode) && drillPool.length === 0) return [{ code: 'noPoolItems' }]
+    setDrill({
+      seed: randomSeed(),
+      mode: drillMode,
+      items: isGeneratedMode(drillMode) ? [] : [...drillPool],
+      generatorSettings: engineConfig.generatorSettings,
+    })
+    return []
+  }, [engineConfig])
+
+  const applyDrillCode = useCallback((code: string) => {
+    const result = decodeDrillCode(code)
+    if (!result.drill) return result.errors
+    setDrill(result.drill)
+    setMode(result.drill.mode)
+    return []
+  }, [])
+
+  const exitDrill = useCallback(() => {
+    setDrill(null)
+  }, [])
+
+  const startCurriculum = useCallback((id: string) => {
+    setDrill(null)
+    setCurriculumId(id)
+  }, [])
 
+  const stopCurriculum = useCallback(() => {
+    // Stay on the mode that was being practiced.
+    if (lesson) setMode(lesson.mode)
+    setCurriculumId(null)
+  }, [lesson])
+
+  const applyCurricula = useCallback((next: Curriculum[]) => {
+    setCustomCurricula(next)
+    const backend = storageRef.current
+    if (backend) void saveCurricula(backend, next)
+  }, [])
+
+  const importCurriculaJson = useCallback((json: string) => {
+    const result = importCurricula(json, customCurricula)
+    applyCurricula(result.curricula)
+    return result.errors
+  }, [applyCurricula, customCurricula])
+
+  const deleteCurriculum = useCallback((id: string) => {
+    applyCurricula(customCurricula.filter(c => c.id !== id))
+    if (curriculumId === id) setCurriculumId(null)
+  }, [applyCurricula, curriculumId, customCurricula])
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Hotkeys and the command palette handle their keys first; those never count as typing.
+      if (e.defaultPrevented) return
       // Let browser shortcuts work (Cmd+R etc.)
       if (e.metaKey || e.ctrlKey || e.altKey) return
-
-      if (mode === 'digits') {
-        if (e.key === 'Backspace') {
-          e.preventDefault()
-          setTotalBackspace(v => v + 1)
-          setTyped(prev => prev.slice(0, -1))
-          setProgress(prev => prev.slice(0, -1))
-          return
-        }
-
-        const key = normalizeKey(e.key)
-        if (!key) return
-        if (key.length !== 1) return
-
-        e.preventDefault()
-
-        const expected = target[progress.length] ?? ''
-        if (key === expected) {
-          const nextProgress = progress + key
-          setTyped(nextProgress)
-          setProgress(nextProgress)
-
-          if (nextProgress === target) {
-            const elapsed = nowMs() - shownAtRef.current
-            setLastTimeMs(elapsed)
-
-            setTotalAttempts(v => v + 1)
-            setTotalCorrect(v => v + 1)
-            bumpStat(target, true, elapsed)
-
-            nextQuestion()
-          }
-          return
-        }
-
-        // Mismatch: count as miss attempt. Progress does not reset (Backspace can fix).
-        setTotalAttempts(v => v + 1)
-        setTotalMiss(v => v + 1)
-        bumpStat(target, false)
-        return
-      }
-
-      const key = normalizeKey(e.key)
-      if (!key) return
-
-      // Ignore non-printable keys.
-      if (key.length !== 1) return
-
-      e.preventDefault()
-
-      // Always show what the user actually typed.
-      setTyped(prev => prev + key)
-
-      const nextProgress = progress + key
-
-      // If the prefix is still matching, keep going.
-      if (target.startsWith(nextProgress)) {
-        setProgress(nextProgress)
-
-        // Completed.
-        if (nextProgress === target) {
-          const elapsed = nowMs() - shownAtRef.current
-          setLastTimeMs(elapsed)
-
-          setTotalAttempts(v => v + 1)
-          setTotalCorrect(v => v + 1)
-          bumpStat(target, true, elapsed)
-
-          nextQuestion()
-        }
-        return
-      }
-
-      // Mismatch -> count as miss attempt, then reset matching buffer.
-      setTotalAttempts(v => v + 1)
-      setTotalMiss(v => v + 1)
-      bumpStat(target, false)
-      setProgress('')
+      if (isEditableTarget(e.target)) return
+
+      const before = engine.getState()
+      const after = engine.dispatch({
+        type: 'keydown',
+        key: e.key,
+        code: e.code,
+        shift: e.shiftKey,
+        location: e.location,
+      })
+      // Keys the engine ignored keep their default behavior.
+      if (after !== before) e.preventDefault()
     }
 
     window.addEventListener('keydown', onKeyDown)
     return () => window.removeEventListener('keydown', onKeyDown)
-  }, [bumpStat, isRunning, mode, nextQuestion, progress, target])
+  }, [engine])
+
+  const { autoInserted } = generatorOf(engineConfig.mode).matching
 
   return {
     state: {
-      mode,
+      mode: engineConfig.mode,
       isRunning,
-      enabledSingle,
-      enabledCombo,
+      profiles: profileIndex.profiles,
+      activeProfileId: profileIndex.activeId,
+      locale,
+      messages: MESSAGES[locale],
+      drill,
+      drillCode,
+      curricula,
+      activeCurriculum,
+      curriculumProgress,
+      sessionConfig,
+      phase,
+      countdownMs: engineState.countdownMs,
+      activeMs: engineState.activeMs,
+      finishedSummary: engineState.finishedSummary,
+      ghost,
+      ghostDelta: standing,
+      customSets,
+      poolSources,
       basePool,
       pool,
-      digitsSettings,
+      generatorSettings,
+      schedulerSettings,
+      errorPolicy,
       target,
       typed,
       progress,
-      totalAttempts,
-      totalCorrect,
-      totalMiss,
-      totalBackspace,
-      lastTimeMs,
+      pendingErrors,
+      autoInserted: autoInserted?.(engineConfig.generatorSettings[engineConfig.mode], progress) ?? '',
+      streamSettings,
+      queue,
+      separatorPending,
+      totalAttempts: session.attempts,
+      totalCorrect: session.correct,
+      totalMiss: session.miss,
+      totalBackspace: session.backspace,
+      totalKeystrokes: session.keystrokes,
+      lastTimeMs: session.lastTimeMs,
+      lastSplits: session.lastSplits,
       accuracy,
-      ranked,
+      modeStats: stats.modeStats,
+      keymap,
+      isDefaultKeymap: keymapSource == null,
+      keyHints,
+      hotkeys,
+      layoutSettings,
+      hostLayout,
+      layoutHints,
+      missBreakdown,
+      layerStats: stats.layerStats,
+      transitionStats: stats.transitionStats,
+      firstKeyStats: stats.firstKeyStats,
+      bigramStats: stats.bigramStats,
+      lifetimeStats: stats,
+      events,
+      sessionStartedAt: session.startedAt,
+      sessions,
+      isLoaded,
     },
     actions: {
       setModeAndReset,
-      toggleRunning,
-      resetAll,
-      setDigitsSettingsAndReset,
+      switchProfile,
+      setLocale,
+      createProfile,
+      renameProfile,
+      deleteProfile,
+      setSessionConfig,
+      startSession,
+      startSessionWith,
+      togglePause,
+      completeSession,
+      dismissSummary,
+      resetSession,
+      wipeAllHistory,
+      importBackup,
+      setGeneratorSettings,
+      setStreamSettings,
+      setSchedulerSettings,
+      setErrorPolicy,
       enableAllInCurrentMode,
       disableAllInCurrentMode,
       setEnabledForItemInCurrentMode,
+      setEnabledForSource,
+      addCustomSet,
+      updateCustomSet,
+      deleteCustomSet,
+      importCustomSetsJson,
+      importKeymapJson,
+      resetKeymap,
+      setHotkey,
+      resetHotkeys,
+      setLayoutId,
+      importCustomLayoutJson,
+      createDrill,
+      applyDrillCode,
+      exitDrill,
+      startCurriculum,
+      stopCurriculum,
+      importCurriculaJson,
+      deleteCurriculum,
     },
   }
 }
@@ -0,0 +1,66 @@
+import { BracketSettingsForm } from '../components/BracketSettingsForm'
+import { BracketStats } from '../components/BracketStats'
+import { MarkedTarget } from '../components/TargetViews'
+import type { BracketPairId, BracketSettings } from '../domain/brackets'
+import {
+  autoClosedSuffix,
+  bracketSideKey,
+  DEFAULT_BRACKET_SETTINGS,
+  generateBracketTarget,
+  isClosingBracket,
+  normalizeBracketSettings,
+  sanitizeBracketSettings,
+  STEP_OVER_KEYS,
+} from '../domain/brackets'
+import { registerGenerator } from '../domain/modes'
+
+declare module '../domain/modes' {
+  interface ModeSettings {
+    brackets: BracketSettings
+  }
+}
+
+function sameBracketSettings(a: BracketSettings, b: BracketSettings): boolean {
+  return a.minPairs === b.minPairs
+    && a.maxPairs === b.maxPairs
+    && a.maxDepth === b.maxDepth
+    && a.autoClose === b.autoClose
+    && (Object.keys(a.types) as BracketPairId[]).every(k => a.types[k] === b.types[k])
+}
+
+// Balanced, nested bracket sequences generated from the settings.
+registerGenerator<BracketSettings>({
+  id: 'brackets',
+  label: m => m.modes.brackets,
+  settings: {
+    defaults: DEFAULT_BRACKET_SETTINGS,
+    sanitize: sanitizeBracketSettings,
+    normalize: normalizeBracketSettings,
+    same: sameBracketSettings,
+  },
+  pool: null,
+  items: null,
+  nextTarget: ({ settings, random }) => generateBracketTarget(settings, random),
+  matching: {
+    errorPolicy: 'stop',
+    showsInput: true,
+    // Stepping over the closing bracket the editor inserted counts as typing it.
+    stepsOver: (settings, key, expected) => settings.autoClose && STEP_OVER_KEYS.includes(key) && isClosingBracket(expected),
+    autoInserted: (settings, progress) => settings.autoClose ? autoClosedSuffix(progress) : '',
+  },
+  targetStatKeys: null,
+  // Every bracket counts towards its side of the pair.
+  keyStatKeys: (target, index) => {
+    const key = bracketSideKey(target[index])
+    return key == null ? [] : [key]
+  },
+  lesson: null,
+  view: {
+    SettingsForm: BracketSettingsForm,
+    Target: MarkedTarget,
+    Stats: BracketStats,
+    statLabel: null,
+    filterHint: null,
+    longTargets: false,
+  },
+})
@@ -0,0 +1,28 @@
+import { WholeTarget } from '../components/TargetViews'
+import type { ItemSelection } from '../domain/customSets'
+import { itemSelectionPicker, itemSelectionSchema, selectedItems } from '../domain/customSets'
+import { registerGenerator } from '../domain/modes'
+import { pickNextItem } from '../domain/scheduler'
+
+declare module '../domain/modes' {
+  interface ModeSettings {
+    combo: ItemSelection
+  }
+}
+
+// Short symbol sequences (2–3 characters), from the built-in list and custom sets.
+registerGenerator<ItemSelection>({
+  id: 'combo',
+  label: m => m.modes.combo,
+  settings: itemSelectionSchema('combo'),
+  pool: (settings, inputs) => selectedItems('combo', settings, inputs),
+  items: itemSelectionPicker('combo'),
+  nextTarget: ({ pool, stats, schedulerSettings, avoid, now, random }) => (
+    pickNextItem(pool, stats, schedulerSettings, { avoid, now, random })
+  ),
+  matching: { errorPolicy: 'reset', showsInput: false, stepsOver: null, autoInserted: null },
+  targetStatKeys: target => [target],
+  keyStatKeys: null,
+  lesson: { checkItems: () => null, statKey: item => item, itemLabel: null, settings: null },
+  view: { SettingsForm: null, Target: WholeTarget, Stats: null, statLabel: null, filterHint: null, longTargets: false },
+})
@@ -0,0 +1,73 @@
+import { DigitsFormatStats } from '../components/DigitsFormatStats'
+import { DigitsSettingsForm } from '../components/DigitsSettingsForm'
+import { WholeTarget } from '../components/TargetViews'
+import type { DigitsFormat, DigitsSettings } from '../domain/digits'
+import {
+  DEFAULT_DIGITS_SETTINGS,
+  DIGITS_FORMAT_IDS,
+  digitsCharKey,
+  digitsFormatKey,
+  digitsFormatOf,
+  digitsLengthKey,
+  digitsPositionKey,
+  digitsSettingsForFormats,
+  digitsStatLabel,
+  generateDigitsTarget,
+  normalizeDigitsSettings,
+  sanitizeDigitsSettings,
+} from '../domain/digits'
+import { registerGenerator } from '../domain/modes'
+
+declare module '../domain/modes' {
+  interface ModeSettings {
+    digits: DigitsSettings
+  }
+}
+
+function sameDigitsSettings(a: DigitsSettings, b: DigitsSettings): boolean {
+  const { formats: formatsA, ...restA } = a
+  const { formats: formatsB, ...restB } = b
+  return (Object.keys(restA) as (keyof typeof restA)[]).every(k => restA[k] === restB[k])
+    && (Object.keys(formatsA) as (keyof typeof formatsA)[]).every(k => (
+      formatsA[k].enabled === formatsB[k].enabled
+      && formatsA[k].minLength === formatsB[k].minLength
+      && formatsA[k].maxLength === formatsB[k].maxLength
+    ))
+}
+
+// Numbers in the enabled formats, generated from the settings.
+registerGenerator<DigitsSettings>({
+  id: 'digits',
+  label: m => m.modes.digits,
+  settings: {
+    defaults: DEFAULT_DIGITS_SETTINGS,
+    sanitize: sanitizeDigitsSettings,
+    normalize: normalizeDigitsSettings,
+    same: sameDigitsSettings,
+  },
+  pool: null,
+  items: null,
+  nextTarget: ({ settings, random }) => generateDigitsTarget(settings, random),
+  matching: { errorPolicy: 'stop', showsInput: true, stepsOver: null, autoInserted: null },
+  // Targets count towards their length bucket and number format, not as items.
+  targetStatKeys: target => [digitsLengthKey(target), digitsFormatKey(digitsFormatOf(target))],
+  // Every key counts towards its character and its position in the target.
+  keyStatKeys: (target, index) => [digitsCharKey(target, index), digitsPositionKey(target, index)],
+  // Stages list number formats, judged on their format stats.
+  lesson: {
+    checkItems: items => items.every(item => DIGITS_FORMAT_IDS.includes(item as DigitsFormat))
+      ? null
+      : { code: 'stageDigitsFormat', formats: [...DIGITS_FORMAT_IDS] },
+    statKey: item => digitsFormatKey(item as DigitsFormat),
+    itemLabel: (m, item) => m.digitsFormats[item as DigitsFormat] ?? item,
+    settings: digitsSettingsForFormats,
+  },
+  view: {
+    SettingsForm: DigitsSettingsForm,
+    Target: WholeTarget,
+    Stats: DigitsFormatStats,
+    statLabel: digitsStatLabel,
+    filterHint: m => m.itemStats.digitsFilter,
+    longTargets: false,
+  },
+})
@@ -0,0 +1,7 @@
+// Every mode registers itself on import, in the order they are offered (see `registerGenerator`).
+// A new drill is one more file here.
+import './single'
+import './combo'
+import './digits'
+import './snippet'
+import './brackets'
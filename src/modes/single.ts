@@ -0,0 +1,34 @@
+import { WholeTarget } from '../components/TargetViews'
+import type { ItemSelection } from '../domain/customSets'
+import { itemSelectionPicker, itemSelectionSchema, selectedItems } from '../domain/customSets'
+import { registerGenerator } from '../domain/modes'
+import { pickNextItem } from '../domain/scheduler'
+
+declare module '../domain/modes' {
+  interface ModeSettings {
+    single: ItemSelection
+  }
+}
+
+// One symbol per target, from the built-in list and custom sets.
+registerGenerator<ItemSelection>({
+  id: 'single',
+  label: m => m.modes.single,
+  settings: itemSelectionSchema('single'),
+  pool: (settings, inputs) => selectedItems('single', settings, inputs),
+  items: itemSelectionPicker('single'),
+  nextTarget: ({ pool, stats, schedulerSettings, avoid, now, random }) => (
+    pickNextItem(pool, stats, schedulerSettings, { avoid, now, random })
+  ),
+  matching: { errorPolicy: 'reset', showsInput: false, stepsOver: null, autoInserted: null },
+  targetStatKeys: target => [target],
+  keyStatKeys: null,
+  // Stages list symbols, one character each.
+  lesson: {
+    checkItems: items => items.some(item => Array.from(item).length !== 1) ? { code: 'stageNotSingle' } : null,
+    statKey: item => item,
+    itemLabel: null,
+    settings: null,
+  },
+  view: { SettingsForm: null, Target: WholeTarget, Stats: null, statLabel: null, filterHint: null, longTargets: false },
+})
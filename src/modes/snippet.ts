@@ -0,0 +1,60 @@
+import { SnippetClassStats } from '../components/SnippetClassStats'
+import { SnippetLanguagesPicker } from '../components/SnippetLanguagesPicker'
+import { SnippetTarget } from '../components/TargetViews'
+import { registerGenerator } from '../domain/modes'
+import { pickNextItem } from '../domain/scheduler'
+import type { SnippetSettings } from '../domain/snippets'
+import {
+  classifyChar,
+  DEFAULT_SNIPPET_SETTINGS,
+  sameSnippetSettings,
+  sanitizeSnippetSettings,
+  snippetClassKey,
+  snippetPool,
+  snippetStatLabel,
+} from '../domain/snippets'
+import type { Stat } from '../domain/stats'
+
+declare module '../domain/modes' {
+  interface ModeSettings {
+    snippet: SnippetSettings
+  }
+}
+
+// Lines are not tracked as items, so they are never weighted.
+const NO_ITEM_STATS: Record<string, Stat> = {}
+
+// Real-world lines of code in the enabled languages.
+registerGenerator<SnippetSettings>({
+  id: 'snippet',
+  label: m => m.modes.snippet,
+  settings: {
+    defaults: DEFAULT_SNIPPET_SETTINGS,
+    sanitize: sanitizeSnippetSettings,
+    normalize: next => next,
+    same: sameSnippetSettings,
+  },
+  pool: settings => snippetPool(settings.languages),
+  items: null,
+  nextTarget: ({ pool, schedulerSettings, avoid, now, random }) => (
+    pickNextItem(pool, NO_ITEM_STATS, schedulerSettings, { avoid, now, random })
+  ),
+  matching: { errorPolicy: 'stop', showsInput: false, stepsOver: null, autoInserted: null },
+  targetStatKeys: null,
+  // Symbols are tracked individually, every character also counts towards its class.
+  keyStatKeys: (target, index) => {
+    const ch = target[index]
+    const charClass = classifyChar(ch)
+    const byClass = snippetClassKey(charClass)
+    return charClass === 'symbol' ? [ch, byClass] : [byClass]
+  },
+  lesson: null,
+  view: {
+    SettingsForm: SnippetLanguagesPicker,
+    Target: SnippetTarget,
+    Stats: SnippetClassStats,
+    statLabel: snippetStatLabel,
+    filterHint: null,
+    longTargets: true,
+  },
+})
@@ -2,6 +2,10 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  build: {
+    // The SSR build is the terminal version (`pnpm cli`), which needs no static assets.
+    copyPublicDir: !isSsrBuild,
+  },
+}))